@@ -8,9 +8,22 @@ interface EnvConfig {
   SUPABASE_URL: string;
   SUPABASE_ANON_KEY: string;
   SUPABASE_SERVICE_KEY: string;
-  GROQ_API_KEY: string;
+  GROQ_API_KEY?: string;
   GEMINI_API_KEY?: string;
+  LLM_PROVIDER?: 'groq' | 'gemini' | 'local';
   CORS_ORIGIN: string;
+  REMINDER_CHANNEL?: 'apns' | 'email' | 'webhook' | 'local';
+  REMINDER_INTERVAL_SECONDS: number;
+  APNS_KEY_ID?: string;
+  APNS_TEAM_ID?: string;
+  APNS_PRIVATE_KEY?: string;
+  APNS_BUNDLE_ID?: string;
+  APNS_PRODUCTION: boolean;
+  REMINDER_EMAIL_API_KEY?: string;
+  REMINDER_EMAIL_FROM?: string;
+  REMINDER_WEBHOOK_URL?: string;
+  REMINDER_WEBHOOK_SECRET?: string;
+  CRON_SECRET?: string;
 }
 
 const getEnvVar = (key: string, defaultValue?: string): string => {
@@ -21,13 +34,57 @@ const getEnvVar = (key: string, defaultValue?: string): string => {
   return value;
 };
 
+const getLLMProvider = (): EnvConfig['LLM_PROVIDER'] => {
+  const value = process.env.LLM_PROVIDER;
+  if (!value) return undefined;
+  if (value !== 'groq' && value !== 'gemini' && value !== 'local') {
+    throw new Error(`LLM_PROVIDER must be one of groq, gemini or local (got "${value}")`);
+  }
+  return value;
+};
+
+const LLM_PROVIDER = getLLMProvider();
+
+const getReminderChannel = (): EnvConfig['REMINDER_CHANNEL'] => {
+  const value = process.env.REMINDER_CHANNEL;
+  if (!value) return undefined;
+  if (value !== 'apns' && value !== 'email' && value !== 'webhook' && value !== 'local') {
+    throw new Error(`REMINDER_CHANNEL must be one of apns, email, webhook or local (got "${value}")`);
+  }
+  return value;
+};
+
+const getReminderInterval = (): number => {
+  const value = Number(getEnvVar('REMINDER_INTERVAL_SECONDS', '60'));
+  if (!Number.isInteger(value) || value < 10) {
+    throw new Error('REMINDER_INTERVAL_SECONDS must be a whole number of seconds, at least 10');
+  }
+  return value;
+};
+
 export const env: EnvConfig = {
   PORT: parseInt(getEnvVar('PORT', '3000'), 10),
   NODE_ENV: getEnvVar('NODE_ENV', 'development'),
   SUPABASE_URL: getEnvVar('SUPABASE_URL'),
   SUPABASE_ANON_KEY: getEnvVar('SUPABASE_ANON_KEY'),
   SUPABASE_SERVICE_KEY: getEnvVar('SUPABASE_SERVICE_KEY'),
-  GROQ_API_KEY: getEnvVar('GROQ_API_KEY'),
+  // Optional once LLM_PROVIDER routes every feature to another provider
+  GROQ_API_KEY: LLM_PROVIDER && LLM_PROVIDER !== 'groq' ? process.env.GROQ_API_KEY : getEnvVar('GROQ_API_KEY'),
   GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+  LLM_PROVIDER,
   CORS_ORIGIN: getEnvVar('CORS_ORIGIN', '*'),
+  // Reminders are only delivered once a channel is chosen
+  REMINDER_CHANNEL: getReminderChannel(),
+  REMINDER_INTERVAL_SECONDS: getReminderInterval(),
+  APNS_KEY_ID: process.env.APNS_KEY_ID,
+  APNS_TEAM_ID: process.env.APNS_TEAM_ID,
+  APNS_PRIVATE_KEY: process.env.APNS_PRIVATE_KEY,
+  APNS_BUNDLE_ID: process.env.APNS_BUNDLE_ID,
+  APNS_PRODUCTION: process.env.APNS_PRODUCTION === 'true',
+  REMINDER_EMAIL_API_KEY: process.env.REMINDER_EMAIL_API_KEY,
+  REMINDER_EMAIL_FROM: process.env.REMINDER_EMAIL_FROM,
+  REMINDER_WEBHOOK_URL: process.env.REMINDER_WEBHOOK_URL,
+  REMINDER_WEBHOOK_SECRET: process.env.REMINDER_WEBHOOK_SECRET,
+  // Shared secret for scheduler-triggered routes such as /api/reminders/deliver
+  CRON_SECRET: process.env.CRON_SECRET,
 };
@@ -0,0 +1,76 @@
+import { env } from './env';
+
+/**
+ * Which provider and model each AI feature uses.
+ *
+ * LLM_PROVIDER=groq|gemini|local forces one provider for every feature (with that
+ * provider's default models); `local` runs fully offline. A single feature can be
+ * pointed elsewhere with AI_MODEL_<FEATURE>=provider:model (or just a model name
+ * for the feature's current provider), e.g. AI_MODEL_PARSE_PRO=groq:llama-3.3-70b-versatile.
+ */
+
+export type LLMProviderName = 'groq' | 'gemini' | 'local';
+
+export type LLMFeature =
+  | 'insights'
+  | 'parse'
+  | 'parsePro'
+  | 'vision'
+  | 'taskInsight'
+  | 'scheduleExplain'
+  | 'chat'
+  | 'edit'
+  | 'review'
+  | 'classify';
+
+export interface ModelConfig {
+  provider: LLMProviderName;
+  model: string;
+}
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['groq', 'gemini', 'local'];
+
+const FEATURE_DEFAULTS: Record<LLMFeature, ModelConfig & { vision?: boolean }> = {
+  insights: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+  parse: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+  parsePro: { provider: 'gemini', model: 'gemini-2.5-flash' },
+  vision: { provider: 'gemini', model: 'gemini-2.0-flash-exp', vision: true },
+  taskInsight: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+  scheduleExplain: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+  chat: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+  edit: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+  review: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+  classify: { provider: 'groq', model: 'llama-3.3-70b-versatile' }
+};
+
+const PROVIDER_DEFAULT_MODELS: Record<LLMProviderName, { text: string; vision: string }> = {
+  groq: { text: 'llama-3.3-70b-versatile', vision: 'meta-llama/llama-4-scout-17b-16e-instruct' },
+  gemini: { text: 'gemini-2.5-flash', vision: 'gemini-2.0-flash-exp' },
+  local: { text: 'local', vision: 'local' }
+};
+
+// parsePro -> AI_MODEL_PARSE_PRO
+function overrideVariable(feature: LLMFeature): string {
+  return `AI_MODEL_${feature.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase()}`;
+}
+
+function parseOverride(value: string, fallbackProvider: LLMProviderName): ModelConfig {
+  const separator = value.indexOf(':');
+  const prefix = separator > 0 ? value.slice(0, separator) : '';
+  if (LLM_PROVIDERS.includes(prefix as LLMProviderName)) {
+    const provider = prefix as LLMProviderName;
+    return { provider, model: value.slice(separator + 1) || PROVIDER_DEFAULT_MODELS[provider].text };
+  }
+  return { provider: fallbackProvider, model: value };
+}
+
+export function getModelConfig(feature: LLMFeature): ModelConfig {
+  const defaults = FEATURE_DEFAULTS[feature];
+  const forced = env.LLM_PROVIDER;
+  const base: ModelConfig = forced && forced !== defaults.provider
+    ? { provider: forced, model: PROVIDER_DEFAULT_MODELS[forced][defaults.vision ? 'vision' : 'text'] }
+    : { provider: defaults.provider, model: defaults.model };
+
+  const override = process.env[overrideVariable(feature)];
+  return override ? parseOverride(override, base.provider) : base;
+}
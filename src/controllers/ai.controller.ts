@@ -1,22 +1,358 @@
 import { Request, Response } from 'express';
-import { createClient } from '@supabase/supabase-js';
-import Groq from 'groq-sdk';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { env } from '../config/env';
+import { explanationsSchema, INSIGHT_COUNT, InsightSchema, InsightsSchema, ParsedEventSchema, TASK_INSIGHT_BULLETS, TaskInsightSchema } from '../schemas/ai.schema';
+import {
+  AnalyticsRequestSchema,
+  DEFAULT_ESTIMATE_RANGE_DAYS,
+  EstimatesRequestSchema,
+  MAX_ANALYTICS_RANGE_DAYS
+} from '../schemas/analytics.schema';
+import { EventInput } from '../schemas/event.schema';
+import { AutoScheduleSchema } from '../schemas/schedule.schema';
+import { categorizeEventInputs, getCategoryRegistry } from '../services/categories.service';
+import { annotateEventConflicts } from '../services/conflicts.service';
+import { getEstimateReport } from '../services/estimates.service';
+import { fetchEventRows, insertEventRows } from '../services/events.service';
+import { getGoalHistory, getGoalProgress, GoalWithProgress } from '../services/goals.service';
+import { CachedInsight, getCachedInsight, hashInsightInput, InsightKind, storeInsight } from '../services/insightCache.service';
+import { saveParsedEvents, SavedParsedEvents } from '../services/parsedEvents.service';
+import {
+  GenerateOptions,
+  generateValidated,
+  generateValidatedList,
+  isFeatureAvailable,
+  LLMMessage,
+  LLMResponseError,
+  streamValidatedList,
+  ValidatedListSpec,
+  ValidationReport
+} from '../services/llm';
+import { DEFAULT_TIME_ZONE, getUserPreferences, getUserTimeZone, resolveTimeZone } from '../services/profile.service';
+import { normalizeBullets, normalizeInsights, normalizeParsedEvent } from '../utils/aiNormalize';
+import { calculateRangeAnalytics } from '../utils/analytics';
+import { categoryKey, CategoryRegistry } from '../utils/categories';
+import { addDays, diffDays, formatClock, isValidDate } from '../utils/date';
+import { getEnergyLevel } from '../utils/energy';
+import { clipEventRowsToDate, getEventSegments, toDbEvent, transformEvent } from '../utils/events';
+import { describeGoal } from '../utils/goals';
+import { DEFAULT_PREFERENCES, describePreferences, UserPreferences } from '../utils/preferences';
+import { describePlacement, scheduleTasks, TaskPlacement } from '../utils/scheduler';
+import { EventStream, openEventStream } from '../utils/sse';
+import { describeNow, todayInZone, toZonedParts } from '../utils/timezone';
+import { describeEstimateBias } from '../utils/tracking';
+import { calculateVisualInsights } from '../utils/visualInsights';
+
+// Longest range the auto-scheduler searches in one request
+const MAX_AUTO_SCHEDULE_DAYS = 31;
+
+// Most images a single multi-image parse accepts
+const MAX_PARSE_IMAGES = 3;
+
+const EMPTY_DAY_INSIGHTS = [
+  "No events scheduled for this day. Consider planning your day for better productivity!",
+  "A blank slate - perfect opportunity to set meaningful goals.",
+  "Time blocking can help structure your unscheduled day.",
+  "Consider adding at least 2-3 focused work blocks.",
+  "Don't forget to schedule breaks and personal time."
+];
+
+const EMPTY_VISUAL_INSIGHTS = {
+  energyHeatmap: [],
+  focusBlocks: [],
+  workLifeBalance: { work: 0, personal: 0, health: 0, other: 0 }
+};
+
+// Used when the model never produces valid insights
+const FALLBACK_INSIGHTS = [
+  "Your schedule shows a good balance of activities.",
+  "Consider adding buffer time between tasks.",
+  "Mix focused work with breaks for optimal productivity.",
+  "Track your energy levels to optimize task timing.",
+  "Review your schedule weekly to identify patterns."
+];
 
-const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
-const groq = new Groq({ apiKey: env.GROQ_API_KEY });
-const genAI = new GoogleGenerativeAI(env.GEMINI_API_KEY || 'dummy_key');
+/**
+ * Only the part of overnight/multi-day events falling on the date counts;
+ * all-day events are context for the model but take no time in the visual breakdown
+ */
+function prepareDayInsights(events: any[], date: string, preferences: UserPreferences, registry: CategoryRegistry) {
+  const dayEvents = clipEventRowsToDate(events, date);
+  const visualInsights = calculateVisualInsights(dayEvents.filter(event => !event.is_all_day), preferences, registry);
+  return { dayEvents, visualInsights };
+}
+
+// What day insights are generated from; ids and timestamps do not change the answer
+function dayInsightsHash(dayEvents: any[], goalNotes: string[]): string {
+  const events = dayEvents.map(event => ({
+    title: event.title,
+    description: event.description ?? null,
+    startTime: event.start_time,
+    endTime: event.end_time,
+    category: event.category ?? null,
+    isAllDay: event.is_all_day ?? false,
+    isCompleted: event.is_completed ?? false
+  }));
+  return hashInsightInput(goalNotes.length > 0 ? { events, goals: goalNotes } : events);
+}
+
+/**
+ * Progress of the user's goals in the periods containing `date`. Best effort:
+ * insights are still made without goals when they cannot be read.
+ */
+async function readGoalProgress(userId: string, date: string, timeZone: string): Promise<GoalWithProgress[]> {
+  const { data, error } = await getGoalProgress(userId, date, timeZone);
+  if (error) {
+    console.error('Error reading goal progress:', error);
+  }
+  return data || [];
+}
+
+function goalNotes(goals: GoalWithProgress[]): string[] {
+  return goals.map(goal => {
+    const unit = goal.metric === 'hours' ? 'h' : ' events';
+    const { actual, scheduled, status } = goal.progress;
+    return `${describeGoal(goal)}: ${actual}${unit} so far, ${scheduled}${unit} scheduled this ${goal.period} (${status.replace('_', ' ')})`;
+  });
+}
+
+// Cache reads and writes are best effort: on failure the model is simply called
+async function readCachedInsight<T>(
+  userId: string,
+  kind: InsightKind,
+  key: string,
+  contentHash: string,
+  refresh: boolean
+): Promise<CachedInsight<T> | null> {
+  if (refresh) return null;
+
+  const { data, error } = await getCachedInsight<T>(userId, kind, key, contentHash);
+  if (error) {
+    console.error('Error reading cached insight:', error);
+  }
+  return data;
+}
+
+async function cacheInsight(
+  userId: string,
+  kind: InsightKind,
+  key: string,
+  date: string | null,
+  contentHash: string,
+  payload: unknown
+): Promise<void> {
+  const { error } = await storeInsight(userId, kind, key, date, contentHash, payload);
+  if (error) {
+    console.error('Error caching insight:', error);
+  }
+}
+
+/**
+ * Warning for a category the user's tracked time shows they misjudge, or null.
+ * Best effort, like the cache: without history the insight is made without it.
+ */
+async function readEstimateWarning(userId: string, category: unknown, today: string): Promise<string | null> {
+  const { data, error } = await getEstimateReport(userId, { from: addDays(today, -DEFAULT_ESTIMATE_RANGE_DAYS), to: today });
+  if (error) {
+    console.error('Error reading estimate history:', error);
+  }
+
+  const key = categoryKey(typeof category === 'string' ? category : null);
+  const estimate = data?.categories.find(item => item.category === key);
+  return estimate ? describeEstimateBias(estimate) : null;
+}
+
+function insightsRequest(dayEvents: any[], goalNotes: string[]): GenerateOptions {
+  const goals = goalNotes.length > 0
+    ? `\n\nThe user's goals and their progress:\n${goalNotes.map(note => `- ${note}`).join('\n')}\nMake at least one insight about the goal most at risk.`
+    : '';
+
+  return {
+    messages: [
+      {
+        role: 'system',
+        content: `You are a productivity assistant analyzing daily schedules. Provide exactly ${INSIGHT_COUNT} actionable insights about time management, work-life balance, and productivity. Return ONLY a JSON array of ${INSIGHT_COUNT} strings, no other text.`
+      },
+      {
+        role: 'user',
+        content: `Analyze this day schedule and provide ${INSIGHT_COUNT} productivity insights:\n\n${JSON.stringify(dayEvents, null, 2)}${goals}\n\nReturn format: ["insight 1", "insight 2", "insight 3", "insight 4", "insight 5"]`
+      }
+    ],
+    temperature: 0.7,
+    maxTokens: 500
+  };
+}
+
+function parseMessages(prompt: string, nowContext: string, preferences: UserPreferences): LLMMessage[] {
+  return [
+    {
+      role: 'system',
+      content: `You are a scheduling assistant. ${nowContext}.
+
+Return ONLY a JSON array of event objects:
+[{
+  "title": "Event title",
+  "description": "Brief description",
+  "startTime": 15.0,
+  "endTime": 16.0,
+  "date": "2025-10-25",
+  "emoji": "📅",
+  "colorHex": "#FF69B4"
+}]
+
+Rules:
+- startTime/endTime in 24-hour decimal format (15.0 = 3pm, 15.5 = 3:30pm)
+- date in YYYY-MM-DD format, resolving relative dates ("tomorrow", "next Friday") from today's date above
+- Choose relevant emojis and colors
+- If duration not specified, default to ${preferences.defaultEventMinutes} minutes
+- Work tasks without a time go within working hours (${formatClock(preferences.workStart)}-${formatClock(preferences.workEnd)})
+- Infer smart defaults from context`
+    },
+    {
+      role: 'user',
+      content: `Parse this into structured events: "${prompt}"`
+    }
+  ];
+}
+
+/**
+ * Check a multi-image parse body and strip data: URL prefixes from the images
+ */
+function readImagesBody(body: any): { images: string[]; prompt: string } | { error: string } {
+  const { images, prompt } = body;
+
+  if (!images || !Array.isArray(images) || images.length === 0) {
+    return { error: 'At least one image (base64 encoded) is required' };
+  }
+
+  if (images.length > MAX_PARSE_IMAGES) {
+    return { error: `Maximum ${MAX_PARSE_IMAGES} images allowed` };
+  }
+
+  return {
+    images: images.map((img: string) => img.replace(/^data:image\/[a-z]+;base64,/, '')),
+    prompt: prompt || 'Analyze these timetable/schedule images and extract all events, tasks, and time slots into a structured format.'
+  };
+}
+
+function imagesRequest(images: string[], userPrompt: string, nowContext: string): GenerateOptions {
+  const count = images.length;
+  return {
+    messages: [
+      {
+        role: 'system',
+        content: `You are a scheduling assistant that analyzes images of timetables, calendars, and schedules. ${nowContext}.
+
+Analyze ALL ${count} image(s) carefully and extract all events, classes, meetings, or tasks visible across all images. Combine them into a single comprehensive schedule.
+
+Return ONLY a JSON array of event objects:
+[{
+  "title": "Event title",
+  "description": "Brief description from the image",
+  "startTime": 15.0,
+  "endTime": 16.0,
+  "date": "2025-10-31",
+  "emoji": "📅",
+  "colorHex": "#FF69B4"
+}]
+
+Rules:
+- startTime/endTime in 24-hour decimal format (15.0 = 3pm, 15.5 = 3:30pm)
+- date in YYYY-MM-DD format (use today's date above if not specified in images)
+- Choose relevant emojis based on the event type
+- Choose appropriate colors for each event
+- If duration not specified in images, infer reasonable duration
+- Extract ALL events visible across ALL images
+- If images show different days/weeks, include events for those specific dates
+- Avoid duplicates - if the same event appears in multiple images, include it only once`
+      },
+      { role: 'user', content: `User request: ${userPrompt}` }
+    ],
+    images: images.map(data => ({ data, mimeType: 'image/jpeg' }))
+  };
+}
+
+// Parsed events must pass EventSchema; undated events land on today in the user's zone,
+// and events without an end last `eventHours` (the normalizer's default when omitted)
+function parsedEventSpec(timeZone: string, eventHours?: number): ValidatedListSpec<EventInput> {
+  const today = todayInZone(timeZone);
+  return {
+    key: 'events',
+    itemSchema: ParsedEventSchema,
+    normalizeItem: item => normalizeParsedEvent(item, { date: today, eventHours })
+  };
+}
+
+function generateParsedEvents(
+  feature: 'parse' | 'parsePro' | 'vision',
+  options: GenerateOptions,
+  timeZone: string,
+  eventHours?: number
+) {
+  return generateValidatedList(feature, options, parsedEventSpec(timeZone, eventHours));
+}
+
+/**
+ * Categorize parsed events, annotate them with calendar conflicts and, in commit
+ * mode, save them (see saveParsedEvents). Conflicts are looked up first so saved
+ * events are not reported as conflicting with themselves.
+ */
+async function finishParsedEvents(
+  userId: string,
+  uncategorized: EventInput[],
+  timeZone: string,
+  commit: boolean
+): Promise<{ events: any[]; saved?: SavedParsedEvents; error?: any }> {
+  const parsed = await categorizeEventInputs(userId, uncategorized);
+  const events = await annotateEventConflicts(userId, parsed, timeZone);
+  if (!commit) {
+    return { events };
+  }
+
+  const { data: saved, error } = await saveParsedEvents(userId, parsed, timeZone);
+  return error || !saved ? { events, error } : { events, saved };
+}
+
+/**
+ * Send each parsed event as soon as it is complete, then a summary with the
+ * full list annotated with calendar conflicts (and what was saved in commit mode)
+ */
+async function streamParsedEvents(
+  stream: EventStream,
+  userId: string,
+  feature: 'parse' | 'vision',
+  options: GenerateOptions,
+  timeZone: string,
+  commit: boolean,
+  eventHours?: number
+) {
+  const { data, report: validation } = await streamValidatedList(
+    feature,
+    { ...options, signal: stream.signal },
+    parsedEventSpec(timeZone, eventHours),
+    (event, index) => stream.send('event', { index, event })
+  );
+
+  if (stream.signal.aborted) return;
+
+  const { events, saved, error } = await finishParsedEvents(userId, data, timeZone, commit);
+  if (error) {
+    console.error('Error saving parsed events:', error);
+    stream.send('error', { error: 'Failed to save parsed events' });
+    return;
+  }
+
+  stream.send('done', { events, timeZone, validation, ...(saved ? { saved } : {}) });
+}
 
 /**
  * Generate AI insights for a user's day schedule
  * POST /api/ai/insights
- * Body: { date: "2025-10-25" }
+ * Body: { date: "2025-10-25", refresh?: true }
  */
 export async function generateDayInsights(req: Request, res: Response) {
   try {
     const userId = req.user!.id;
     const { date } = req.body;
+    const refresh = req.body.refresh === true;
 
     if (!date) {
       return res.status(400).json({
@@ -25,13 +361,16 @@ export async function generateDayInsights(req: Request, res: Response) {
       });
     }
 
+    if (typeof date !== 'string' || !isValidDate(date)) {
+      return res.status(400).json({
+        success: false,
+        error: 'date must be a valid YYYY-MM-DD date'
+      });
+    }
+
     
-    const { data: events, error } = await supabase
-      .from('events')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('date', date)
-      .order('start_time', { ascending: true });
+    const timeZone = await getUserTimeZone(req);
+    const { data: events, error } = await fetchEventRows(userId, { from: date, to: date }, { timeZone });
 
     if (error) {
       console.error('Supabase error:', error);
@@ -41,67 +380,61 @@ export async function generateDayInsights(req: Request, res: Response) {
       });
     }
 
+    const goals = await readGoalProgress(userId, date, timeZone ?? DEFAULT_TIME_ZONE);
+
     if (!events || events.length === 0) {
       return res.json({
         success: true,
         data: {
-          insights: [
-            "No events scheduled for this day. Consider planning your day for better productivity!",
-            "A blank slate - perfect opportunity to set meaningful goals.",
-            "Time blocking can help structure your unscheduled day.",
-            "Consider adding at least 2-3 focused work blocks.",
-            "Don't forget to schedule breaks and personal time."
-          ],
-          visualInsights: {
-            energyHeatmap: [],
-            focusBlocks: [],
-            workLifeBalance: { work: 0, personal: 0, health: 0, other: 0 }
-          }
+          insights: EMPTY_DAY_INSIGHTS,
+          visualInsights: EMPTY_VISUAL_INSIGHTS,
+          goals
         }
       });
     }
 
-    
-    const visualInsights = calculateVisualInsights(events);
+    const [preferences, registry] = await Promise.all([getUserPreferences(userId), getCategoryRegistry(userId)]);
+    const { dayEvents, visualInsights } = prepareDayInsights(events, date, preferences, registry);
+    const notes = goalNotes(goals);
 
-    
-    const completion = await groq.chat.completions.create({
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a productivity assistant analyzing daily schedules. Provide exactly 5 actionable insights about time management, work-life balance, and productivity. Return ONLY a JSON array of 5 strings, no other text.'
-        },
-        {
-          role: 'user',
-          content: `Analyze this day schedule and provide 5 productivity insights:\n\n${JSON.stringify(events, null, 2)}\n\nReturn format: ["insight 1", "insight 2", "insight 3", "insight 4", "insight 5"]`
+    const contentHash = dayInsightsHash(dayEvents, notes);
+    const cached = await readCachedInsight<string[]>(userId, 'day', date, contentHash, refresh);
+    if (cached) {
+      return res.json({
+        success: true,
+        data: {
+          insights: cached.payload,
+          visualInsights,
+          goals,
+          cache: { hit: true, generatedAt: cached.generatedAt }
         }
-      ],
-      model: 'llama-3.3-70b-versatile',
-      temperature: 0.7,
-      max_tokens: 500
-    });
+      });
+    }
 
-    const content = completion.choices[0].message.content || '[]';
-    let insights: string[];
+    const { data, report: validation } = await generateValidated('insights', insightsRequest(dayEvents, notes), {
+      schema: InsightsSchema,
+      normalize: value => normalizeInsights(value, INSIGHT_COUNT),
+      repairInstruction: `Return ONLY a JSON array of exactly ${INSIGHT_COUNT} non-empty strings.`
+    });
 
-    try {
-      insights = JSON.parse(content);
-    } catch {
-      
-      insights = [
-        "Your schedule shows a good balance of activities.",
-        "Consider adding buffer time between tasks.",
-        "Mix focused work with breaks for optimal productivity.",
-        "Track your energy levels to optimize task timing.",
-        "Review your schedule weekly to identify patterns."
-      ];
+    // Fallbacks are not cached, so the next request tries the model again
+    let insights = data;
+    const generatedAt = new Date().toISOString();
+    if (!insights) {
+      validation.fallback = true;
+      insights = FALLBACK_INSIGHTS;
+    } else {
+      await cacheInsight(userId, 'day', date, date, contentHash, insights);
     }
 
     return res.json({
       success: true,
       data: {
         insights,
-        visualInsights
+        visualInsights,
+        goals,
+        validation,
+        cache: { hit: false, generatedAt }
       }
     });
 
@@ -114,14 +447,114 @@ export async function generateDayInsights(req: Request, res: Response) {
   }
 }
 
+/**
+ * Streaming variant of generateDayInsights (server-sent events)
+ * POST /api/ai/insights/stream
+ * Body: { date: "2025-10-25", refresh?: true }
+ * Events: visualInsights ({ visualInsights, goals }), insight ({ index, insight })
+ * as each one is written, then done ({ insights, visualInsights, goals, validation })
+ * or error ({ error })
+ */
+export async function streamDayInsights(req: Request, res: Response): Promise<Response | void> {
+  const userId = req.user!.id;
+  const { date } = req.body;
+  const refresh = req.body.refresh === true;
+
+  if (!date) {
+    return res.status(400).json({
+      success: false,
+      error: 'Date is required'
+    });
+  }
+
+  if (typeof date !== 'string' || !isValidDate(date)) {
+    return res.status(400).json({
+      success: false,
+      error: 'date must be a valid YYYY-MM-DD date'
+    });
+  }
+
+  const stream = openEventStream(res);
+
+  try {
+    const timeZone = await getUserTimeZone(req);
+    const { data: events, error } = await fetchEventRows(userId, { from: date, to: date }, { timeZone });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      stream.send('error', { error: 'Failed to fetch events from database' });
+      return;
+    }
+
+    const goals = await readGoalProgress(userId, date, timeZone ?? DEFAULT_TIME_ZONE);
+
+    if (!events || events.length === 0) {
+      stream.send('visualInsights', { visualInsights: EMPTY_VISUAL_INSIGHTS, goals });
+      EMPTY_DAY_INSIGHTS.forEach((insight, index) => stream.send('insight', { index, insight }));
+      stream.send('done', { insights: EMPTY_DAY_INSIGHTS, visualInsights: EMPTY_VISUAL_INSIGHTS, goals });
+      return;
+    }
+
+    const [preferences, registry] = await Promise.all([getUserPreferences(userId), getCategoryRegistry(userId)]);
+    const { dayEvents, visualInsights } = prepareDayInsights(events, date, preferences, registry);
+    stream.send('visualInsights', { visualInsights, goals });
+    const notes = goalNotes(goals);
+
+    const contentHash = dayInsightsHash(dayEvents, notes);
+    const cached = await readCachedInsight<string[]>(userId, 'day', date, contentHash, refresh);
+    if (cached) {
+      cached.payload.forEach((insight, index) => stream.send('insight', { index, insight }));
+      stream.send('done', { insights: cached.payload, visualInsights, goals, cache: { hit: true, generatedAt: cached.generatedAt } });
+      return;
+    }
+
+    const insights: string[] = [];
+    const { report: validation } = await streamValidatedList('insights', { ...insightsRequest(dayEvents, notes), signal: stream.signal }, {
+      key: 'insights',
+      itemSchema: InsightSchema
+    }, insight => {
+      if (insights.length < INSIGHT_COUNT) {
+        stream.send('insight', { index: insights.length, insight });
+        insights.push(insight);
+      }
+    });
+
+    if (stream.signal.aborted) return;
+
+    const generatedAt = new Date().toISOString();
+    if (insights.length === 0) {
+      validation.fallback = true;
+      FALLBACK_INSIGHTS.forEach((insight, index) => stream.send('insight', { index, insight }));
+      insights.push(...FALLBACK_INSIGHTS);
+    } else if (insights.length === INSIGHT_COUNT) {
+      // A short list (the stream broke off or items were dropped) is shown but not cached
+      await cacheInsight(userId, 'day', date, date, contentHash, insights);
+    }
+
+    stream.send('done', { insights, visualInsights, goals, validation, cache: { hit: false, generatedAt } });
+
+  } catch (error) {
+    if (stream.signal.aborted) {
+      console.log('Insights stream cancelled by client');
+    } else {
+      console.error('AI insights stream error:', error);
+      stream.send('error', { error: 'Failed to generate insights' });
+    }
+  } finally {
+    stream.end();
+  }
+}
+
 /**
  * Parse natural language into structured events
  * POST /api/ai/parse-schedule
- * Body: { prompt: "Meeting at 3pm tomorrow and gym at 6pm" }
+ * Body: { prompt: "Meeting at 3pm tomorrow and gym at 6pm", commit?: true }
+ * commit saves the events, skipping or merging near-duplicates of stored ones
  */
 export async function parseNaturalLanguage(req: Request, res: Response) {
   try {
     const { prompt } = req.body;
+    const commit = req.body.commit === true;
 
     if (!prompt || typeof prompt !== 'string') {
       return res.status(400).json({
@@ -130,64 +563,57 @@ export async function parseNaturalLanguage(req: Request, res: Response) {
       });
     }
 
-    const today = new Date();
-    const todayStr = today.toISOString().split('T')[0];
-
-    const systemMessage = {
-      role: 'system' as const,
-      content: `You are a scheduling assistant. Today's date is ${todayStr}.
-
-Return ONLY a JSON array of event objects:
-[{
-  "title": "Event title",
-  "description": "Brief description",
-  "startTime": 15.0,
-  "endTime": 16.0,
-  "date": "2025-10-25",
-  "emoji": "📅",
-  "colorHex": "#FF69B4"
-}]
+    // The test route has no user to save events for
+    if (commit && !req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Sign in to save parsed events'
+      });
+    }
 
-Rules:
-- startTime/endTime in 24-hour decimal format (15.0 = 3pm, 15.5 = 3:30pm)
-- date in YYYY-MM-DD format
-- Choose relevant emojis and colors
-- If duration not specified, default to 30 minutes
-- Infer smart defaults from context`
-    };
+    const timeZone = await resolveTimeZone(req);
+    const nowContext = describeNow(timeZone);
+    const preferences = req.user ? await getUserPreferences(req.user.id) : DEFAULT_PREFERENCES;
 
-    const messages: any[] = [
-      systemMessage,
-      {
-        role: 'user',
-        content: `Parse this into structured events: "${prompt}"`
-      }
-    ];
+    const messages = parseMessages(prompt, nowContext, preferences);
 
     console.log(`📝 Processing prompt: "${prompt}"`);
 
-    const completion = await groq.chat.completions.create({
-      messages,
-      model: 'llama-3.3-70b-versatile',
-      temperature: 0.3,
-      max_tokens: 1000
-    });
-
-    const content = completion.choices[0].message.content || '[]';
     let events: any[];
+    let validation: ValidationReport;
 
     try {
-      events = JSON.parse(content);
-    } catch {
+      ({ data: events, report: validation } = await generateParsedEvents('parse', {
+        messages,
+        temperature: 0.3,
+        maxTokens: 1000
+      }, timeZone, preferences.defaultEventMinutes / 60));
+    } catch (error) {
+      if (!(error instanceof LLMResponseError)) throw error;
       return res.status(500).json({
         success: false,
         error: 'Failed to parse AI response'
       });
     }
 
+    // Flag parsed events that collide with the user's calendar (the test route has no user)
+    let saved: SavedParsedEvents | undefined;
+    if (req.user) {
+      const result = await finishParsedEvents(req.user.id, events, timeZone, commit);
+      if (result.error) {
+        console.error('Error saving parsed events:', result.error);
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to save parsed events'
+        });
+      }
+
+      ({ events, saved } = result);
+    }
+
     return res.json({
       success: true,
-      data: { events }
+      data: { events, timeZone, validation, ...(saved ? { saved } : {}) }
     });
 
   } catch (error) {
@@ -199,22 +625,62 @@ Rules:
   }
 }
 
+/**
+ * Streaming variant of parseNaturalLanguage (server-sent events)
+ * POST /api/ai/parse-schedule/stream
+ * Body: { prompt: "Meeting at 3pm tomorrow and gym at 6pm", commit?: true }
+ * Events: event ({ index, event }) as each one is parsed,
+ * then done ({ events, timeZone, validation, saved? }) or error ({ error })
+ */
+export async function streamNaturalLanguage(req: Request, res: Response): Promise<Response | void> {
+  const { prompt } = req.body;
+
+  if (!prompt || typeof prompt !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Prompt is required and must be a string'
+    });
+  }
+
+  const timeZone = await resolveTimeZone(req);
+  const preferences = await getUserPreferences(req.user!.id);
+  const stream = openEventStream(res);
+
+  try {
+    await streamParsedEvents(stream, req.user!.id, 'parse', {
+      messages: parseMessages(prompt, describeNow(timeZone), preferences),
+      temperature: 0.3,
+      maxTokens: 1000
+    }, timeZone, req.body.commit === true, preferences.defaultEventMinutes / 60);
+  } catch (error) {
+    if (stream.signal.aborted) {
+      console.log('Parse stream cancelled by client');
+    } else {
+      console.error('Natural language parse stream error:', error);
+      stream.send('error', { error: error instanceof LLMResponseError ? 'Failed to parse AI response' : 'Failed to parse natural language' });
+    }
+  } finally {
+    stream.end();
+  }
+}
+
 /**
  * Parse natural language using Gemini Pro model
  * POST /api/ai/parse-schedule-pro
- * Body: { prompt: "Meeting at 3pm tomorrow and gym at 6pm" }
+ * Body: { prompt: "Meeting at 3pm tomorrow and gym at 6pm", commit?: true }
  */
 export async function parseNaturalLanguageGemini(req: Request, res: Response) {
   try {
     
-    if (!env.GEMINI_API_KEY) {
+    if (!isFeatureAvailable('parsePro')) {
       return res.status(503).json({
         success: false,
-        error: 'Gemini Pro API is not configured. Please add GEMINI_API_KEY to your environment variables.'
+        error: 'The premium parsing model is not configured. Please add its API key (GEMINI_API_KEY by default) to your environment variables.'
       });
     }
 
     const { prompt } = req.body;
+    const commit = req.body.commit === true;
 
     if (!prompt || typeof prompt !== 'string') {
       return res.status(400).json({
@@ -223,59 +689,39 @@ export async function parseNaturalLanguageGemini(req: Request, res: Response) {
       });
     }
 
-    const today = new Date();
-    const todayStr = today.toISOString().split('T')[0];
-
-    const systemPrompt = `You are a scheduling assistant. Today's date is ${todayStr}.
-
-Return ONLY a JSON array of event objects:
-[{
-  "title": "Event title",
-  "description": "Brief description",
-  "startTime": 15.0,
-  "endTime": 16.0,
-  "date": "2025-10-25",
-  "emoji": "📅",
-  "colorHex": "#FF69B4"
-}]
-
-Rules:
-- startTime/endTime in 24-hour decimal format (15.0 = 3pm, 15.5 = 3:30pm)
-- date in YYYY-MM-DD format
-- Choose relevant emojis and colors
-- If duration not specified, default to 30 minutes
-- Infer smart defaults from context`;
-
-    const fullPrompt = `${systemPrompt}\n\nParse this into structured events: "${prompt}"`;
+    const timeZone = await resolveTimeZone(req);
+    const nowContext = describeNow(timeZone);
+    const preferences = await getUserPreferences(req.user!.id);
 
     console.log(`🚀 Processing with Gemini Pro: "${prompt}"`);
 
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-    const result = await model.generateContent(fullPrompt);
-    const response = await result.response;
-    const content = response.text();
-
-    let jsonContent = content.trim();
-    if (jsonContent.startsWith('```json')) {
-      jsonContent = jsonContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    } else if (jsonContent.startsWith('```')) {
-      jsonContent = jsonContent.replace(/```\n?/g, '');
-    }
-
     let events: any[];
+    let validation: ValidationReport;
     try {
-      events = JSON.parse(jsonContent);
-    } catch (parseError) {
-      console.error('Failed to parse Gemini response:', content);
+      ({ data: events, report: validation } = await generateParsedEvents('parsePro', {
+        messages: parseMessages(prompt, nowContext, preferences)
+      }, timeZone, preferences.defaultEventMinutes / 60));
+    } catch (error) {
+      if (!(error instanceof LLMResponseError)) throw error;
+      console.error('Failed to parse Gemini response:', error.content);
       return res.status(500).json({
         success: false,
         error: 'Failed to parse AI response'
       });
     }
 
+    const result = await finishParsedEvents(req.user!.id, events, timeZone, commit);
+    if (result.error) {
+      console.error('Error saving parsed events:', result.error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to save parsed events'
+      });
+    }
+
     return res.json({
       success: true,
-      data: { events }
+      data: { events: result.events, timeZone, validation, ...(result.saved ? { saved: result.saved } : {}) }
     });
 
   } catch (error) {
@@ -292,20 +738,22 @@ Rules:
  * POST /api/ai/parse-schedule-image
  * Body: {
  *   image: "base64_encoded_image_string",
- *   prompt: "Schedule my day based on this timetable"
+ *   prompt: "Schedule my day based on this timetable",
+ *   commit: true (optional)
  * }
  */
 export async function parseScheduleFromImage(req: Request, res: Response) {
   try {
     
-    if (!env.GEMINI_API_KEY || env.GEMINI_API_KEY === 'your_gemini_api_key_here') {
+    if (!isFeatureAvailable('vision')) {
       return res.status(503).json({
         success: false,
-        error: 'Gemini API is required for image processing. Please add GEMINI_API_KEY to your environment variables.'
+        error: 'A vision model is required for image processing. Please add its API key (GEMINI_API_KEY by default) to your environment variables.'
       });
     }
 
     const { image, prompt } = req.body;
+    const commit = req.body.commit === true;
 
     if (!image || typeof image !== 'string') {
       return res.status(400).json({
@@ -316,13 +764,13 @@ export async function parseScheduleFromImage(req: Request, res: Response) {
 
     const userPrompt = prompt || 'Analyze this timetable/schedule image and extract all events, tasks, and time slots into a structured format.';
 
-    const today = new Date();
-    const todayStr = today.toISOString().split('T')[0];
+    const timeZone = await resolveTimeZone(req);
+    const nowContext = describeNow(timeZone);
 
     
     const base64Image = image.replace(/^data:image\/[a-z]+;base64,/, '');
 
-    const systemPrompt = `You are a scheduling assistant that analyzes images of timetables, calendars, and schedules. Today's date is ${todayStr}.
+    const systemPrompt = `You are a scheduling assistant that analyzes images of timetables, calendars, and schedules. ${nowContext}.
 
 Analyze the image carefully and extract all events, classes, meetings, or tasks visible in the image.
 
@@ -339,55 +787,48 @@ Return ONLY a JSON array of event objects:
 
 Rules:
 - startTime/endTime in 24-hour decimal format (15.0 = 3pm, 15.5 = 3:30pm)
-- date in YYYY-MM-DD format (use today's date if not specified in image)
+- date in YYYY-MM-DD format (use today's date above if not specified in image)
 - Choose relevant emojis based on the event type
 - Choose appropriate colors for each event
 - If duration not specified in image, infer reasonable duration
 - Extract ALL events visible in the image
 - If the image shows a weekly schedule, include events for multiple days`;
 
-    const fullPrompt = `${systemPrompt}\n\nUser request: ${userPrompt}`;
-
     console.log(`🖼️  Processing image with Gemini Vision`);
 
-    
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
-    const imagePart = {
-      inlineData: {
-        data: base64Image,
-        mimeType: 'image/jpeg' 
-      }
-    };
-
-    const result = await model.generateContent([fullPrompt, imagePart]);
-    const response = await result.response;
-    const content = response.text();
-
-    
-    let jsonContent = content.trim();
-    if (jsonContent.startsWith('```json')) {
-      jsonContent = jsonContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    } else if (jsonContent.startsWith('```')) {
-      jsonContent = jsonContent.replace(/```\n?/g, '');
-    }
-
     let events: any[];
+    let validation: ValidationReport;
     try {
-      events = JSON.parse(jsonContent);
-    } catch (parseError) {
-      console.error('Failed to parse Gemini Vision response:', content);
+      ({ data: events, report: validation } = await generateParsedEvents('vision', {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: `User request: ${userPrompt}` }
+        ],
+        images: [{ data: base64Image, mimeType: 'image/jpeg' }]
+      }, timeZone));
+    } catch (error) {
+      if (!(error instanceof LLMResponseError)) throw error;
+      console.error('Failed to parse Gemini Vision response:', error.content);
       return res.status(500).json({
         success: false,
         error: 'Failed to parse AI response. The image might not contain a clear schedule or timetable.'
       });
     }
 
-    console.log(`✅ Extracted ${events.length} events from image`);
+    console.log(`✅ Extracted ${events.length} events from image (${validation.dropped.length} dropped)`);
+
+    const result = await finishParsedEvents(req.user!.id, events, timeZone, commit);
+    if (result.error) {
+      console.error('Error saving parsed events:', result.error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to save parsed events'
+      });
+    }
 
     return res.json({
       success: true,
-      data: { events }
+      data: { events: result.events, timeZone, validation, ...(result.saved ? { saved: result.saved } : {}) }
     });
 
   } catch (error) {
@@ -404,115 +845,62 @@ Rules:
  * POST /api/ai/parse-schedule-images
  * Body: {
  *   images: ["base64_encoded_image1", "base64_encoded_image2", ...],
- *   prompt: "Schedule my day based on these timetables" (optional)
+ *   prompt: "Schedule my day based on these timetables" (optional),
+ *   commit: true (optional)
  * }
  */
 export async function parseScheduleFromImages(req: Request, res: Response) {
   try {
     
-    if (!env.GEMINI_API_KEY || env.GEMINI_API_KEY === 'your_gemini_api_key_here') {
+    if (!isFeatureAvailable('vision')) {
       return res.status(503).json({
         success: false,
-        error: 'Gemini API is required for image processing. Please add GEMINI_API_KEY to your environment variables.'
-      });
-    }
-
-    const { images, prompt } = req.body;
-
-    if (!images || !Array.isArray(images) || images.length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'At least one image (base64 encoded) is required'
+        error: 'A vision model is required for image processing. Please add its API key (GEMINI_API_KEY by default) to your environment variables.'
       });
     }
 
-    
-    if (images.length > 3) {
+    const body = readImagesBody(req.body);
+    if ('error' in body) {
       return res.status(400).json({
         success: false,
-        error: 'Maximum 3 images allowed'
+        error: body.error
       });
     }
+    const { images } = body;
+    const commit = req.body.commit === true;
 
-    const userPrompt = prompt || 'Analyze these timetable/schedule images and extract all events, tasks, and time slots into a structured format.';
-
-    const today = new Date();
-    const todayStr = today.toISOString().split('T')[0];
-
-    
-    const base64Images = images.map((img: string) =>
-      img.replace(/^data:image\/[a-z]+;base64,/, '')
-    );
-
-    const systemPrompt = `You are a scheduling assistant that analyzes images of timetables, calendars, and schedules. Today's date is ${todayStr}.
-
-Analyze ALL ${images.length} image(s) carefully and extract all events, classes, meetings, or tasks visible across all images. Combine them into a single comprehensive schedule.
-
-Return ONLY a JSON array of event objects:
-[{
-  "title": "Event title",
-  "description": "Brief description from the image",
-  "startTime": 15.0,
-  "endTime": 16.0,
-  "date": "2025-10-31",
-  "emoji": "📅",
-  "colorHex": "#FF69B4"
-}]
-
-Rules:
-- startTime/endTime in 24-hour decimal format (15.0 = 3pm, 15.5 = 3:30pm)
-- date in YYYY-MM-DD format (use today's date if not specified in images)
-- Choose relevant emojis based on the event type
-- Choose appropriate colors for each event
-- If duration not specified in images, infer reasonable duration
-- Extract ALL events visible across ALL images
-- If images show different days/weeks, include events for those specific dates
-- Avoid duplicates - if the same event appears in multiple images, include it only once`;
-
-    const fullPrompt = `${systemPrompt}\n\nUser request: ${userPrompt}`;
+    const timeZone = await resolveTimeZone(req);
+    const nowContext = describeNow(timeZone);
 
     console.log(`🖼️  Processing ${images.length} images with Gemini Vision`);
 
-    
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
-    
-    const imageParts = base64Images.map((base64Image: string) => ({
-      inlineData: {
-        data: base64Image,
-        mimeType: 'image/jpeg'
-      }
-    }));
-
-    
-    const result = await model.generateContent([fullPrompt, ...imageParts]);
-    const response = await result.response;
-    const content = response.text();
-
-    
-    let jsonContent = content.trim();
-    if (jsonContent.startsWith('```json')) {
-      jsonContent = jsonContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    } else if (jsonContent.startsWith('```')) {
-      jsonContent = jsonContent.replace(/```\n?/g, '');
-    }
-
     let events: any[];
+    let validation: ValidationReport;
     try {
-      events = JSON.parse(jsonContent);
-    } catch (parseError) {
-      console.error('Failed to parse Gemini Vision response:', content);
+      ({ data: events, report: validation } = await generateParsedEvents('vision', imagesRequest(images, body.prompt, nowContext), timeZone));
+    } catch (error) {
+      if (!(error instanceof LLMResponseError)) throw error;
+      console.error('Failed to parse Gemini Vision response:', error.content);
       return res.status(500).json({
         success: false,
         error: 'Failed to parse AI response. The images might not contain clear schedules or timetables.'
       });
     }
 
-    console.log(`✅ Extracted ${events.length} events from ${images.length} images`);
+    console.log(`✅ Extracted ${events.length} events from ${images.length} images (${validation.dropped.length} dropped)`);
+
+    const result = await finishParsedEvents(req.user!.id, events, timeZone, commit);
+    if (result.error) {
+      console.error('Error saving parsed events:', result.error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to save parsed events'
+      });
+    }
 
     return res.json({
       success: true,
-      data: { events }
+      data: { events: result.events, timeZone, validation, ...(result.saved ? { saved: result.saved } : {}) }
     });
 
   } catch (error) {
@@ -524,6 +912,50 @@ Rules:
   }
 }
 
+/**
+ * Streaming variant of parseScheduleFromImages (server-sent events)
+ * POST /api/ai/parse-schedule-images/stream
+ * Body: { images: ["base64_encoded_image1", ...], prompt?: "...", commit?: true }
+ * Events: event ({ index, event }) as each one is extracted,
+ * then done ({ events, timeZone, validation, saved? }) or error ({ error })
+ */
+export async function streamScheduleFromImages(req: Request, res: Response): Promise<Response | void> {
+  if (!isFeatureAvailable('vision')) {
+    return res.status(503).json({
+      success: false,
+      error: 'A vision model is required for image processing. Please add its API key (GEMINI_API_KEY by default) to your environment variables.'
+    });
+  }
+
+  const body = readImagesBody(req.body);
+  if ('error' in body) {
+    return res.status(400).json({
+      success: false,
+      error: body.error
+    });
+  }
+
+  const timeZone = await resolveTimeZone(req);
+  const stream = openEventStream(res);
+
+  try {
+    await streamParsedEvents(stream, req.user!.id, 'vision', imagesRequest(body.images, body.prompt, describeNow(timeZone)), timeZone, req.body.commit === true);
+  } catch (error) {
+    if (stream.signal.aborted) {
+      console.log('Image parse stream cancelled by client');
+    } else {
+      console.error('Multi-image parse stream error:', error);
+      stream.send('error', {
+        error: error instanceof LLMResponseError
+          ? 'Failed to parse AI response. The images might not contain clear schedules or timetables.'
+          : 'Failed to parse images. Please ensure the images contain clear timetables or schedules.'
+      });
+    }
+  } finally {
+    stream.end();
+  }
+}
+
 /**
  * Generate productivity analytics for a date range
  * POST /api/ai/analytics
@@ -532,22 +964,26 @@ Rules:
 export async function generateAnalytics(req: Request, res: Response) {
   try {
     const userId = req.user!.id;
-    const { startDate, endDate } = req.body;
 
-    if (!startDate || !endDate) {
+    const validationResult = AnalyticsRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
       return res.status(400).json({
         success: false,
-        error: 'startDate and endDate are required'
+        error: 'Validation failed',
+        details: validationResult.error.issues
       });
     }
 
-    const { data: events, error } = await supabase
-      .from('events')
-      .select('*')
-      .eq('user_id', userId)
-      .gte('date', startDate)
-      .lte('date', endDate)
-      .order('date', { ascending: true });
+    const { startDate, endDate, groupBy } = validationResult.data;
+    if (diffDays(startDate, endDate) >= MAX_ANALYTICS_RANGE_DAYS) {
+      return res.status(400).json({
+        success: false,
+        error: `Date range cannot exceed ${MAX_ANALYTICS_RANGE_DAYS} days`
+      });
+    }
+
+    const timeZone = await getUserTimeZone(req);
+    const { data: events, error } = await fetchEventRows(userId, { from: startDate, to: endDate }, { timeZone });
 
     if (error) {
       return res.status(500).json({
@@ -556,6 +992,15 @@ export async function generateAnalytics(req: Request, res: Response) {
       });
     }
 
+    const registry = await getCategoryRegistry(userId);
+    const breakdown = calculateRangeAnalytics(events || [], { from: startDate, to: endDate }, todayInZone(timeZone ?? DEFAULT_TIME_ZONE), groupBy, registry);
+
+    // Goal history is best effort; analytics are still returned without it
+    const { data: goals, error: goalsError } = await getGoalHistory(userId, { from: startDate, to: endDate }, timeZone ?? DEFAULT_TIME_ZONE);
+    if (goalsError) {
+      console.error('Error reading goal history:', goalsError);
+    }
+
     if (!events || events.length === 0) {
       return res.json({
         success: true,
@@ -563,13 +1008,21 @@ export async function generateAnalytics(req: Request, res: Response) {
           summary: 'No events found in this date range.',
           totalEvents: 0,
           totalHours: 0,
-          averageEventsPerDay: 0
+          averageEventsPerDay: 0,
+          dateRange: { startDate, endDate },
+          ...breakdown,
+          goals: goals || []
         }
       });
     }
 
     const totalEvents = events.length;
-    const totalHours = events.reduce((sum, e) => sum + (e.end_time - e.start_time), 0);
+    // Hours inside the range only, so events spilling past either end are not over-counted
+    const totalHours = events
+      .filter(e => !e.is_all_day)
+      .flatMap(e => getEventSegments(e))
+      .filter(segment => segment.date >= startDate && segment.date <= endDate)
+      .reduce((sum, segment) => sum + (segment.endTime - segment.startTime), 0);
     const uniqueDates = new Set(events.map(e => e.date)).size;
     const averageEventsPerDay = totalEvents / uniqueDates;
 
@@ -580,7 +1033,9 @@ export async function generateAnalytics(req: Request, res: Response) {
         totalEvents,
         totalHours: Math.round(totalHours * 10) / 10,
         averageEventsPerDay: Math.round(averageEventsPerDay * 10) / 10,
-        dateRange: { startDate, endDate }
+        dateRange: { startDate, endDate },
+        ...breakdown,
+        goals: goals || []
       }
     });
 
@@ -593,10 +1048,62 @@ export async function generateAnalytics(req: Request, res: Response) {
   }
 }
 
+/**
+ * How planned event lengths compare with tracked actual time, per category
+ * POST /api/ai/analytics/estimates
+ * Body: { startDate?, endDate? } (default: the last 90 days)
+ */
+export async function generateEstimateAnalytics(req: Request, res: Response) {
+  try {
+    const userId = req.user!.id;
+
+    const validationResult = EstimatesRequestSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const timeZone = await resolveTimeZone(req);
+    const endDate = validationResult.data.endDate ?? todayInZone(timeZone);
+    const startDate = validationResult.data.startDate ?? addDays(endDate, -DEFAULT_ESTIMATE_RANGE_DAYS);
+
+    if (diffDays(startDate, endDate) >= MAX_ANALYTICS_RANGE_DAYS) {
+      return res.status(400).json({
+        success: false,
+        error: `Date range cannot exceed ${MAX_ANALYTICS_RANGE_DAYS} days`
+      });
+    }
+
+    const { data, error } = await getEstimateReport(userId, { from: startDate, to: endDate });
+    if (error || !data) {
+      console.error('Error fetching tracked events:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch events'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { ...data, dateRange: { startDate, endDate } }
+    });
+
+  } catch (error) {
+    console.error('Estimate analytics error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to generate estimate analytics'
+    });
+  }
+}
+
 /**
  * Generate AI insight for a single task
  * POST /api/ai/task-insight
- * Body: { title, description, startTime, endTime, category }
+ * Body: { title, description, startTime, endTime, category, date?, refresh? }
  */
 export async function generateTaskInsight(req: Request, res: Response) {
   try {
@@ -609,6 +1116,23 @@ export async function generateTaskInsight(req: Request, res: Response) {
       });
     }
 
+    // Keyed by the task itself; an optional date lets event writes on that day clear it
+    const userId = req.user!.id;
+    const date = typeof req.body.date === 'string' && isValidDate(req.body.date) ? req.body.date : null;
+    const taskHash = hashInsightInput({ title, description: req.body.description ?? null, startTime, endTime, category: category ?? null });
+    const estimateWarning = await readEstimateWarning(userId, category, todayInZone(await resolveTimeZone(req)));
+    const preferences = await getUserPreferences(userId);
+    const preferenceNote = `${describePreferences(preferences)}; energy at this time: ${getEnergyLevel(startTime, preferences.energyWindows)}`;
+    // A new warning or changed preferences change the answer, so they are part of what the cached insight was made from
+    const contentHash = hashInsightInput({ taskHash, estimateWarning, preferences: preferenceNote });
+    const cached = await readCachedInsight<string>(userId, 'task', taskHash, contentHash, req.body.refresh === true);
+    if (cached) {
+      return res.json({
+        success: true,
+        data: { insight: cached.payload, estimateWarning, cache: { hit: true, generatedAt: cached.generatedAt } }
+      });
+    }
+
     const duration = endTime - startTime;
     const startHour = Math.floor(startTime);
     const startMinute = Math.round((startTime - startHour) * 60);
@@ -618,7 +1142,7 @@ export async function generateTaskInsight(req: Request, res: Response) {
     const timeString = `${hour12}:${startMinute.toString().padStart(2, '0')} ${period}`;
     const durationString = duration >= 1 ? `${duration.toFixed(1)} hours` : `${Math.round(duration * 60)} minutes`;
 
-    const completion = await groq.chat.completions.create({
+    const { data, report: validation } = await generateValidated('taskInsight', {
       messages: [
         {
           role: 'system',
@@ -638,20 +1162,32 @@ Example format:
         {
           role: 'user',
           content: `Task: ${title} | Duration: ${durationString} | Time: ${timeString} | Category: ${category || 'General'}
-
+User: ${preferenceNote}
+${estimateWarning ? `History: ${estimateWarning}. Make one bullet about planning a realistic duration.\n` : ''}
 Give 2 bullet points about optimal timing or effectiveness.`
         }
       ],
-      model: 'llama-3.3-70b-versatile',
       temperature: 0.7,
-      max_tokens: 80
+      maxTokens: 80
+    }, {
+      schema: TaskInsightSchema,
+      format: 'text',
+      normalize: value => normalizeBullets(String(value), TASK_INSIGHT_BULLETS),
+      repairInstruction: `Return ONLY ${TASK_INSIGHT_BULLETS} bullet points, each on its own line starting with "• ".`
     });
 
-    const insight = completion.choices[0].message.content || generateFallbackTaskInsight(startHour, duration);
+    let insight = data;
+    const generatedAt = new Date().toISOString();
+    if (!insight) {
+      validation.fallback = true;
+      insight = generateFallbackTaskInsight(startHour, duration);
+    } else {
+      await cacheInsight(userId, 'task', taskHash, date, contentHash, insight);
+    }
 
     return res.json({
       success: true,
-      data: { insight: insight.trim() }
+      data: { insight, estimateWarning, validation, cache: { hit: false, generatedAt } }
     });
 
   } catch (error) {
@@ -682,166 +1218,172 @@ function generateFallbackTaskInsight(hour: number, duration: number): string {
 }
 
 /**
- * Calculate visual insights metrics from events
+ * Place unscheduled tasks into free time around the user's events
+ * POST /api/ai/auto-schedule
+ * Body: { tasks: [{ title, durationMinutes, priority?, deadline?, energy?, category? }], startDate?, endDate?,
+ *         workStart?, workEnd?, bufferMinutes?, commit? }
  */
-function calculateVisualInsights(events: any[]) {
-  
-  const energyHeatmap = events.map(event => {
-    const startHour = event.start_time;
-    const endHour = event.end_time;
-    const category = event.category?.toLowerCase() || 'other';
-
-    
-    let optimalEnergy: 'high' | 'medium' | 'low';
-    let actualTaskType: 'deep-work' | 'meetings' | 'admin' | 'creative' | 'other';
+export async function autoScheduleTasks(req: Request, res: Response) {
+  try {
+    const userId = req.user!.id;
 
-    
-    if (startHour >= 9 && startHour < 12) {
-      optimalEnergy = 'high'; 
-    } else if ((startHour >= 6 && startHour < 9) || (startHour >= 16 && startHour < 19)) {
-      optimalEnergy = 'medium'; 
-    } else {
-      optimalEnergy = 'low'; 
+    const validationResult = AutoScheduleSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
     }
 
-    
-    if (category.includes('work') || category.includes('coding') || category.includes('deep')) {
-      actualTaskType = 'deep-work';
-    } else if (category.includes('meeting') || category.includes('call')) {
-      actualTaskType = 'meetings';
-    } else if (category.includes('email') || category.includes('admin')) {
-      actualTaskType = 'admin';
-    } else if (category.includes('design') || category.includes('creative')) {
-      actualTaskType = 'creative';
-    } else {
-      actualTaskType = 'other';
-    }
+    const { tasks, workStart, workEnd, bufferMinutes, commit } = validationResult.data;
+    const timeZone = await resolveTimeZone(req);
+    const now = toZonedParts(new Date(), timeZone);
 
-    
-    let alignment: 'optimal' | 'good' | 'poor';
-    if (actualTaskType === 'deep-work' && optimalEnergy === 'high') {
-      alignment = 'optimal';
-    } else if (actualTaskType === 'meetings' && optimalEnergy === 'low') {
-      alignment = 'poor';
-    } else if (actualTaskType === 'deep-work' && optimalEnergy === 'low') {
-      alignment = 'poor';
-    } else if (optimalEnergy === 'high' && actualTaskType === 'admin') {
-      alignment = 'poor';
-    } else {
-      alignment = 'good';
-    }
-
-    return {
-      title: event.title,
-      startTime: startHour,
-      endTime: endHour,
-      optimalEnergy,
-      actualTaskType,
-      alignment,
-      category: event.category
-    };
-  });
-
-  
-  const focusBlocks = [];
-  const sortedEvents = [...events].sort((a, b) => a.start_time - b.start_time);
+    const startDate = validationResult.data.startDate ?? now.date;
+    const latestDeadline = tasks.reduce<string | undefined>(
+      (latest, task) => (task.deadline && (!latest || task.deadline > latest) ? task.deadline : latest),
+      undefined
+    );
+    const endDate = validationResult.data.endDate
+      ?? (latestDeadline && latestDeadline >= startDate ? latestDeadline : addDays(startDate, 6));
 
-  for (let i = 0; i < sortedEvents.length; i++) {
-    const event = sortedEvents[i];
-    const duration = event.end_time - event.start_time;
-    const nextEvent = sortedEvents[i + 1];
+    if (diffDays(startDate, endDate) > MAX_AUTO_SCHEDULE_DAYS) {
+      return res.status(400).json({
+        success: false,
+        error: `Scheduling range cannot exceed ${MAX_AUTO_SCHEDULE_DAYS} days`
+      });
+    }
 
-    
-    const hasGap = nextEvent ? (nextEvent.start_time - event.end_time) >= 0.25 : true; 
+    const { data: events, error } = await fetchEventRows(userId, { from: startDate, to: endDate }, { timeZone });
 
-    
-    let quality: 'excellent' | 'good' | 'fragmented';
-    if (duration >= 1.5) {
-      quality = 'excellent'; 
-    } else if (duration >= 0.5) {
-      quality = 'good'; 
-    } else {
-      quality = 'fragmented'; 
+    if (error || !events) {
+      console.error('Supabase error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch events from database'
+      });
     }
 
-    focusBlocks.push({
-      title: event.title,
-      startTime: event.start_time,
-      duration: duration,
-      quality: quality,
-      hasBreakAfter: hasGap,
-      category: event.category
+    const { placements, unscheduled } = scheduleTasks(events, tasks, {
+      from: startDate,
+      to: endDate,
+      workStart,
+      workEnd,
+      bufferHours: bufferMinutes / 60,
+      notBefore: now
     });
-  }
-
-  
-  const categoryTotals: { [key: string]: number } = {};
 
-  events.forEach(event => {
-    const category = event.category?.toLowerCase() || 'other';
-    const duration = event.end_time - event.start_time;
-
-    
-    let broadCategory: string;
-    if (category.includes('work') || category.includes('meeting') || category.includes('coding')) {
-      broadCategory = 'work';
-    } else if (category.includes('health') || category.includes('exercise') || category.includes('fitness')) {
-      broadCategory = 'health';
-    } else if (category.includes('personal') || category.includes('family') || category.includes('social')) {
-      broadCategory = 'personal';
-    } else {
-      broadCategory = 'other';
+    const explanations = await explainPlacements(placements);
+
+    let created: any[] = [];
+    if (commit && placements.length > 0) {
+      const { data, error: insertError } = await insertEventRows(placements.map(placement => toDbEvent(userId, {
+        title: placement.task.title,
+        description: placement.task.description,
+        startTime: placement.startTime,
+        endTime: placement.endTime,
+        date: placement.date,
+        category: placement.task.category,
+        emoji: placement.task.emoji,
+        colorHex: placement.task.colorHex,
+        timeZone
+      })));
+
+      if (insertError || !data) {
+        console.error('Error saving scheduled tasks:', insertError);
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to save scheduled tasks'
+        });
+      }
+      created = data;
     }
 
-    categoryTotals[broadCategory] = (categoryTotals[broadCategory] || 0) + duration;
-  });
-
-  const totalHours = Object.values(categoryTotals).reduce((sum, val) => sum + val, 0);
-
-  const workLifeBalance = {
-    work: categoryTotals['work'] || 0,
-    personal: categoryTotals['personal'] || 0,
-    health: categoryTotals['health'] || 0,
-    other: categoryTotals['other'] || 0,
-    workPercentage: totalHours > 0 ? Math.round((categoryTotals['work'] || 0) / totalHours * 100) : 0,
-    personalPercentage: totalHours > 0 ? Math.round((categoryTotals['personal'] || 0) / totalHours * 100) : 0,
-    healthPercentage: totalHours > 0 ? Math.round((categoryTotals['health'] || 0) / totalHours * 100) : 0,
-    otherPercentage: totalHours > 0 ? Math.round((categoryTotals['other'] || 0) / totalHours * 100) : 0,
-    balanceScore: calculateBalanceScore(categoryTotals, totalHours)
-  };
+    return res.json({
+      success: true,
+      data: {
+        placements: placements.map((placement, i) => ({
+          taskIndex: placement.taskIndex,
+          title: placement.task.title,
+          date: placement.date,
+          startTime: placement.startTime,
+          endTime: placement.endTime,
+          energy: placement.energy,
+          preferredEnergy: placement.preferredEnergy,
+          taskType: placement.taskType,
+          alignment: placement.alignment,
+          explanation: explanations[i],
+          ...(created[i] ? { event: transformEvent(created[i]) } : {})
+        })),
+        unscheduled: unscheduled.map(item => ({
+          taskIndex: item.taskIndex,
+          title: item.task.title,
+          reason: item.reason
+        })),
+        committed: created.length > 0,
+        dateRange: { startDate, endDate },
+        timeZone
+      }
+    });
 
-  return {
-    energyHeatmap,
-    focusBlocks,
-    workLifeBalance
-  };
+  } catch (error) {
+    console.error('Auto-schedule error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to schedule tasks'
+    });
+  }
 }
 
 /**
- * Calculate balance score (0-100)
- * Ideal: 60% work, 25% personal, 15% health
+ * One short explanation per placement from the model, falling back to the
+ * rule-based description when the call fails or never returns the right shape
  */
-function calculateBalanceScore(categoryTotals: { [key: string]: number }, totalHours: number): number {
-  if (totalHours === 0) return 0;
-
-  const workPct = ((categoryTotals['work'] || 0) / totalHours) * 100;
-  const personalPct = ((categoryTotals['personal'] || 0) / totalHours) * 100;
-  const healthPct = ((categoryTotals['health'] || 0) / totalHours) * 100;
-
-  
-  const idealWork = 60;
-  const idealPersonal = 25;
-  const idealHealth = 15;
-
-  
-  const workDev = Math.abs(workPct - idealWork);
-  const personalDev = Math.abs(personalPct - idealPersonal);
-  const healthDev = Math.abs(healthPct - idealHealth);
+async function explainPlacements(placements: TaskPlacement[]): Promise<string[]> {
+  const fallback = placements.map(describePlacement);
+  if (placements.length === 0) {
+    return fallback;
+  }
 
-  const totalDeviation = workDev + personalDev + healthDev;
+  try {
+    const { data } = await generateValidated('scheduleExplain', {
+      messages: [
+        {
+          role: 'system',
+          content: `You explain why a scheduler placed tasks where it did. For each placement write ONE sentence (max 20 words) covering energy fit and deadline if relevant.
+Return ONLY a JSON array of ${placements.length} strings, in the same order, no other text.`
+        },
+        {
+          role: 'user',
+          content: JSON.stringify(placements.map(placement => ({
+            title: placement.task.title,
+            priority: placement.task.priority,
+            deadline: placement.task.deadline,
+            date: placement.date,
+            startTime: placement.startTime,
+            endTime: placement.endTime,
+            slotEnergy: placement.energy,
+            preferredEnergy: placement.preferredEnergy,
+            taskType: placement.taskType,
+            alignment: placement.alignment
+          })))
+        }
+      ],
+      temperature: 0.4,
+      maxTokens: 60 * placements.length
+    }, {
+      schema: explanationsSchema(placements.length),
+      repairInstruction: `Return ONLY a JSON array of exactly ${placements.length} strings.`,
+      maxAttempts: 2
+    });
 
-  
-  const score = Math.max(0, 100 - totalDeviation);
+    if (data) {
+      return data;
+    }
+  } catch (error) {
+    console.error('Placement explanation error:', error);
+  }
 
-  return Math.round(score);
+  return fallback;
 }
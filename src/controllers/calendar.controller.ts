@@ -0,0 +1,361 @@
+import { Request, Response, NextFunction } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { env } from '../config/env';
+import { fetchEventRows, fetchEventRowsByLocalIds } from '../services/events.service';
+import { eventDateRange, invalidateInsights } from '../services/insightCache.service';
+import { getProfileRow, getUserTimeZone, resolveTimeZone } from '../services/profile.service';
+import { buildCalendar } from '../utils/ical';
+import { convertICalendar, ICalParseError, parseICalendar } from '../utils/icalImport';
+import { addDays, formatDate } from '../utils/date';
+import { isValidTimeZone } from '../utils/timezone';
+import { toDbEvent, transformEvent } from '../utils/events';
+
+const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+
+// Subscribed calendars get a rolling window around today
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+
+const ExportQuerySchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'startDate must be in YYYY-MM-DD format'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'endDate must be in YYYY-MM-DD format')
+}).refine(value => value.startDate <= value.endDate, {
+  message: 'startDate must be on or before endDate',
+  path: ['endDate']
+});
+
+// Rows per insert request when importing large calendars
+const IMPORT_CHUNK_SIZE = 500;
+
+const ImportSchema = z.object({
+  ics: z.string().min(1, 'ics content is required'),
+  dryRun: z.boolean().optional(),
+  timeZone: z.string().refine(isValidTimeZone, 'Invalid IANA time zone').optional()
+});
+
+// Extended Request type with user
+interface AuthRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+  };
+}
+
+function feedUrls(req: Request, token: string) {
+  const host = req.get('host');
+  const path = `${req.baseUrl}/feed/${token}.ics`;
+  return {
+    url: `${req.protocol}://${host}${path}`,
+    webcalUrl: `webcal://${host}${path}`
+  };
+}
+
+function sendCalendar(res: Response, body: string, filename?: string) {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  if (filename) {
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  }
+  res.send(body);
+}
+
+/**
+ * Export the user's events in a date range as an .ics file
+ */
+export const exportCalendar = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationResult = ExportQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { startDate, endDate } = validationResult.data;
+
+    const { data: events, error } = await fetchEventRows(
+      userId,
+      { from: startDate, to: endDate },
+      { expand: false }
+    );
+
+    if (error || !events) {
+      console.error('Error fetching events for export:', error);
+      return res.status(500).json({ error: 'Failed to export events' });
+    }
+
+    const defaultTimeZone = await getUserTimeZone(req);
+    sendCalendar(res, buildCalendar(events, { defaultTimeZone }), `dayrhythm-${startDate}-to-${endDate}.ics`);
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Get the user's subscribable feed, if one has been created
+ */
+export const getCalendarFeed = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { data: feed, error } = await supabase
+      .from('calendar_feeds')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching calendar feed:', error);
+      return res.status(500).json({ error: 'Failed to fetch calendar feed' });
+    }
+
+    if (!feed) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    res.json({
+      success: true,
+      feed: {
+        ...feedUrls(req, feed.token),
+        createdAt: feed.created_at
+      }
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Create the user's feed, or rotate its secret token if it already exists.
+ * Rotating invalidates every existing subscription.
+ */
+export const createCalendarFeed = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = randomBytes(24).toString('hex');
+
+    const { data: feed, error } = await supabase
+      .from('calendar_feeds')
+      .upsert({
+        user_id: userId,
+        token,
+        created_at: new Date().toISOString()
+      }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating calendar feed:', error);
+      return res.status(500).json({ error: 'Failed to create calendar feed' });
+    }
+
+    res.status(201).json({
+      success: true,
+      feed: {
+        ...feedUrls(req, feed.token),
+        createdAt: feed.created_at
+      }
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Revoke the user's feed so existing subscriptions stop updating
+ */
+export const deleteCalendarFeed = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error deleting calendar feed:', error);
+      return res.status(500).json({ error: 'Failed to delete calendar feed' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Calendar feed revoked successfully'
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Public feed consumed by calendar apps. The secret token is the only credential.
+ */
+export const serveCalendarFeed = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token } = req.params;
+
+    if (!/^[a-f0-9]{48}$/.test(token)) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) {
+      console.error('Error resolving calendar feed:', feedError);
+      return res.status(500).json({ error: 'Failed to load calendar feed' });
+    }
+
+    if (!feed) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    const today = formatDate(new Date());
+    const { data: events, error } = await fetchEventRows(
+      feed.user_id,
+      { from: addDays(today, -FEED_PAST_DAYS), to: addDays(today, FEED_FUTURE_DAYS) },
+      { expand: false }
+    );
+
+    if (error || !events) {
+      console.error('Error fetching events for calendar feed:', error);
+      return res.status(500).json({ error: 'Failed to load calendar feed' });
+    }
+
+    const { data: profile } = await getProfileRow(feed.user_id);
+    sendCalendar(res, buildCalendar(events, { defaultTimeZone: profile?.time_zone || undefined }));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Import events from an iCalendar file
+ * Accepts JSON { ics, dryRun?, timeZone? } or a raw text/calendar body with
+ * ?dryRun=true&timeZone=... query params. Dry runs return the converted events without saving.
+ * Events whose UID an earlier import already stored are skipped, so re-importing a file only adds what is new.
+ */
+export const importCalendar = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const input = typeof req.body === 'string'
+      ? {
+        ics: req.body,
+        dryRun: req.query.dryRun === 'true',
+        timeZone: req.query.timeZone as string | undefined
+      }
+      : req.body;
+
+    const validationResult = ImportSchema.safeParse(input);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { ics, dryRun } = validationResult.data;
+    const timeZone = validationResult.data.timeZone ?? await resolveTimeZone(req);
+
+    let result;
+    try {
+      result = convertICalendar(parseICalendar(ics), timeZone);
+    } catch (error) {
+      if (error instanceof ICalParseError) {
+        return res.status(400).json({ error: 'Invalid iCalendar file', details: error.message });
+      }
+      throw error;
+    }
+
+    // Rows from an earlier import of the same file keep their local id, so they are left alone
+    const { data: existing, error: lookupError } = await fetchEventRowsByLocalIds(
+      userId,
+      result.events.map(event => event.localId!)
+    );
+    if (lookupError || !existing) {
+      console.error('Error importing events:', lookupError);
+      return res.status(500).json({ error: 'Failed to import events', importedCount: 0 });
+    }
+
+    const imported = new Set(existing.map(row => row.local_id));
+    const { warnings } = result;
+    const events = result.events.filter(event => !imported.has(event.localId));
+    const skipped = [
+      ...result.skipped,
+      ...result.events
+        .filter(event => imported.has(event.localId))
+        .map(event => ({ uid: event.localId, title: event.title, reason: 'Already imported' }))
+    ];
+    const summary = {
+      total: events.length + skipped.length,
+      imported: dryRun ? 0 : events.length,
+      skipped: skipped.length
+    };
+
+    if (dryRun || events.length === 0) {
+      return res.json({
+        success: true,
+        dryRun: Boolean(dryRun),
+        events,
+        skipped,
+        warnings,
+        summary
+      });
+    }
+
+    const created: any[] = [];
+    for (let i = 0; i < events.length; i += IMPORT_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('events')
+        .insert(events.slice(i, i + IMPORT_CHUNK_SIZE).map(event => toDbEvent(userId, event)))
+        .select();
+
+      if (error) {
+        console.error('Error importing events:', error);
+        await invalidateInsights(userId, created.map(eventDateRange));
+        return res.status(500).json({
+          error: 'Failed to import events',
+          importedCount: created.length
+        });
+      }
+      created.push(...data);
+    }
+
+    await invalidateInsights(userId, created.map(eventDateRange));
+
+    res.status(201).json({
+      success: true,
+      dryRun: false,
+      events: created.map(transformEvent),
+      skipped,
+      warnings,
+      summary
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
@@ -0,0 +1,218 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  CategorySchema,
+  CategoryUpdateSchema,
+  MAX_CATEGORIES,
+  MAX_RECLASSIFY_RANGE_DAYS,
+  ReclassifySchema
+} from '../schemas/category.schema';
+import {
+  deleteCategoryRow,
+  insertCategoryRow,
+  listCategoryRows,
+  reclassifyEvents,
+  updateCategoryRow
+} from '../services/categories.service';
+import { categoryKey, DEFAULT_CATEGORIES, transformCategory } from '../utils/categories';
+import { diffDays } from '../utils/date';
+
+// Extended Request type with user
+interface AuthRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+  };
+}
+
+// Postgres unique_violation, raised by the (user_id, lower(name)) index
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * List the user's categories, plus the built-in ones they have not replaced
+ */
+export const getCategories = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { data, error } = await listCategoryRows(userId);
+
+    if (error || !data) {
+      console.error('Error fetching categories:', error);
+      return res.status(500).json({ error: 'Failed to fetch categories' });
+    }
+
+    const custom = new Set(data.map(row => categoryKey(row.name)));
+    res.json({
+      success: true,
+      categories: data.map(transformCategory),
+      builtIn: DEFAULT_CATEGORIES
+        .filter(definition => !custom.has(categoryKey(definition.name)))
+        .map(({ keywords, ...definition }) => definition)
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Create a category
+ */
+export const createCategory = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationResult = CategorySchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { data: existing, error: listError } = await listCategoryRows(userId);
+    if (listError) {
+      console.error('Error fetching categories:', listError);
+      return res.status(500).json({ error: 'Failed to create category' });
+    }
+    if ((existing || []).length >= MAX_CATEGORIES) {
+      return res.status(400).json({ error: `You can have at most ${MAX_CATEGORIES} categories` });
+    }
+
+    const { data: category, error } = await insertCategoryRow(userId, validationResult.data);
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return res.status(409).json({ error: 'A category with this name already exists' });
+    }
+
+    if (error) {
+      console.error('Error creating category:', error);
+      return res.status(500).json({ error: 'Failed to create category' });
+    }
+
+    res.status(201).json({
+      success: true,
+      category: transformCategory(category)
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Update a category. Renaming does not change events already filed under the old name.
+ */
+export const updateCategory = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationResult = CategoryUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { data: category, error } = await updateCategoryRow(userId, req.params.id, validationResult.data);
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return res.status(409).json({ error: 'A category with this name already exists' });
+    }
+
+    if (error) {
+      console.error('Error updating category:', error);
+      return res.status(500).json({ error: 'Failed to update category' });
+    }
+
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    res.json({
+      success: true,
+      category: transformCategory(category)
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Delete a category. Its events keep their category name.
+ */
+export const deleteCategory = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { data, error } = await deleteCategoryRow(userId, req.params.id);
+
+    if (error) {
+      console.error('Error deleting category:', error);
+      return res.status(500).json({ error: 'Failed to delete category' });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Category deleted successfully'
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Re-classify stored events in a date range
+ */
+export const reclassifyCategories = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationResult = ReclassifySchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    // ReclassifySchema already rejected startDate > endDate, so only the length is left to check
+    const { startDate, endDate, overwrite, dryRun } = validationResult.data;
+    if (diffDays(startDate, endDate) >= MAX_RECLASSIFY_RANGE_DAYS) {
+      return res.status(400).json({ error: `Date range cannot exceed ${MAX_RECLASSIFY_RANGE_DAYS} days` });
+    }
+
+    const { data, error } = await reclassifyEvents(userId, { from: startDate, to: endDate }, { overwrite, dryRun });
+
+    if (error || !data) {
+      console.error('Error re-classifying events:', error);
+      return res.status(500).json({ error: 'Failed to re-classify events' });
+    }
+
+    res.json({
+      success: true,
+      dryRun,
+      ...data
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
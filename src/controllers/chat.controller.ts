@@ -0,0 +1,408 @@
+import { Request, Response } from 'express';
+import { ChatMessageSchema } from '../schemas/chat.schema';
+import {
+  createChatSession,
+  deleteChatSession,
+  fetchChatMessages,
+  fetchChatProposals,
+  getChatProposal,
+  getChatSession,
+  insertChatMessages,
+  listChatSessions,
+  transitionChatProposal
+} from '../services/chat.service';
+import { runChatTurn } from '../services/chatAssistant.service';
+import { applyChangesAtomically } from '../services/eventMutations.service';
+import { resolveTimeZone } from '../services/profile.service';
+
+// Messages returned with a session
+const SESSION_MESSAGE_LIMIT = 200;
+
+function formatSession(row: any) {
+  return {
+    id: row.id,
+    title: row.title,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function formatMessage(row: any) {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    toolCalls: row.tool_calls || [],
+    proposalId: row.proposal_id || null,
+    createdAt: row.created_at
+  };
+}
+
+function formatProposal(row: any) {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    status: row.status,
+    changes: row.changes,
+    results: row.results || null,
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at || null
+  };
+}
+
+/**
+ * Send a message to the scheduling assistant
+ * POST /api/ai/chat
+ * Body: { message: "Move my dentist appointment to Friday", sessionId?: "uuid" }
+ * Changes the assistant wants to make come back as a pending proposal
+ */
+export async function sendChatMessage(req: Request, res: Response) {
+  try {
+    const userId = req.user!.id;
+
+    const validationResult = ChatMessageSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { sessionId, message } = validationResult.data;
+
+    const { data: session, error: sessionError } = sessionId
+      ? await getChatSession(userId, sessionId)
+      : await createChatSession(userId, message.slice(0, 80));
+
+    if (sessionError) {
+      console.error('Chat session error:', sessionError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to load conversation'
+      });
+    }
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found'
+      });
+    }
+
+    const timeZone = await resolveTimeZone(req);
+    const { reply, proposal, toolCalls, error } = await runChatTurn(userId, session.id, message, timeZone);
+
+    if (error) {
+      console.error('Chat persistence error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to save conversation'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        sessionId: session.id,
+        reply,
+        proposal: proposal ? formatProposal(proposal) : null,
+        toolCalls,
+        timeZone
+      }
+    });
+
+  } catch (error) {
+    console.error('Chat error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to process message'
+    });
+  }
+}
+
+/**
+ * List the user's conversations
+ * GET /api/ai/chat/sessions
+ */
+export async function getChatSessions(req: Request, res: Response) {
+  try {
+    const { data: sessions, error } = await listChatSessions(req.user!.id);
+
+    if (error || !sessions) {
+      console.error('Chat sessions error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch conversations'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { sessions: sessions.map(formatSession) }
+    });
+
+  } catch (error) {
+    console.error('Chat sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch conversations'
+    });
+  }
+}
+
+/**
+ * A conversation with its messages and proposals
+ * GET /api/ai/chat/sessions/:sessionId
+ */
+export async function getChatSessionDetail(req: Request, res: Response) {
+  try {
+    const { data: session, error } = await getChatSession(req.user!.id, req.params.sessionId);
+
+    if (error) {
+      console.error('Chat session error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to load conversation'
+      });
+    }
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found'
+      });
+    }
+
+    const [messages, proposals] = await Promise.all([
+      fetchChatMessages(session.id, SESSION_MESSAGE_LIMIT),
+      fetchChatProposals(session.id)
+    ]);
+
+    if (messages.error || proposals.error) {
+      console.error('Chat session error:', messages.error || proposals.error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to load conversation'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        session: formatSession(session),
+        messages: (messages.data || []).map(formatMessage),
+        proposals: (proposals.data || []).map(formatProposal)
+      }
+    });
+
+  } catch (error) {
+    console.error('Chat session error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to load conversation'
+    });
+  }
+}
+
+/**
+ * Delete a conversation
+ * DELETE /api/ai/chat/sessions/:sessionId
+ */
+export async function removeChatSession(req: Request, res: Response) {
+  try {
+    const { data, error } = await deleteChatSession(req.user!.id, req.params.sessionId);
+
+    if (error) {
+      console.error('Chat session delete error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete conversation'
+      });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Conversation deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Chat session delete error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete conversation'
+    });
+  }
+}
+
+/**
+ * Apply a pending proposal to the calendar
+ * POST /api/ai/chat/sessions/:sessionId/proposals/:proposalId/confirm
+ */
+export async function confirmChatProposal(req: Request, res: Response) {
+  try {
+    const userId = req.user!.id;
+    const { sessionId, proposalId } = req.params;
+
+    const { data: proposal, error } = await getChatProposal(userId, sessionId, proposalId);
+
+    if (error) {
+      console.error('Chat proposal error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to apply changes'
+      });
+    }
+
+    if (!proposal) {
+      return res.status(404).json({
+        success: false,
+        error: 'Proposal not found'
+      });
+    }
+
+    // Claim the proposal first so a double tap cannot apply it twice
+    const { data: claimed, error: claimError } = await transitionChatProposal(proposal.id, 'pending', 'applying');
+
+    if (claimError) {
+      console.error('Chat proposal error:', claimError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to apply changes'
+      });
+    }
+
+    if (!claimed) {
+      return res.status(409).json({
+        success: false,
+        error: `Proposal is ${proposal.status}, not pending`
+      });
+    }
+
+    let applied: Awaited<ReturnType<typeof applyChangesAtomically>>;
+    try {
+      const timeZone = await resolveTimeZone(req);
+      applied = await applyChangesAtomically(userId, proposal.changes, timeZone);
+    } catch (error) {
+      // Release the claim so the proposal can be confirmed again
+      await transitionChatProposal(proposal.id, 'applying', 'pending');
+      throw error;
+    }
+    const { ok, results } = applied;
+
+    const { data: resolved, error: resolveError } = await transitionChatProposal(
+      proposal.id, 'applying', ok ? 'applied' : 'failed', results
+    );
+
+    // Tell the assistant what happened, including the ids of created events
+    const { error: messageError } = await insertChatMessages([{
+      session_id: sessionId,
+      user_id: userId,
+      role: 'tool',
+      content: JSON.stringify({
+        proposalId: proposal.id,
+        status: ok ? 'applied' : 'failed',
+        results: results.map(result => ({
+          action: result.action,
+          status: result.status,
+          ...(result.event ? { eventId: result.event.id, title: result.event.title } : {}),
+          ...(result.error ? { error: result.error } : {})
+        }))
+      })
+    }]);
+
+    if (resolveError || messageError) {
+      console.error('Chat proposal error:', resolveError || messageError);
+    }
+
+    const data = { proposal: formatProposal(resolved ?? { ...proposal, status: ok ? 'applied' : 'failed', results }), results };
+
+    if (!ok) {
+      return res.status(409).json({
+        success: false,
+        error: 'Some changes could not be applied',
+        data
+      });
+    }
+
+    return res.json({ success: true, data });
+
+  } catch (error) {
+    console.error('Chat proposal error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to apply changes'
+    });
+  }
+}
+
+/**
+ * Discard a pending proposal
+ * POST /api/ai/chat/sessions/:sessionId/proposals/:proposalId/reject
+ */
+export async function rejectChatProposal(req: Request, res: Response) {
+  try {
+    const userId = req.user!.id;
+    const { sessionId, proposalId } = req.params;
+
+    const { data: proposal, error } = await getChatProposal(userId, sessionId, proposalId);
+
+    if (error) {
+      console.error('Chat proposal error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to reject changes'
+      });
+    }
+
+    if (!proposal) {
+      return res.status(404).json({
+        success: false,
+        error: 'Proposal not found'
+      });
+    }
+
+    const { data: rejected, error: rejectError } = await transitionChatProposal(proposal.id, 'pending', 'rejected');
+
+    if (rejectError) {
+      console.error('Chat proposal error:', rejectError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to reject changes'
+      });
+    }
+
+    if (!rejected) {
+      return res.status(409).json({
+        success: false,
+        error: `Proposal is ${proposal.status}, not pending`
+      });
+    }
+
+    await insertChatMessages([{
+      session_id: sessionId,
+      user_id: userId,
+      role: 'tool',
+      content: JSON.stringify({ proposalId: proposal.id, status: 'rejected' })
+    }]);
+
+    return res.json({
+      success: true,
+      data: { proposal: formatProposal(rejected) }
+    });
+
+  } catch (error) {
+    console.error('Chat proposal error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to reject changes'
+    });
+  }
+}
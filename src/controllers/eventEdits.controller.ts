@@ -0,0 +1,148 @@
+import { Request, Response } from 'express';
+import { ApplyEditsSchema, EditEventsSchema, MAX_EDIT_RANGE_DAYS } from '../schemas/edit.schema';
+import { planEventEdits } from '../services/eventEdits.service';
+import { applyChangesAtomically, ChangeRequest } from '../services/eventMutations.service';
+import { LLMResponseError } from '../services/llm';
+import { resolveTimeZone } from '../services/profile.service';
+import { addDays, diffDays } from '../utils/date';
+import { todayInZone } from '../utils/timezone';
+
+// Window searched when the request gives no endDate
+const DEFAULT_EDIT_RANGE_DAYS = 14;
+
+/**
+ * Turn an edit instruction into a diff against the user's events
+ * POST /api/ai/edit-events
+ * Body: { instruction: "push everything after lunch back an hour", startDate?, endDate? }
+ * Nothing is written; send the plan to /api/ai/edit-events/apply to confirm it
+ */
+export async function planEdits(req: Request, res: Response) {
+  try {
+    const userId = req.user!.id;
+
+    const validationResult = EditEventsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { instruction } = validationResult.data;
+    const timeZone = await resolveTimeZone(req);
+    const from = validationResult.data.startDate ?? todayInZone(timeZone);
+    const to = validationResult.data.endDate ?? addDays(from, DEFAULT_EDIT_RANGE_DAYS);
+
+    if (diffDays(from, to) > MAX_EDIT_RANGE_DAYS) {
+      return res.status(400).json({
+        success: false,
+        error: `Date range cannot exceed ${MAX_EDIT_RANGE_DAYS} days`
+      });
+    }
+
+    let result;
+    try {
+      result = await planEventEdits(userId, instruction, { from, to }, timeZone);
+    } catch (error) {
+      if (!(error instanceof LLMResponseError)) throw error;
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to parse AI response'
+      });
+    }
+
+    if (result.error || !result.data) {
+      console.error('Error fetching events for edit:', result.error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch events'
+      });
+    }
+
+    const { plan, validation } = result.data;
+
+    return res.json({
+      success: true,
+      data: { ...plan, startDate: from, endDate: to, timeZone, validation }
+    });
+
+  } catch (error) {
+    console.error('Edit planning error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to plan edits'
+    });
+  }
+}
+
+/**
+ * Apply a confirmed edit plan all-or-nothing
+ * POST /api/ai/edit-events/apply
+ * Body: { updates: [...], deletes: [...], creates: [...] } as returned by /api/ai/edit-events
+ */
+export async function applyEdits(req: Request, res: Response) {
+  try {
+    const userId = req.user!.id;
+
+    const validationResult = ApplyEditsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { updates, deletes, creates } = validationResult.data;
+    const changes: ChangeRequest[] = [
+      ...updates.map(update => ({ action: 'update' as const, ...update })),
+      ...deletes.map(remove => ({ action: 'delete' as const, ...remove })),
+      ...creates.map(create => ({ action: 'create' as const, event: create.event }))
+    ];
+
+    const timeZone = await resolveTimeZone(req);
+    const { ok, rolledBack, results, error } = await applyChangesAtomically(userId, changes, timeZone);
+
+    // Results in the same sections as the plan, each indexed within its section
+    const sections = {
+      updates: results.slice(0, updates.length),
+      deletes: results.slice(updates.length, updates.length + deletes.length),
+      creates: results.slice(updates.length + deletes.length)
+    };
+    const data = Object.fromEntries(Object.entries(sections).map(([section, items]) => [
+      section,
+      items.map(({ index: _index, ...item }, index) => ({ index, ...item }))
+    ]));
+
+    if (ok) {
+      return res.json({ success: true, data: { ...data, timeZone } });
+    }
+
+    if (error && !rolledBack) {
+      console.error('Error applying edits:', error);
+      return res.status(500).json({
+        success: false,
+        error: results.some(result => result.status === 'applied')
+          ? 'Failed to apply edits and some changes could not be undone'
+          : 'Failed to apply edits',
+        data
+      });
+    }
+
+    return res.status(409).json({
+      success: false,
+      error: rolledBack
+        ? 'A change failed while applying; every change was rolled back'
+        : 'Some changes can no longer be applied; nothing was changed',
+      data
+    });
+
+  } catch (error) {
+    console.error('Edit apply error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to apply edits'
+    });
+  }
+}
@@ -1,33 +1,110 @@
 import { Request, Response, NextFunction } from 'express';
 import { createClient } from '@supabase/supabase-js';
 import { env } from '../config/env';
-import { z } from 'zod';
+import {
+  BatchEventSchema,
+  ConflictModeSchema,
+  ConflictsQuerySchema,
+  EventInput,
+  EventSchema,
+  FreeSlotsQuerySchema,
+  RecurrenceScopeSchema,
+  TrackingActionSchema
+} from '../schemas/event.schema';
+import { diffDays, isValidDate } from '../utils/date';
+import { decodeSyncCursor, encodeSyncCursor, isTimestampCursor, SyncCursor } from '../utils/syncCursor';
+import {
+  eventETag,
+  getEventSegments,
+  hasEventChanged,
+  parseIfMatch,
+  resolveEventSpan,
+  toDbEvent,
+  transformEvent
+} from '../utils/events';
+import {
+  deleteEventRows,
+  fetchEventKeys,
+  fetchEventRows,
+  fetchEventRowsByLocalIds,
+  getEventRow,
+  updateEventRow
+} from '../services/events.service';
+import { categorizeEventInputs } from '../services/categories.service';
+import { findEventConflicts } from '../services/conflicts.service';
+import { createUserEvent, deleteUserEvent, MutationResult, updateUserEvent } from '../services/eventMutations.service';
+import { TrackingAction, trackUserEvent } from '../services/eventTracking.service';
+import { eventDateRange, invalidateInsights } from '../services/insightCache.service';
+import { getUserTimeZone, resolveTimeZone } from '../services/profile.service';
+import { findFreeSlots } from '../utils/availability';
+import { findOverlappingPairs } from '../utils/conflicts';
+import { toZonedParts } from '../utils/timezone';
 
 const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
 
-const EventSchema = z.object({
-  title: z.string().min(1, 'Title is required'),
-  description: z.string().optional(),
-  startTime: z.number().min(0).max(24),
-  endTime: z.number().min(0).max(24),
-  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
-  emoji: z.string().optional(),
-  colorHex: z.string().optional(),
-  category: z.string().optional(),
-  participants: z.array(z.string()).optional(),
-  isCompleted: z.boolean().optional(),
-  notificationSettings: z.object({
-    enabled: z.boolean(),
-    minutesBefore: z.array(z.number()),
-    notificationIds: z.array(z.string())
-  }).optional(),
-  localId: z.string().optional() // Add localId field for iOS UUID tracking
-});
-
-const BatchEventSchema = z.object({
-  events: z.array(EventSchema),
-  clearExisting: z.boolean().optional() // Option to clear existing events before batch insert
-});
+// Tombstones older than this are purged, so older cursors need a full resync
+const TOMBSTONE_RETENTION_DAYS = 90;
+
+// Rows per delta sync page (events and tombstones each), below PostgREST's own cap
+const DEFAULT_CHANGES_LIMIT = 500;
+const MAX_CHANGES_LIMIT = 1000;
+
+interface BatchItemResult {
+  index: number;
+  localId: string | null;
+  status: 'created' | 'updated' | 'unchanged' | 'conflict' | 'failed';
+  event?: ReturnType<typeof transformEvent>;
+  conflicts?: ReturnType<typeof transformEvent>[];
+  error?: string;
+  details?: unknown;
+}
+
+// Longest range GET /api/events/conflicts scans in one request
+const MAX_CONFLICT_RANGE_DAYS = 366;
+
+// Longest range GET /api/events/free-slots searches in one request
+const MAX_FREE_SLOT_RANGE_DAYS = 62;
+
+/**
+ * 409 response carrying the server's copy so the client can merge
+ */
+function sendVersionConflict(res: Response, current: any) {
+  res.setHeader('ETag', eventETag(current));
+  return res.status(409).json({
+    error: 'Version conflict',
+    message: 'The event was modified on another device',
+    current: transformEvent(current)
+  });
+}
+
+/**
+ * 409 response for strict conflict mode, listing the events in the way
+ */
+function sendOverlapConflict(res: Response, conflicts: any[]) {
+  return res.status(409).json({
+    error: 'Event overlaps existing events',
+    conflicts: conflicts.map(transformEvent)
+  });
+}
+
+/**
+ * Error response for a create/update/delete that did not go through
+ */
+function sendMutationFailure(res: Response, result: Exclude<MutationResult, { status: 'ok' }>, failureMessage: string) {
+  switch (result.status) {
+    case 'invalid':
+      return res.status(400).json(result.details ? { error: result.message, details: result.details } : { error: result.message });
+    case 'not_found':
+      return res.status(404).json({ error: 'Event not found' });
+    case 'version_conflict':
+      return sendVersionConflict(res, result.current);
+    case 'overlap':
+      return sendOverlapConflict(res, result.conflicts);
+    case 'failed':
+      console.error(`${failureMessage}:`, result.error);
+      return res.status(500).json({ error: failureMessage });
+  }
+}
 
 // Extended Request type with user
 interface AuthRequest extends Request {
@@ -40,6 +117,9 @@ interface AuthRequest extends Request {
 /**
  * Get all events for the authenticated user
  * Optionally filter by date range
+ * Times are converted to ?timeZone= (or the user's stored zone) when known
+ * Recurring series are expanded into occurrences when a date or a full
+ * startDate/endDate range is given
  */
 export const getEvents = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -50,54 +130,32 @@ export const getEvents = async (req: AuthRequest, res: Response, next: NextFunct
 
     const { startDate, endDate, date } = req.query;
 
-    let query = supabase
-      .from('events')
-      .select('*')
-      .eq('user_id', userId)
-      .order('date', { ascending: true })
-      .order('start_time', { ascending: true });
-
-    // Apply date filters if provided
-    if (date) {
-      query = query.eq('date', date as string);
-    } else {
-      if (startDate) {
-        query = query.gte('date', startDate as string);
-      }
-      if (endDate) {
-        query = query.lte('date', endDate as string);
+    for (const value of [startDate, endDate, date]) {
+      if (value !== undefined && (typeof value !== 'string' || !isValidDate(value))) {
+        return res.status(400).json({ error: 'Dates must be in YYYY-MM-DD format' });
       }
     }
 
-    const { data: events, error } = await query;
+    const window = date
+      ? { from: date as string, to: date as string }
+      : { from: startDate as string | undefined, to: endDate as string | undefined };
 
-    if (error) {
+    // Events saved in other zones are shown in the user's (or the requested) zone
+    const timeZone = await getUserTimeZone(req);
+    const { data: events, error } = await fetchEventRows(userId, window, { timeZone });
+
+    if (error || !events) {
       console.error('Error fetching events:', error);
       return res.status(500).json({ error: 'Failed to fetch events' });
     }
 
     // Transform snake_case to camelCase for iOS app compatibility
+    // Events spanning midnight also get their per-day pieces inside the requested range
     const transformedEvents = events.map(event => ({
-      id: event.id,
-      userId: event.user_id,
-      title: event.title,
-      description: event.description,
-      startTime: event.start_time,
-      endTime: event.end_time,
-      date: event.date,
-      emoji: event.emoji,
-      colorHex: event.color_hex,
-      category: event.category,
-      participants: event.participants || [],
-      isCompleted: event.is_completed || false,
-      notificationSettings: event.notification_settings || {
-        enabled: false,
-        minutesBefore: [],
-        notificationIds: []
-      },
-      localId: event.local_id,
-      createdAt: event.created_at,
-      updatedAt: event.updated_at
+      ...transformEvent(event),
+      segments: getEventSegments(event).filter(segment =>
+        (!window.from || segment.date >= window.from) && (!window.to || segment.date <= window.to)
+      )
     }));
 
     res.json({
@@ -111,7 +169,110 @@ export const getEvents = async (req: AuthRequest, res: Response, next: NextFunct
 };
 
 /**
- * Create a new event
+ * List every pair of overlapping events in a date range
+ * Recurring series are expanded, and times are compared in the user's zone
+ */
+export const getEventConflicts = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationResult = ConflictsQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { startDate, endDate } = validationResult.data;
+    if (diffDays(startDate, endDate) > MAX_CONFLICT_RANGE_DAYS) {
+      return res.status(400).json({ error: `Date range cannot exceed ${MAX_CONFLICT_RANGE_DAYS} days` });
+    }
+
+    const timeZone = await getUserTimeZone(req);
+    const { data: events, error } = await fetchEventRows(userId, { from: startDate, to: endDate }, { timeZone });
+
+    if (error || !events) {
+      console.error('Error fetching events for conflicts:', error);
+      return res.status(500).json({ error: 'Failed to fetch conflicts' });
+    }
+
+    const conflicts = findOverlappingPairs(events).map(overlap => ({
+      date: overlap.date,
+      startTime: overlap.startTime,
+      overlapHours: Math.round(overlap.overlapHours * 100) / 100,
+      events: [transformEvent(overlap.first), transformEvent(overlap.second)]
+    }));
+
+    res.json({
+      success: true,
+      conflicts,
+      count: conflicts.length
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Find free slots of a given length inside working hours
+ * Slots in the high-energy part of the day rank first; time already past is skipped
+ */
+export const getFreeSlots = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationResult = FreeSlotsQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { startDate, endDate, durationMinutes, workStart, workEnd, bufferMinutes, limit } = validationResult.data;
+    if (diffDays(startDate, endDate) > MAX_FREE_SLOT_RANGE_DAYS) {
+      return res.status(400).json({ error: `Date range cannot exceed ${MAX_FREE_SLOT_RANGE_DAYS} days` });
+    }
+
+    const timeZone = await resolveTimeZone(req);
+    const { data: events, error } = await fetchEventRows(userId, { from: startDate, to: endDate }, { timeZone });
+
+    if (error || !events) {
+      console.error('Error fetching events for free slots:', error);
+      return res.status(500).json({ error: 'Failed to find free slots' });
+    }
+
+    const slots = findFreeSlots(events, {
+      from: startDate,
+      to: endDate,
+      durationHours: durationMinutes / 60,
+      workStart,
+      workEnd,
+      bufferHours: bufferMinutes / 60,
+      notBefore: toZonedParts(new Date(), timeZone)
+    }).slice(0, limit);
+
+    res.json({
+      success: true,
+      slots: slots.map(slot => ({ ...slot, score: Math.round(slot.score * 100) / 100 })),
+      count: slots.length,
+      timeZone
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Create a new event; one sent without a category is given one when the
+ * classifier can place it
  */
 export const createEvent = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -129,63 +290,29 @@ export const createEvent = async (req: AuthRequest, res: Response, next: NextFun
       });
     }
 
-    const eventData = validationResult.data;
-
-    const dbEvent = {
-      user_id: userId,
-      title: eventData.title,
-      description: eventData.description || null,
-      start_time: eventData.startTime,
-      end_time: eventData.endTime,
-      date: eventData.date,
-      emoji: eventData.emoji || null,
-      color_hex: eventData.colorHex || null,
-      category: eventData.category || null,
-      participants: eventData.participants || [],
-      is_completed: eventData.isCompleted || false,
-      notification_settings: eventData.notificationSettings || {
-        enabled: false,
-        minutesBefore: [],
-        notificationIds: []
-      },
-      local_id: eventData.localId || null, // Store iOS app's local UUID
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    };
+    const modeResult = ConflictModeSchema.safeParse(req.query);
+    if (!modeResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: modeResult.error.issues
+      });
+    }
 
-    const { data: newEvent, error } = await supabase
-      .from('events')
-      .insert(dbEvent)
-      .select()
-      .single();
+    const [event] = await categorizeEventInputs(userId, [validationResult.data]);
+    const result = await createUserEvent(userId, event, {
+      timeZone: await getUserTimeZone(req),
+      conflictMode: modeResult.data.conflictMode
+    });
 
-    if (error) {
-      console.error('Error creating event:', error);
-      return res.status(500).json({ error: 'Failed to create event' });
-    }
-
-    const transformedEvent = {
-      id: newEvent.id,
-      userId: newEvent.user_id,
-      title: newEvent.title,
-      description: newEvent.description,
-      startTime: newEvent.start_time,
-      endTime: newEvent.end_time,
-      date: newEvent.date,
-      emoji: newEvent.emoji,
-      colorHex: newEvent.color_hex,
-      category: newEvent.category,
-      participants: newEvent.participants,
-      isCompleted: newEvent.is_completed,
-      notificationSettings: newEvent.notification_settings,
-      localId: newEvent.local_id,
-      createdAt: newEvent.created_at,
-      updatedAt: newEvent.updated_at
-    };
+    if (result.status !== 'ok') {
+      return sendMutationFailure(res, result, 'Failed to create event');
+    }
 
+    res.setHeader('ETag', eventETag(result.event));
     res.status(201).json({
       success: true,
-      event: transformedEvent
+      event: transformEvent(result.event),
+      conflicts: result.conflicts.map(transformEvent)
     });
   } catch (error) {
     return next(error);
@@ -194,6 +321,8 @@ export const createEvent = async (req: AuthRequest, res: Response, next: NextFun
 
 /**
  * Update an existing event
+ * For recurring series, ?scope=this|following|all (default all) with
+ * ?occurrenceDate=YYYY-MM-DD selects which occurrences are changed
  */
 export const updateEvent = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -213,67 +342,46 @@ export const updateEvent = async (req: AuthRequest, res: Response, next: NextFun
       });
     }
 
-    const updates = validationResult.data;
-
-    // Prepare update data (convert camelCase to snake_case)
-    const dbUpdates: any = {
-      updated_at: new Date().toISOString()
-    };
+    const scopeResult = RecurrenceScopeSchema.safeParse(req.query);
+    if (!scopeResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: scopeResult.error.issues
+      });
+    }
 
-    if (updates.title !== undefined) dbUpdates.title = updates.title;
-    if (updates.description !== undefined) dbUpdates.description = updates.description;
-    if (updates.startTime !== undefined) dbUpdates.start_time = updates.startTime;
-    if (updates.endTime !== undefined) dbUpdates.end_time = updates.endTime;
-    if (updates.date !== undefined) dbUpdates.date = updates.date;
-    if (updates.emoji !== undefined) dbUpdates.emoji = updates.emoji;
-    if (updates.colorHex !== undefined) dbUpdates.color_hex = updates.colorHex;
-    if (updates.category !== undefined) dbUpdates.category = updates.category;
-    if (updates.participants !== undefined) dbUpdates.participants = updates.participants;
-    if (updates.isCompleted !== undefined) dbUpdates.is_completed = updates.isCompleted;
-    if (updates.localId !== undefined) dbUpdates.local_id = updates.localId;
-    if (updates.notificationSettings !== undefined) {
-      dbUpdates.notification_settings = updates.notificationSettings;
-    }
-
-    const { data: updatedEvent, error } = await supabase
-      .from('events')
-      .update(dbUpdates)
-      .eq('id', id)
-      .eq('user_id', userId) // Ensure user owns this event
-      .select()
-      .single();
+    const modeResult = ConflictModeSchema.safeParse(req.query);
+    if (!modeResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: modeResult.error.issues
+      });
+    }
 
-    if (error) {
-      console.error('Error updating event:', error);
-      return res.status(500).json({ error: 'Failed to update event' });
+    // Optimistic concurrency: If-Match carries the version the client edited
+    const ifMatch = req.get('If-Match');
+    const expectedVersion = ifMatch !== undefined ? parseIfMatch(ifMatch) : null;
+    if (Number.isNaN(expectedVersion)) {
+      return res.status(400).json({ error: 'Invalid If-Match header' });
     }
 
-    if (!updatedEvent) {
-      return res.status(404).json({ error: 'Event not found' });
+    const result = await updateUserEvent(userId, id, validationResult.data, {
+      ...scopeResult.data,
+      expectedVersion,
+      timeZone: await getUserTimeZone(req),
+      conflictMode: modeResult.data.conflictMode
+    });
+
+    if (result.status !== 'ok') {
+      return sendMutationFailure(res, result, 'Failed to update event');
     }
 
     // Transform response back to camelCase
-    const transformedEvent = {
-      id: updatedEvent.id,
-      userId: updatedEvent.user_id,
-      title: updatedEvent.title,
-      description: updatedEvent.description,
-      startTime: updatedEvent.start_time,
-      endTime: updatedEvent.end_time,
-      date: updatedEvent.date,
-      emoji: updatedEvent.emoji,
-      colorHex: updatedEvent.color_hex,
-      category: updatedEvent.category,
-      participants: updatedEvent.participants,
-      isCompleted: updatedEvent.is_completed,
-      notificationSettings: updatedEvent.notification_settings,
-      createdAt: updatedEvent.created_at,
-      updatedAt: updatedEvent.updated_at
-    };
-
+    res.setHeader('ETag', eventETag(result.event));
     res.json({
       success: true,
-      event: transformedEvent
+      event: transformEvent(result.event),
+      conflicts: result.conflicts.map(transformEvent)
     });
   } catch (error) {
     return next(error);
@@ -282,6 +390,8 @@ export const updateEvent = async (req: AuthRequest, res: Response, next: NextFun
 
 /**
  * Delete an event
+ * For recurring series, ?scope=this|following|all (default all) with
+ * ?occurrenceDate=YYYY-MM-DD selects which occurrences are removed
  */
 export const deleteEvent = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -292,29 +402,92 @@ export const deleteEvent = async (req: AuthRequest, res: Response, next: NextFun
 
     const { id } = req.params;
 
-    const { error } = await supabase
-      .from('events')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', userId); // Ensure user owns this event
+    const scopeResult = RecurrenceScopeSchema.safeParse(req.query);
+    if (!scopeResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: scopeResult.error.issues
+      });
+    }
 
-    if (error) {
-      console.error('Error deleting event:', error);
-      return res.status(500).json({ error: 'Failed to delete event' });
+    const result = await deleteUserEvent(userId, id, scopeResult.data);
+
+    if (result.status !== 'ok') {
+      return sendMutationFailure(res, result, 'Failed to delete event');
     }
 
     res.json({
       success: true,
-      message: 'Event deleted successfully'
+      message: result.message,
+      ...(result.event ? { event: transformEvent(result.event) } : {})
     });
   } catch (error) {
     return next(error);
   }
 };
 
+/**
+ * Handler for one tracking action (start/stop/complete/skip)
+ * Body: { at?, occurrenceDate?, actualStart?, actualEnd? }
+ * Headers: If-Match: "<version>" (optional), as for updates
+ */
+function trackingHandler(action: TrackingAction) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const validationResult = TrackingActionSchema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        });
+      }
+
+      const ifMatch = req.get('If-Match');
+      const expectedVersion = ifMatch !== undefined ? parseIfMatch(ifMatch) : null;
+      if (Number.isNaN(expectedVersion)) {
+        return res.status(400).json({ error: 'Invalid If-Match header' });
+      }
+
+      const result = await trackUserEvent(userId, req.params.id, action, validationResult.data, { expectedVersion });
+
+      if (result.status === 'invalid_transition') {
+        return res.status(409).json({
+          error: result.message,
+          current: transformEvent(result.current)
+        });
+      }
+
+      if (result.status !== 'ok') {
+        return sendMutationFailure(res, result, `Failed to ${action} event`);
+      }
+
+      res.setHeader('ETag', eventETag(result.event));
+      res.json({
+        success: true,
+        event: transformEvent(result.event)
+      });
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
+
+export const startEvent = trackingHandler('start');
+export const stopEvent = trackingHandler('stop');
+export const completeEvent = trackingHandler('complete');
+export const skipEvent = trackingHandler('skip');
+
 /**
  * Batch create/update events
  * Useful for initial sync or bulk operations
+ * Events are matched to stored rows by localId: matches are updated in place
+ * (or left alone when unchanged) and only new events are inserted.
+ * Uncategorized events are classified like single creates.
  */
 export const batchSyncEvents = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -332,14 +505,60 @@ export const batchSyncEvents = async (req: AuthRequest, res: Response, next: Nex
       });
     }
 
-    const { events, clearExisting } = validationResult.data;
+    const modeResult = ConflictModeSchema.safeParse(req.query);
+    if (!modeResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: modeResult.error.issues
+      });
+    }
+
+    const { events, clearExisting, deleteMissing } = validationResult.data;
+    const { conflictMode } = modeResult.data;
+
+    const results: BatchItemResult[] = [];
+    const valid: { index: number; event: EventInput }[] = [];
+    const seenLocalIds = new Set<string>();
+
+    events.forEach((item, index) => {
+      const itemResult = EventSchema.safeParse(item);
+      if (!itemResult.success) {
+        results[index] = {
+          index,
+          localId: typeof item === 'object' && item !== null && 'localId' in item && typeof item.localId === 'string' ? item.localId : null,
+          status: 'failed',
+          error: 'Validation failed',
+          details: itemResult.error.issues
+        };
+        return;
+      }
+
+      const { error: spanError } = resolveEventSpan(itemResult.data);
+      if (spanError) {
+        results[index] = {
+          index,
+          localId: itemResult.data.localId ?? null,
+          status: 'failed',
+          error: 'Validation failed',
+          details: [spanError]
+        };
+        return;
+      }
+
+      const { localId } = itemResult.data;
+      if (localId) {
+        if (seenLocalIds.has(localId)) {
+          results[index] = { index, localId, status: 'failed', error: 'Duplicate localId in batch' };
+          return;
+        }
+        seenLocalIds.add(localId);
+      }
+      valid.push({ index, event: itemResult.data });
+    });
 
     // Optionally clear existing events
     if (clearExisting) {
-      const { error: deleteError } = await supabase
-        .from('events')
-        .delete()
-        .eq('user_id', userId);
+      const { error: deleteError } = await deleteEventRows(userId);
 
       if (deleteError) {
         console.error('Error clearing existing events:', deleteError);
@@ -347,63 +566,189 @@ export const batchSyncEvents = async (req: AuthRequest, res: Response, next: Nex
       }
     }
 
-    // Prepare events for batch insert
-    const dbEvents = events.map(event => ({
-      user_id: userId,
-      title: event.title,
-      description: event.description || null,
-      start_time: event.startTime,
-      end_time: event.endTime,
-      date: event.date,
-      emoji: event.emoji || null,
-      color_hex: event.colorHex || null,
-      category: event.category || null,
-      participants: event.participants || [],
-      is_completed: event.isCompleted || false,
-      notification_settings: event.notificationSettings || {
-        enabled: false,
-        minutesBefore: [],
-        notificationIds: []
-      },
-      local_id: event.localId || null,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+    const storedByLocalId = new Map<string, any>();
+    if (!clearExisting && seenLocalIds.size > 0) {
+      const { data: storedRows, error: lookupError } = await fetchEventRowsByLocalIds(userId, [...seenLocalIds]);
+
+      if (lookupError || !storedRows) {
+        console.error('Error looking up existing events:', lookupError);
+        return res.status(500).json({ error: 'Failed to sync events' });
+      }
+      storedRows.forEach(row => storedByLocalId.set(row.local_id, row));
+    }
+
+    // Items sent without a category keep the stored one; the rest are classified
+    const categorized = await categorizeEventInputs(userId, valid.map(({ event }) => {
+      const stored = event.localId ? storedByLocalId.get(event.localId) : undefined;
+      return !event.category?.trim() && stored?.category ? { ...event, category: stored.category } : event;
     }));
+    categorized.forEach((event, i) => { valid[i].event = event; });
+
+    const defaultTimeZone = await getUserTimeZone(req);
+    const dbEvents = valid.map(({ event }) => toDbEvent(userId, { ...event, timeZone: event.timeZone ?? defaultTimeZone }));
+
+    // Overlaps are checked against stored events the batch leaves in place
+    let conflictLists: any[][] = valid.map(() => []);
+    if (!clearExisting) {
+      const { data, error: conflictError } = await findEventConflicts(userId, dbEvents, {
+        timeZone: defaultTimeZone,
+        exclude: row => Boolean(row.local_id) && (deleteMissing || seenLocalIds.has(row.local_id))
+      });
+
+      if (conflictError || !data) {
+        console.error('Error checking event conflicts:', conflictError);
+        return res.status(500).json({ error: 'Failed to sync events' });
+      }
+      conflictLists = data;
+    }
+
+    const inserts: { index: number; row: any }[] = [];
+    const updates: { index: number; row: any }[] = [];
+    // Items that carry the version they were edited from are written with a compare-and-swap
+    const guardedUpdates: { index: number; stored: any; row: any }[] = [];
+    const conflictsByIndex = new Map<number, any[]>();
+
+    for (const [i, { index, event }] of valid.entries()) {
+      const dbEvent = dbEvents[i];
+      const stored = event.localId ? storedByLocalId.get(event.localId) : undefined;
+      const willWrite = !stored || hasEventChanged(stored, dbEvent);
+
+      if (willWrite && conflictLists[i].length > 0) {
+        if (conflictMode === 'strict') {
+          results[index] = {
+            index,
+            localId: event.localId ?? null,
+            status: 'failed',
+            error: 'Event overlaps existing events',
+            conflicts: conflictLists[i].map(transformEvent)
+          };
+          continue;
+        }
+        conflictsByIndex.set(index, conflictLists[i]);
+      }
+
+      if (!stored) {
+        inserts.push({ index, row: dbEvent });
+      } else if (!hasEventChanged(stored, dbEvent)) {
+        results[index] = { index, localId: event.localId ?? null, status: 'unchanged', event: transformEvent(stored) };
+      } else if (event.version !== undefined && event.version !== (stored.version ?? 1)) {
+        results[index] = { index, localId: event.localId ?? null, status: 'conflict', event: transformEvent(stored) };
+      } else if (event.version !== undefined) {
+        guardedUpdates.push({ index, stored, row: dbEvent });
+      } else {
+        updates.push({
+          index,
+          row: { ...dbEvent, id: stored.id, created_at: stored.created_at, version: (stored.version ?? 1) + 1 }
+        });
+      }
+    }
 
     // Batch insert new events
-    const { data: newEvents, error } = await supabase
-      .from('events')
-      .insert(dbEvents)
-      .select();
+    if (inserts.length > 0) {
+      const { data: newEvents, error } = await supabase
+        .from('events')
+        .insert(inserts.map(item => item.row))
+        .select();
 
-    if (error) {
-      console.error('Error batch syncing events:', error);
-      return res.status(500).json({ error: 'Failed to sync events' });
+      if (error) {
+        console.error('Error batch syncing events:', error);
+      } else if (newEvents) {
+        await invalidateInsights(userId, newEvents.map(eventDateRange));
+      }
+
+      // Inserted rows come back in request order
+      inserts.forEach((item, i) => {
+        const localId = item.row.local_id;
+        const created = newEvents?.[i];
+        results[item.index] = error || !created
+          ? { index: item.index, localId, status: 'failed', error: 'Failed to create event' }
+          : { index: item.index, localId, status: 'created', event: transformEvent(created) };
+      });
     }
 
-    // Transform response back to camelCase
-    const transformedEvents = newEvents.map(event => ({
-      id: event.id,
-      userId: event.user_id,
-      title: event.title,
-      description: event.description,
-      startTime: event.start_time,
-      endTime: event.end_time,
-      date: event.date,
-      emoji: event.emoji,
-      colorHex: event.color_hex,
-      category: event.category,
-      participants: event.participants,
-      isCompleted: event.is_completed,
-      notificationSettings: event.notification_settings,
-      createdAt: event.created_at,
-      updatedAt: event.updated_at
+    // Rows are matched by primary key, so this updates the existing events in place
+    if (updates.length > 0) {
+      const { data: updatedEvents, error } = await supabase
+        .from('events')
+        .upsert(updates.map(item => item.row), { onConflict: 'id' })
+        .select();
+
+      if (error) {
+        console.error('Error batch updating events:', error);
+      } else if (updatedEvents) {
+        // Both the days the events left and the days they moved to
+        const touched = updatedEvents.flatMap(row => [row, storedByLocalId.get(row.local_id)]).filter(Boolean);
+        await invalidateInsights(userId, touched.map(eventDateRange));
+      }
+
+      updates.forEach(item => {
+        const localId = item.row.local_id;
+        const updated = updatedEvents?.find(row => row.id === item.row.id);
+        results[item.index] = error || !updated
+          ? { index: item.index, localId, status: 'failed', error: 'Failed to update event' }
+          : { index: item.index, localId, status: 'updated', event: transformEvent(updated) };
+      });
+    }
+
+    await Promise.all(guardedUpdates.map(async ({ index, stored, row }) => {
+      const { created_at: _createdAt, ...changes } = row;
+      const { data: updated, error } = await updateEventRow(stored, changes);
+
+      if (error) {
+        console.error('Error batch updating event:', error);
+        results[index] = { index, localId: row.local_id, status: 'failed', error: 'Failed to update event' };
+      } else if (!updated) {
+        const { data: latest } = await getEventRow(userId, stored.id);
+        results[index] = { index, localId: row.local_id, status: 'conflict', event: latest ? transformEvent(latest) : undefined };
+      } else {
+        results[index] = { index, localId: row.local_id, status: 'updated', event: transformEvent(updated) };
+      }
     }));
 
+    let deletedCount = 0;
+    if (deleteMissing && !clearExisting) {
+      const { data: keys, error: keysError } = await fetchEventKeys(userId);
+
+      if (keysError || !keys) {
+        console.error('Error listing events for deletion:', keysError);
+        return res.status(500).json({ error: 'Failed to delete missing events' });
+      }
+
+      const missingIds = keys
+        .filter(key => key.local_id && !seenLocalIds.has(key.local_id))
+        .map(key => key.id);
+
+      if (missingIds.length > 0) {
+        const { data: deleted, error: deleteError } = await deleteEventRows(userId, { ids: missingIds });
+
+        if (deleteError) {
+          console.error('Error deleting missing events:', deleteError);
+          return res.status(500).json({ error: 'Failed to delete missing events' });
+        }
+        deletedCount = deleted?.length ?? 0;
+      }
+    }
+
+    // Warn mode: written items report what they overlap
+    conflictsByIndex.forEach((conflicts, index) => {
+      if (results[index].status === 'created' || results[index].status === 'updated') {
+        results[index].conflicts = conflicts.map(transformEvent);
+      }
+    });
+
+    const count = (status: BatchItemResult['status']) => results.filter(r => r.status === status).length;
+
     res.json({
       success: true,
-      events: transformedEvents,
-      count: transformedEvents.length,
+      results,
+      summary: {
+        created: count('created'),
+        updated: count('updated'),
+        unchanged: count('unchanged'),
+        conflict: count('conflict'),
+        failed: count('failed'),
+        deleted: deletedCount
+      },
       message: clearExisting ? 'Events replaced successfully' : 'Events synced successfully'
     });
   } catch (error) {
@@ -422,10 +767,7 @@ export const deleteAllEvents = async (req: AuthRequest, res: Response, next: Nex
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const { error } = await supabase
-      .from('events')
-      .delete()
-      .eq('user_id', userId);
+    const { error } = await deleteEventRows(userId);
 
     if (error) {
       console.error('Error deleting all events:', error);
@@ -439,4 +781,138 @@ export const deleteAllEvents = async (req: AuthRequest, res: Response, next: Nex
   } catch (error) {
     return next(error);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Get everything that changed since a sync cursor, a page at a time
+ * Without a cursor, returns every event as a full snapshot (paged the same way)
+ */
+export const getEventChanges = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { since, limit: limitParam } = req.query;
+    let cursor: SyncCursor | null = null;
+
+    if (since !== undefined) {
+      cursor = typeof since === 'string' ? decodeSyncCursor(since) : null;
+      if (!cursor && typeof since === 'string' && isTimestampCursor(since)) {
+        return res.status(410).json({
+          error: 'Sync cursor is from an older server version, a full sync is required',
+          fullSyncRequired: true
+        });
+      }
+      if (!cursor) {
+        return res.status(400).json({ error: 'Invalid sync cursor' });
+      }
+
+      const retentionStart = Date.now() - TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+      if (Date.parse(cursor.issuedAt) < retentionStart) {
+        return res.status(410).json({
+          error: 'Sync cursor expired, a full sync is required',
+          fullSyncRequired: true
+        });
+      }
+    }
+
+    const limit = limitParam === undefined ? DEFAULT_CHANGES_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CHANGES_LIMIT) {
+      return res.status(400).json({ error: `limit must be a whole number from 1 to ${MAX_CHANGES_LIMIT}` });
+    }
+
+    const fullSync = !cursor || cursor.fullSync;
+
+    // One extra row tells whether another page follows
+    let eventsQuery = supabase
+      .from('events')
+      .select('*')
+      .eq('user_id', userId)
+      .order('change_seq', { ascending: true })
+      .limit(limit + 1);
+
+    if (cursor?.events != null) {
+      eventsQuery = eventsQuery.gt('change_seq', cursor.events);
+    }
+
+    const { data: eventRows, error } = await eventsQuery;
+
+    if (error || !eventRows) {
+      console.error('Error fetching event changes:', error);
+      return res.status(500).json({ error: 'Failed to fetch changes' });
+    }
+
+    // A full snapshot has no deletions to report, but deletions made while the
+    // client pages through it must still reach it, so start after the latest tombstone
+    let tombstoneRows: any[] = [];
+    let tombstonePosition = cursor ? cursor.tombstones : null;
+    if (cursor) {
+      let tombstonesQuery = supabase
+        .from('event_tombstones')
+        .select('id, event_id, local_id, deleted_at, change_seq')
+        .eq('user_id', userId)
+        .order('change_seq', { ascending: true })
+        .limit(limit + 1);
+
+      if (cursor.tombstones != null) {
+        tombstonesQuery = tombstonesQuery.gt('change_seq', cursor.tombstones);
+      }
+
+      const { data, error: tombstoneError } = await tombstonesQuery;
+      if (tombstoneError || !data) {
+        console.error('Error fetching event tombstones:', tombstoneError);
+        return res.status(500).json({ error: 'Failed to fetch changes' });
+      }
+      tombstoneRows = data;
+    } else {
+      const { data: latest, error: tombstoneError } = await supabase
+        .from('event_tombstones')
+        .select('change_seq')
+        .eq('user_id', userId)
+        .order('change_seq', { ascending: false })
+        .limit(1);
+
+      if (tombstoneError) {
+        console.error('Error fetching event tombstones:', tombstoneError);
+        return res.status(500).json({ error: 'Failed to fetch changes' });
+      }
+      tombstonePosition = latest && latest.length > 0 ? latest[0].change_seq : null;
+    }
+
+    const events = eventRows.slice(0, limit);
+    const tombstones = tombstoneRows.slice(0, limit);
+    const hasMore = eventRows.length > limit || tombstoneRows.length > limit;
+
+    const lastEvent = events[events.length - 1];
+    const lastTombstone = tombstones[tombstones.length - 1];
+    const nextCursor: SyncCursor = {
+      events: lastEvent ? lastEvent.change_seq : cursor?.events ?? null,
+      tombstones: lastTombstone ? lastTombstone.change_seq : tombstonePosition,
+      issuedAt: new Date().toISOString(),
+      fullSync: fullSync && hasMore
+    };
+
+    // Events the client has never seen are "created", even if edited since
+    const seenUpTo = !fullSync ? cursor?.events ?? null : null;
+    const created = events.filter(event => seenUpTo === null || event.created_seq > seenUpTo);
+    const updated = events.filter(event => seenUpTo !== null && event.created_seq <= seenUpTo);
+
+    res.json({
+      success: true,
+      fullSync,
+      created: created.map(transformEvent),
+      updated: updated.map(transformEvent),
+      deleted: tombstones.map(tombstone => ({
+        id: tombstone.event_id,
+        localId: tombstone.local_id,
+        deletedAt: tombstone.deleted_at
+      })),
+      hasMore,
+      cursor: encodeSyncCursor(nextCursor)
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
@@ -0,0 +1,159 @@
+import { Request, Response, NextFunction } from 'express';
+import { GoalSchema, GoalUpdateSchema, MAX_GOALS } from '../schemas/goal.schema';
+import { deleteGoalRow, getGoalProgress, insertGoalRow, listGoalRows, updateGoalRow } from '../services/goals.service';
+import { resolveTimeZone } from '../services/profile.service';
+import { isValidDate } from '../utils/date';
+import { transformGoal } from '../utils/goals';
+import { todayInZone } from '../utils/timezone';
+
+// Extended Request type with user
+interface AuthRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+  };
+}
+
+/**
+ * List the user's goals with their progress in the current period
+ * (or the period containing ?date=)
+ */
+export const getGoals = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { date } = req.query;
+    if (date !== undefined && (typeof date !== 'string' || !isValidDate(date))) {
+      return res.status(400).json({ error: 'date must be a valid YYYY-MM-DD date' });
+    }
+
+    const timeZone = await resolveTimeZone(req);
+    const { data, error } = await getGoalProgress(userId, date ?? todayInZone(timeZone), timeZone);
+
+    if (error || !data) {
+      console.error('Error fetching goals:', error);
+      return res.status(500).json({ error: 'Failed to fetch goals' });
+    }
+
+    res.json({
+      success: true,
+      goals: data
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Create a goal
+ */
+export const createGoal = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationResult = GoalSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { data: existing, error: listError } = await listGoalRows(userId);
+    if (listError) {
+      console.error('Error fetching goals:', listError);
+      return res.status(500).json({ error: 'Failed to create goal' });
+    }
+    if ((existing || []).length >= MAX_GOALS) {
+      return res.status(400).json({ error: `You can have at most ${MAX_GOALS} goals` });
+    }
+
+    const { data: goal, error } = await insertGoalRow(userId, validationResult.data);
+
+    if (error) {
+      console.error('Error creating goal:', error);
+      return res.status(500).json({ error: 'Failed to create goal' });
+    }
+
+    res.status(201).json({
+      success: true,
+      goal: transformGoal(goal)
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Update a goal
+ */
+export const updateGoal = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationResult = GoalUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { data: goal, error } = await updateGoalRow(userId, req.params.id, validationResult.data);
+
+    if (error) {
+      console.error('Error updating goal:', error);
+      return res.status(500).json({ error: 'Failed to update goal' });
+    }
+
+    if (!goal) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+
+    res.json({
+      success: true,
+      goal: transformGoal(goal)
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Delete a goal
+ */
+export const deleteGoal = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { data, error } = await deleteGoalRow(userId, req.params.id);
+
+    if (error) {
+      console.error('Error deleting goal:', error);
+      return res.status(500).json({ error: 'Failed to delete goal' });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Goal deleted successfully'
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
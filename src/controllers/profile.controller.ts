@@ -0,0 +1,109 @@
+import { Request, Response, NextFunction } from 'express';
+import { ProfileSchema } from '../schemas/profile.schema';
+import { getProfileRow, upsertProfileRow } from '../services/profile.service';
+import { resolvePreferences } from '../utils/preferences';
+
+// Extended Request type with user
+interface AuthRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+  };
+}
+
+/**
+ * Transform a snake_case profile row into the camelCase shape the iOS app expects
+ */
+function transformProfile(profile: any) {
+  return {
+    timeZone: profile?.time_zone || null,
+    ...resolvePreferences(profile),
+    customEnergyWindows: profile?.energy_windows != null,
+    updatedAt: profile?.updated_at || null
+  };
+}
+
+/**
+ * Get the authenticated user's profile
+ */
+export const getProfile = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { data: profile, error } = await getProfileRow(userId);
+
+    if (error) {
+      console.error('Error fetching profile:', error);
+      return res.status(500).json({ error: 'Failed to fetch profile' });
+    }
+
+    res.json({
+      success: true,
+      profile: transformProfile(profile)
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Update the authenticated user's profile
+ */
+export const updateProfile = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationResult = ProfileSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const updates = validationResult.data;
+    const dbUpdates: any = {};
+    if (updates.timeZone !== undefined) dbUpdates.time_zone = updates.timeZone;
+    if (updates.workStart !== undefined) dbUpdates.work_start = updates.workStart;
+    if (updates.workEnd !== undefined) dbUpdates.work_end = updates.workEnd;
+    if (updates.chronotype !== undefined) dbUpdates.chronotype = updates.chronotype;
+    if (updates.energyWindows !== undefined) dbUpdates.energy_windows = updates.energyWindows;
+    if (updates.idealBalance !== undefined) dbUpdates.ideal_balance = updates.idealBalance;
+    if (updates.breakMinutes !== undefined) dbUpdates.break_minutes = updates.breakMinutes;
+    if (updates.defaultEventMinutes !== undefined) dbUpdates.default_event_minutes = updates.defaultEventMinutes;
+
+    // Working hours may be updated one end at a time, so check them against what is stored
+    if (updates.workStart !== undefined || updates.workEnd !== undefined) {
+      const { data: existing, error: fetchError } = await getProfileRow(userId);
+      if (fetchError) {
+        console.error('Error fetching profile:', fetchError);
+        return res.status(500).json({ error: 'Failed to update profile' });
+      }
+
+      const { workStart, workEnd } = resolvePreferences({ ...existing, ...dbUpdates });
+      if (workStart >= workEnd) {
+        return res.status(400).json({ error: 'workStart must be before workEnd' });
+      }
+    }
+
+    const { data: profile, error } = await upsertProfileRow(userId, dbUpdates);
+
+    if (error) {
+      console.error('Error updating profile:', error);
+      return res.status(500).json({ error: 'Failed to update profile' });
+    }
+
+    res.json({
+      success: true,
+      profile: transformProfile(profile)
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
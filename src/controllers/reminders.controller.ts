@@ -0,0 +1,141 @@
+import { Request, Response, NextFunction } from 'express';
+import { DeviceTokenSchema, UpcomingRemindersQuerySchema } from '../schemas/reminder.schema';
+import { deleteDeviceToken, upsertDeviceToken } from '../services/devices.service';
+import { getReminderChannel } from '../services/notifications';
+import { resolveTimeZone } from '../services/profile.service';
+import { getUpcomingReminders, runReminderDelivery } from '../services/reminders.service';
+
+// Extended Request type with user
+interface AuthRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+  };
+}
+
+/**
+ * List the user's reminders for the next ?days= days, with delivery state
+ */
+export const getReminders = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationResult = UpcomingRemindersQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const timeZone = await resolveTimeZone(req);
+    const { data, error } = await getUpcomingReminders(userId, validationResult.data.days, timeZone);
+
+    if (error || !data) {
+      console.error('Error fetching reminders:', error);
+      return res.status(500).json({ error: 'Failed to fetch reminders' });
+    }
+
+    res.json({
+      success: true,
+      channel: getReminderChannel()?.name ?? null,
+      timeZone,
+      reminders: data
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Register a device for reminder pushes
+ */
+export const registerDevice = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationResult = DeviceTokenSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { error } = await upsertDeviceToken(userId, validationResult.data.token.toLowerCase());
+
+    if (error) {
+      console.error('Error registering device:', error);
+      return res.status(500).json({ error: 'Failed to register device' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Device registered successfully'
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Stop sending reminder pushes to a device, e.g. on sign-out
+ */
+export const unregisterDevice = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { data, error } = await deleteDeviceToken(userId, req.params.token.toLowerCase());
+
+    if (error) {
+      console.error('Error unregistering device:', error);
+      return res.status(500).json({ error: 'Failed to unregister device' });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Device unregistered successfully'
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Deliver the reminders that are due now. Called by a cron on serverless
+ * deployments, where no interval runs between requests.
+ */
+export const deliverReminders = async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { data, error } = await runReminderDelivery();
+
+    if (error) {
+      console.error('Error delivering reminders:', error);
+      return res.status(500).json({ error: 'Failed to deliver reminders' });
+    }
+
+    if (!data) {
+      return res.status(503).json({ error: 'No reminder channel is configured' });
+    }
+
+    res.json({
+      success: true,
+      ...data
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
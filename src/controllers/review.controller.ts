@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { ReviewRequestSchema } from '../schemas/review.schema';
+import { resolveTimeZone } from '../services/profile.service';
+import { reviewPeriod } from '../services/review.service';
+import { todayInZone } from '../utils/timezone';
+
+/**
+ * Review a week or month against the previous one
+ * POST /api/ai/review
+ * Body: { period?: "week" | "month", date?: "2025-10-25" }
+ */
+export async function generateReview(req: Request, res: Response) {
+  try {
+    const userId = req.user!.id;
+
+    const validationResult = ReviewRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { period } = validationResult.data;
+    const timeZone = await resolveTimeZone(req);
+    const date = validationResult.data.date ?? todayInZone(timeZone);
+
+    const { data, error } = await reviewPeriod(userId, period, date, timeZone);
+    if (error || !data) {
+      console.error('Error fetching events for review:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch events'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { ...data, timeZone }
+    });
+
+  } catch (error) {
+    console.error('Review error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to generate review'
+    });
+  }
+}
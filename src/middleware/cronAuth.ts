@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { env } from '../config/env';
+
+/**
+ * Guard for routes called by a scheduler (Vercel Cron) rather than a user:
+ * `Authorization: Bearer <CRON_SECRET>`. Without CRON_SECRET the routes are off.
+ */
+export function verifyCronSecret(req: Request, res: Response, next: NextFunction) {
+  if (!env.CRON_SECRET) {
+    return res.status(404).json({
+      success: false,
+      error: 'Not found'
+    });
+  }
+
+  const expected = Buffer.from(`Bearer ${env.CRON_SECRET}`);
+  const actual = Buffer.from(req.headers.authorization || '');
+
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid cron secret'
+    });
+  }
+
+  return next();
+}
@@ -1,13 +1,28 @@
 import { Router } from 'express';
 import {
   generateDayInsights,
+  streamDayInsights,
   parseNaturalLanguage,
+  streamNaturalLanguage,
   parseNaturalLanguageGemini,
   parseScheduleFromImage,
   parseScheduleFromImages,
+  streamScheduleFromImages,
   generateAnalytics,
-  generateTaskInsight
+  generateEstimateAnalytics,
+  generateTaskInsight,
+  autoScheduleTasks
 } from '../controllers/ai.controller';
+import {
+  sendChatMessage,
+  getChatSessions,
+  getChatSessionDetail,
+  removeChatSession,
+  confirmChatProposal,
+  rejectChatProposal
+} from '../controllers/chat.controller';
+import { planEdits, applyEdits } from '../controllers/eventEdits.controller';
+import { generateReview } from '../controllers/review.controller';
 import { verifySupabaseToken } from '../middleware/supabaseAuth';
 
 const router = Router();
@@ -18,13 +33,32 @@ router.post('/test-parse', parseNaturalLanguage);
 
 router.use(verifySupabaseToken);
 
+// Dates are resolved in the user's stored time zone; any route accepts a
+// ?timeZone= query param or X-Timezone header to override it for one request
+
 /**
  * Generate AI insights for a user's day
  * POST /api/ai/insights
- * Body: { date: "2025-10-25" }
+ * Body: { date: "2025-10-25", refresh?: true }
+ * Also returns the progress of the user's goals (see /api/goals) for that date
  */
 router.post('/insights', generateDayInsights);
 
+/**
+ * Streaming variants (Content-Type: text/event-stream). Same bodies as the routes
+ * above; results arrive one at a time, followed by a final "done" event.
+ * Closing the connection cancels the model call.
+ */
+router.post('/insights/stream', streamDayInsights);
+router.post('/parse-schedule/stream', streamNaturalLanguage);
+router.post('/parse-schedule-images/stream', streamScheduleFromImages);
+
+/**
+ * The parse routes accept `commit: true` to save what they parse. Near-duplicates
+ * of stored events (same date, overlapping, similar title) are merged or skipped;
+ * the response lists what was created, merged and skipped under `saved`.
+ */
+
 /**
  * Parse natural language into structured events (Groq/Llama)
  * POST /api/ai/parse-schedule
@@ -56,15 +90,67 @@ router.post('/parse-schedule-images', parseScheduleFromImages);
 /**
  * Generate productivity analytics for a date range
  * POST /api/ai/analytics
- * Body: { startDate: "2025-10-01", endDate: "2025-10-31" }
+ * Body: { startDate: "2025-10-01", endDate: "2025-10-31", groupBy?: "day" | "week" | "month" }
+ * Includes how each goal fared in every period overlapping the range
  */
 router.post('/analytics', generateAnalytics);
 
+/**
+ * Estimation accuracy from tracked events (see POST /api/events/:id/start)
+ * POST /api/ai/analytics/estimates
+ * Body: { startDate?, endDate? } (default: the last 90 days)
+ * Per category: planned vs actual minutes, typical overrun and whether it is
+ * chronically under- or overestimated
+ */
+router.post('/analytics/estimates', generateEstimateAnalytics);
+
+/**
+ * Weekly or monthly review against the previous period
+ * POST /api/ai/review
+ * Body: { period?: "week" | "month", date?: "2025-10-25" }
+ * Returns both periods' metrics (hours per category, completion rate, focus
+ * quality, balance score), the changes between them and a written review
+ */
+router.post('/review', generateReview);
+
 /**
  * Generate AI insight for a single task
  * POST /api/ai/task-insight
- * Body: { title, description, startTime, endTime, category }
+ * Body: { title, description, startTime, endTime, category, date?, refresh? }
  */
 router.post('/task-insight', generateTaskInsight);
 
+/**
+ * Place unscheduled tasks into free time, avoiding existing events
+ * POST /api/ai/auto-schedule
+ * Body: { tasks: [{ title, durationMinutes, priority?, deadline?, energy?, category? }],
+ *         startDate?, endDate?, workStart?, workEnd?, bufferMinutes?, commit? }
+ * Each placement comes with an explanation; commit: true saves them as events
+ */
+router.post('/auto-schedule', autoScheduleTasks);
+
+/**
+ * Edit existing events in natural language
+ * POST /api/ai/edit-events
+ * Body: { instruction: "cancel gym on Friday", startDate?, endDate? }
+ * Returns the matched events as a diff of updates, deletes and creates; posting
+ * that diff to /edit-events/apply writes it all-or-nothing
+ */
+router.post('/edit-events', planEdits);
+router.post('/edit-events/apply', applyEdits);
+
+/**
+ * Conversational scheduling assistant
+ * POST /api/ai/chat
+ * Body: { message: "Add a 45 minute run tomorrow morning", sessionId?: "uuid" }
+ * The assistant can read events and free time; event changes come back as a
+ * proposal that is only written once confirmed
+ */
+router.post('/chat', sendChatMessage);
+router.get('/chat/sessions', getChatSessions);
+router.get('/chat/sessions/:sessionId', getChatSessionDetail);
+router.delete('/chat/sessions/:sessionId', removeChatSession);
+router.post('/chat/sessions/:sessionId/proposals/:proposalId/confirm', confirmChatProposal);
+router.post('/chat/sessions/:sessionId/proposals/:proposalId/reject', rejectChatProposal);
+
 export default router;
@@ -0,0 +1,56 @@
+import express, { Router } from 'express';
+import {
+  exportCalendar,
+  getCalendarFeed,
+  createCalendarFeed,
+  deleteCalendarFeed,
+  serveCalendarFeed,
+  importCalendar
+} from '../controllers/calendar.controller';
+import { verifySupabaseToken } from '../middleware/supabaseAuth';
+
+const router = Router();
+
+/**
+ * Subscribable iCalendar feed (public, authenticated by the secret token in the URL)
+ * GET /api/calendar/feed/:token.ics
+ */
+router.get('/feed/:token.ics', serveCalendarFeed);
+
+// All other routes require authentication
+router.use(verifySupabaseToken);
+
+/**
+ * Export events in a date range as an .ics file
+ * GET /api/calendar/export
+ * Query params: ?startDate=2025-10-01&endDate=2025-10-31
+ */
+router.get('/export', exportCalendar);
+
+/**
+ * Import events from an iCalendar file (preview with dryRun before writing)
+ * POST /api/calendar/import
+ * Body: { ics: "BEGIN:VCALENDAR...", dryRun?: boolean, timeZone?: "America/Los_Angeles" }
+ * or a raw text/calendar body with ?dryRun=true&timeZone=...
+ */
+router.post('/import', express.text({ type: 'text/calendar', limit: '10mb' }), importCalendar);
+
+/**
+ * Get the user's calendar feed URLs
+ * GET /api/calendar/feed
+ */
+router.get('/feed', getCalendarFeed);
+
+/**
+ * Create the calendar feed, or rotate its token if one exists
+ * POST /api/calendar/feed
+ */
+router.post('/feed', createCalendarFeed);
+
+/**
+ * Revoke the calendar feed
+ * DELETE /api/calendar/feed
+ */
+router.delete('/feed', deleteCalendarFeed);
+
+export default router;
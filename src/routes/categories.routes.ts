@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import {
+  getCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  reclassifyCategories
+} from '../controllers/categories.controller';
+import { verifySupabaseToken } from '../middleware/supabaseAuth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(verifySupabaseToken);
+
+/**
+ * List the user's categories and the built-in ones still in effect
+ * GET /api/categories
+ */
+router.get('/', getCategories);
+
+/**
+ * Create a category
+ * POST /api/categories
+ * Body: { name: "deep work", group: "work" | "personal" | "health" | "other",
+ *         taskType?: "deep-work" | "meetings" | "admin" | "creative" | "other", colorHex?, emoji? }
+ */
+router.post('/', createCategory);
+
+/**
+ * Assign categories to stored events (uncategorized ones unless overwrite is set)
+ * POST /api/categories/reclassify
+ * Body: { startDate: "2025-10-01", endDate: "2025-10-31", overwrite?: false, dryRun?: false }
+ */
+router.post('/reclassify', reclassifyCategories);
+
+/**
+ * Update a category
+ * PUT /api/categories/:id
+ * Body: any of the fields accepted by POST /api/categories
+ */
+router.put('/:id', updateCategory);
+
+/**
+ * Delete a category
+ * DELETE /api/categories/:id
+ */
+router.delete('/:id', deleteCategory);
+
+export default router;
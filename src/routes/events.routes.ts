@@ -5,7 +5,14 @@ import {
   updateEvent,
   deleteEvent,
   batchSyncEvents,
-  deleteAllEvents
+  deleteAllEvents,
+  getEventChanges,
+  getEventConflicts,
+  getFreeSlots,
+  startEvent,
+  stopEvent,
+  completeEvent,
+  skipEvent
 } from '../controllers/events.controller';
 import { verifySupabaseToken } from '../middleware/supabaseAuth';
 
@@ -18,41 +25,92 @@ router.use(verifySupabaseToken);
  * Get all events for the authenticated user
  * GET /api/events
  * Query params: ?date=2025-10-25 or ?startDate=2025-10-01&endDate=2025-10-31
+ * Recurring events are expanded into occurrences (with occurrenceDate) inside the requested range
+ * Events overlapping the range are included, with their per-day `segments` inside it
  */
 router.get('/', getEvents);
 
+/**
+ * Delta sync: events created/updated and tombstones for events deleted since a cursor
+ * GET /api/events/changes
+ * Query params: ?since=<cursor from the previous response> (omit for a full snapshot), ?limit=500 (1-1000)
+ * Pages until `hasMore` is false; each response's cursor continues from its last row
+ */
+router.get('/changes', getEventChanges);
+
+/**
+ * Overlapping events in a date range (recurring series expanded)
+ * GET /api/events/conflicts
+ * Query params: ?startDate=2025-10-01&endDate=2025-10-31
+ */
+router.get('/conflicts', getEventConflicts);
+
+/**
+ * Ranked free slots for a task of a given length, preferring high-energy hours
+ * GET /api/events/free-slots
+ * Query params: ?startDate=2025-10-27&endDate=2025-10-31&durationMinutes=90
+ *   &workStart=9&workEnd=17 (decimal hours, default 9-17)&bufferMinutes=15&limit=10
+ */
+router.get('/free-slots', getFreeSlots);
+
 /**
  * Create a new event
  * POST /api/events
- * Body: { title, description?, startTime, endTime, date, emoji?, colorHex?, category?, participants?, isCompleted?, notificationSettings? }
+ * Body: { title, description?, startTime, endTime, date, endDate?, isAllDay?, emoji?, colorHex?, category?, participants?, isCompleted?, notificationSettings?, recurrenceRule?, recurrenceExceptions?, timeZone? }
+ * Query params: ?conflictMode=warn|strict (default warn) - overlaps with stored events are
+ * returned as `conflicts`, or rejected with 409 in strict mode
+ * recurrenceRule: RRULE such as "FREQ=WEEKLY;BYDAY=MO,WE,FR;UNTIL=20251231"
+ * endDate: last day of a multi-day event; an endTime before startTime without endDate means overnight
  */
 router.post('/', createEvent);
 
 /**
  * Batch sync events (for initial sync or bulk operations)
  * POST /api/events/batch
- * Body: { events: [...], clearExisting?: boolean }
+ * Body: { events: [...], clearExisting?: boolean, deleteMissing?: boolean }
+ * Upserts by localId and returns a per-item result: created | updated | unchanged | conflict | failed
+ * Items may carry the `version` they were edited from; a stale version yields "conflict" with the server copy
+ * Query params: ?conflictMode=warn|strict - overlapping items get `conflicts`, or fail in strict mode
  */
 router.post('/batch', batchSyncEvents);
 
 /**
  * Update an existing event
  * PUT /api/events/:id
- * Body: { title?, description?, startTime?, endTime?, date?, emoji?, colorHex?, category?, participants?, isCompleted?, notificationSettings? }
+ * Body: { title?, description?, startTime?, endTime?, date?, endDate?, isAllDay?, emoji?, colorHex?, category?, participants?, isCompleted?, notificationSettings?, recurrenceRule?, recurrenceExceptions?, timeZone? }
+ * Query params (recurring events): ?scope=this|following|all&occurrenceDate=2025-10-27
+ * Query params: ?conflictMode=warn|strict (see POST /api/events)
+ * Headers: If-Match: "<version>" (optional) - 409 with the current server copy if it changed
  */
 router.put('/:id', updateEvent);
 
 /**
- * Delete a specific event
- * DELETE /api/events/:id
+ * Track when an event is actually worked on
+ * POST /api/events/:id/start | /stop | /complete | /skip
+ * Body: { at?: ISO timestamp (default now), occurrenceDate? (required for recurring events),
+ *         actualStart?, actualEnd? (complete only, to log time after the fact) }
+ * Headers: If-Match: "<version>" (optional)
+ * The event's `tracking` shows its status, actual times and planned-vs-actual variance;
+ * an action that does not fit the current status (e.g. stopping an event never started) is a 409
  */
-router.delete('/:id', deleteEvent);
+router.post('/:id/start', startEvent);
+router.post('/:id/stop', stopEvent);
+router.post('/:id/complete', completeEvent);
+router.post('/:id/skip', skipEvent);
 
 /**
  * Delete all events for the authenticated user
  * DELETE /api/events/all
  * Use with caution - this is irreversible
+ * Registered before /:id so "all" is not treated as an event id
  */
 router.delete('/all', deleteAllEvents);
 
+/**
+ * Delete a specific event
+ * DELETE /api/events/:id
+ * Query params (recurring events): ?scope=this|following|all&occurrenceDate=2025-10-27
+ */
+router.delete('/:id', deleteEvent);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { getGoals, createGoal, updateGoal, deleteGoal } from '../controllers/goals.controller';
+import { verifySupabaseToken } from '../middleware/supabaseAuth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(verifySupabaseToken);
+
+/**
+ * List goals with their progress in the current period
+ * GET /api/goals
+ * Query params: ?date=2025-10-25 (any day in the period to report on; defaults to today)
+ */
+router.get('/', getGoals);
+
+/**
+ * Create a goal
+ * POST /api/goals
+ * Body: { category: "exercise", target: 5, metric?: "hours" | "count", period?: "day" | "week" | "month",
+ *         direction?: "min" | "max", completedOnly?: boolean, title? }
+ */
+router.post('/', createGoal);
+
+/**
+ * Update a goal
+ * PUT /api/goals/:id
+ * Body: any of the fields accepted by POST /api/goals
+ */
+router.put('/:id', updateGoal);
+
+/**
+ * Delete a goal
+ * DELETE /api/goals/:id
+ */
+router.delete('/:id', deleteGoal);
+
+export default router;
@@ -1,6 +1,11 @@
 import { Router } from 'express';
 import aiRoutes from './ai.routes';
 import eventsRoutes from './events.routes';
+import calendarRoutes from './calendar.routes';
+import profileRoutes from './profile.routes';
+import goalsRoutes from './goals.routes';
+import categoriesRoutes from './categories.routes';
+import remindersRoutes from './reminders.routes';
 
 const router = Router();
 
@@ -17,5 +22,10 @@ router.get('/health', (_req, res) => {
 
 router.use('/ai', aiRoutes);
 router.use('/events', eventsRoutes);
+router.use('/calendar', calendarRoutes);
+router.use('/profile', profileRoutes);
+router.use('/goals', goalsRoutes);
+router.use('/categories', categoriesRoutes);
+router.use('/reminders', remindersRoutes);
 
 export default router;
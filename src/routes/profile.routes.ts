@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { getProfile, updateProfile } from '../controllers/profile.controller';
+import { verifySupabaseToken } from '../middleware/supabaseAuth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(verifySupabaseToken);
+
+/**
+ * Get the user's profile
+ * GET /api/profile
+ */
+router.get('/', getProfile);
+
+/**
+ * Update the user's profile
+ * PUT /api/profile
+ * Body: { timeZone?: "America/Los_Angeles", workStart?: 9, workEnd?: 17, chronotype?: "early" | "intermediate" | "late",
+ *         energyWindows?: [{ start, end, level }] | null, idealBalance?: { work, personal, health } | null,
+ *         breakMinutes?: 15, defaultEventMinutes?: 30 }
+ */
+router.put('/', updateProfile);
+
+export default router;
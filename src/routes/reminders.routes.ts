@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { deliverReminders, getReminders, registerDevice, unregisterDevice } from '../controllers/reminders.controller';
+import { verifyCronSecret } from '../middleware/cronAuth';
+import { verifySupabaseToken } from '../middleware/supabaseAuth';
+
+const router = Router();
+
+/**
+ * Deliver due reminders (for schedulers, not users; needs CRON_SECRET)
+ * POST /api/reminders/deliver
+ * Headers: Authorization: Bearer <CRON_SECRET>
+ * Vercel Cron sends GET, so that works too.
+ */
+router.post('/deliver', verifyCronSecret, deliverReminders);
+router.get('/deliver', verifyCronSecret, deliverReminders);
+
+// All other routes require user authentication
+router.use(verifySupabaseToken);
+
+/**
+ * List upcoming reminders computed from the user's events, with delivery state
+ * GET /api/reminders
+ * Query params: ?days=7 (1-30; also includes reminders due in the last 15 minutes)
+ */
+router.get('/', getReminders);
+
+/**
+ * Register an iOS device for reminder pushes (APNs channel)
+ * PUT /api/reminders/devices
+ * Body: { token: "<hex APNs device token>" }
+ */
+router.put('/devices', registerDevice);
+
+/**
+ * Unregister a device
+ * DELETE /api/reminders/devices/:token
+ */
+router.delete('/devices/:token', unregisterDevice);
+
+export default router;
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { resolveEventSpan } from '../utils/events';
+import { DateString, EventSchema } from './event.schema';
+
+/**
+ * Shapes the AI features must produce before their output reaches a client
+ */
+
+// Same rules as a client-created event, including the multi-day span checks
+export const ParsedEventSchema = EventSchema.superRefine((event, ctx) => {
+  const { error } = resolveEventSpan(event);
+  if (error) {
+    ctx.addIssue({ code: 'custom', path: error.path, message: error.message });
+  }
+});
+
+export const INSIGHT_COUNT = 5;
+
+export const InsightSchema = z.string().trim().min(1).max(300);
+
+export const InsightsSchema = z.array(InsightSchema).length(INSIGHT_COUNT);
+
+export const TASK_INSIGHT_BULLETS = 2;
+
+export const TaskInsightSchema = z.string().refine(
+  text => text.split('\n').filter(line => line.startsWith('• ')).length === TASK_INSIGHT_BULLETS,
+  `Expected exactly ${TASK_INSIGHT_BULLETS} bullet points starting with "• "`
+);
+
+// One explanation per placement, in placement order
+export function explanationsSchema(count: number) {
+  return z.array(z.string().min(1)).length(count);
+}
+
+/**
+ * How an edit instruction refers to existing events. Resolved against the
+ * user's calendar by fuzzy title match plus the date/time filters.
+ */
+export const EventMatchSchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  date: DateString.optional(),
+  startsAfter: z.number().min(0).max(24).optional(), // Decimal hour, inclusive
+  startsBefore: z.number().min(0).max(24).optional(),
+  all: z.boolean().optional() // Every matching event ("everything after lunch") rather than the single best one
+}).refine(
+  match => match.title !== undefined || match.date !== undefined || match.startsAfter !== undefined || match.startsBefore !== undefined,
+  'A match needs at least a title, date or time filter'
+);
+
+const EditScopeSchema = z.enum(['this', 'following', 'all']).optional();
+
+export const EditOperationSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('update'),
+    match: EventMatchSchema,
+    changes: EventSchema.partial().default({}),
+    shiftMinutes: z.number().int().min(-1440).max(1440).refine(minutes => minutes !== 0, 'shiftMinutes cannot be 0').optional(),
+    scope: EditScopeSchema // Recurring events: defaults to just the matched occurrence
+  }).refine(
+    operation => operation.shiftMinutes !== undefined || Object.keys(operation.changes).length > 0,
+    'An update needs changes or shiftMinutes'
+  ),
+  z.object({
+    action: z.literal('delete'),
+    match: EventMatchSchema,
+    scope: EditScopeSchema
+  }),
+  z.object({
+    action: z.literal('create'),
+    event: ParsedEventSchema
+  })
+]);
+
+export type EventMatch = z.infer<typeof EventMatchSchema>;
+export type EditOperation = z.infer<typeof EditOperationSchema>;
+
+export const REVIEW_MAX_ITEMS = 5;
+
+const ReviewItemsSchema = z.array(z.string().trim().min(1).max(300)).max(REVIEW_MAX_ITEMS);
+
+/**
+ * Written review of one period against the previous one
+ */
+export const PeriodReviewSchema = z.object({
+  summary: z.string().trim().min(1).max(600),
+  wins: ReviewItemsSchema,
+  regressions: ReviewItemsSchema,
+  suggestions: ReviewItemsSchema.min(1) // Concrete steps for the next period
+});
+
+export type PeriodReview = z.infer<typeof PeriodReviewSchema>;
+
+/**
+ * One event labelled by the classifier; `index` refers to the list it was sent
+ */
+export const CategoryAssignmentSchema = z.object({
+  index: z.number().int().min(0),
+  category: z.string().trim().min(1)
+});
+
+export type CategoryAssignment = z.infer<typeof CategoryAssignmentSchema>;
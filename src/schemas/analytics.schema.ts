@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { DateString } from './event.schema';
+
+// Longest range one analytics request covers
+export const MAX_ANALYTICS_RANGE_DAYS = 366;
+
+export const AnalyticsRequestSchema = z.object({
+  startDate: DateString,
+  endDate: DateString,
+  groupBy: z.enum(['day', 'week', 'month']).default('day') // Bucket size of the chart series
+}).refine(value => value.startDate <= value.endDate, {
+  message: 'startDate must be on or before endDate',
+  path: ['endDate']
+});
+
+export type AnalyticsRequestInput = z.infer<typeof AnalyticsRequestSchema>;
+
+// Tracked history judged when an estimates request gives no startDate
+export const DEFAULT_ESTIMATE_RANGE_DAYS = 90;
+
+export const EstimatesRequestSchema = z.object({
+  startDate: DateString.optional(), // Defaults to 90 days before endDate
+  endDate: DateString.optional() // Defaults to today in the user's zone
+}).refine(value => !value.startDate || !value.endDate || value.startDate <= value.endDate, {
+  message: 'startDate must be on or before endDate',
+  path: ['endDate']
+});
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { DateString } from './event.schema';
+
+// Most categories one user can define (on top of the built-in ones)
+export const MAX_CATEGORIES = 100;
+
+// Longest range one re-classify request covers
+export const MAX_RECLASSIFY_RANGE_DAYS = 366;
+
+const CategoryFields = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  group: z.enum(['work', 'personal', 'health', 'other']), // Broad group for the balance score
+  taskType: z.enum(['deep-work', 'meetings', 'admin', 'creative', 'other']), // Drives the energy heatmap
+  colorHex: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'colorHex must look like #4A90E2').nullable(),
+  emoji: z.string().trim().min(1).max(16).nullable()
+});
+
+export const CategorySchema = CategoryFields.extend({
+  taskType: CategoryFields.shape.taskType.default('other'),
+  colorHex: CategoryFields.shape.colorHex.optional(),
+  emoji: CategoryFields.shape.emoji.optional()
+});
+
+export const CategoryUpdateSchema = CategoryFields.partial().refine(
+  value => Object.keys(value).length > 0,
+  'No changes given'
+);
+
+export const ReclassifySchema = z.object({
+  startDate: DateString,
+  endDate: DateString,
+  overwrite: z.boolean().default(false), // Also re-label events that already have a category
+  dryRun: z.boolean().default(false) // Report what would change without saving
+}).refine(value => value.startDate <= value.endDate, {
+  message: 'startDate must be on or before endDate',
+  path: ['endDate']
+});
+
+export type CategoryInput = z.infer<typeof CategorySchema>;
+export type CategoryUpdateInput = z.infer<typeof CategoryUpdateSchema>;
+export type ReclassifyInput = z.infer<typeof ReclassifySchema>;
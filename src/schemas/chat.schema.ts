@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { DateString, EventSchema } from './event.schema';
+
+export const ChatMessageSchema = z.object({
+  sessionId: z.string().uuid().optional(), // Omit to start a new conversation
+  message: z.string().trim().min(1, 'Message is required').max(2000)
+});
+
+// Most tool calls the model may make in one turn
+export const MAX_CHAT_TOOL_CALLS = 10;
+
+const requiresOccurrence = {
+  check: (args: { scope?: string; occurrenceDate?: string }) =>
+    args.scope === undefined || args.scope === 'all' || args.occurrenceDate !== undefined,
+  message: 'occurrenceDate is required when scope is "this" or "following"'
+};
+
+const EventScope = {
+  scope: z.enum(['this', 'following', 'all']).optional(),
+  occurrenceDate: DateString.optional()
+};
+
+/**
+ * Tools the assistant can call. Reads run straight away; writes become a
+ * proposal the user has to confirm.
+ */
+export const ChatToolCallSchema = z.discriminatedUnion('tool', [
+  z.object({
+    tool: z.literal('list_events'),
+    args: z.object({ startDate: DateString, endDate: DateString })
+  }),
+  z.object({
+    tool: z.literal('find_free_time'),
+    args: z.object({
+      startDate: DateString,
+      endDate: DateString,
+      durationMinutes: z.number().int().min(5).max(1440),
+      workStart: z.number().min(0).max(24).optional(),
+      workEnd: z.number().min(0).max(24).optional()
+    })
+  }),
+  z.object({
+    tool: z.literal('create_event'),
+    args: z.object({ event: EventSchema })
+  }),
+  z.object({
+    tool: z.literal('update_event'),
+    args: z.object({ id: z.string().uuid(), changes: EventSchema.partial(), ...EventScope })
+      .refine(requiresOccurrence.check, { message: requiresOccurrence.message, path: ['occurrenceDate'] })
+  }),
+  z.object({
+    tool: z.literal('delete_event'),
+    args: z.object({ id: z.string().uuid(), ...EventScope })
+      .refine(requiresOccurrence.check, { message: requiresOccurrence.message, path: ['occurrenceDate'] })
+  })
+]);
+
+export const ChatTurnSchema = z.object({
+  reply: z.string().min(1),
+  toolCalls: z.array(ChatToolCallSchema).max(MAX_CHAT_TOOL_CALLS).default([])
+});
+
+export type ChatToolCall = z.infer<typeof ChatToolCallSchema>;
+export type ChatTurn = z.infer<typeof ChatTurnSchema>;
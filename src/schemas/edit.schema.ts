@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { DateString, EventSchema } from './event.schema';
+
+// Longest range an edit instruction is resolved against
+export const MAX_EDIT_RANGE_DAYS = 31;
+
+// Most changes one plan may apply
+export const MAX_EDIT_CHANGES = 50;
+
+export const EditEventsSchema = z.object({
+  instruction: z.string().trim().min(1, 'Instruction is required').max(1000),
+  startDate: DateString.optional(), // Defaults to today in the user's zone
+  endDate: DateString.optional() // Defaults to two weeks after startDate
+}).refine(value => !value.startDate || !value.endDate || value.startDate <= value.endDate, {
+  message: 'startDate must be on or before endDate',
+  path: ['endDate']
+});
+
+const EditTargetSchema = z.object({
+  eventId: z.string().uuid(),
+  scope: z.enum(['this', 'following', 'all']).optional(),
+  occurrenceDate: DateString.optional(),
+  expectedVersion: z.number().int().positive().optional() // Version the plan was built from
+}).refine(
+  value => value.scope === undefined || value.scope === 'all' || value.occurrenceDate !== undefined,
+  { message: 'occurrenceDate is required when scope is "this" or "following"', path: ['occurrenceDate'] }
+);
+
+/**
+ * A plan from POST /api/ai/edit-events sent back unchanged (or trimmed) to apply it.
+ * Descriptive fields such as `before`/`after` are ignored.
+ */
+export const ApplyEditsSchema = z.object({
+  updates: z.array(z.object({ changes: EventSchema.partial() }).and(EditTargetSchema)).default([]),
+  deletes: z.array(EditTargetSchema).default([]),
+  creates: z.array(z.object({ event: EventSchema })).default([])
+}).refine(
+  plan => plan.updates.length + plan.deletes.length + plan.creates.length > 0,
+  'The plan has no changes'
+).refine(
+  plan => plan.updates.length + plan.deletes.length + plan.creates.length <= MAX_EDIT_CHANGES,
+  `A plan can apply at most ${MAX_EDIT_CHANGES} changes`
+);
+
+export type EditEventsInput = z.infer<typeof EditEventsSchema>;
+export type ApplyEditsInput = z.infer<typeof ApplyEditsSchema>;
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { isValidRRule } from '../utils/recurrence';
+import { isValidTimeZone } from '../utils/timezone';
+
+export const DateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+export const EventSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().optional(),
+  startTime: z.number().min(0).max(24),
+  endTime: z.number().min(0).max(24),
+  date: DateString,
+  // Last day the event touches; omit for single-day events (an endTime before startTime means overnight)
+  endDate: DateString.nullable().optional(),
+  isAllDay: z.boolean().optional(),
+  emoji: z.string().optional(),
+  colorHex: z.string().optional(),
+  category: z.string().optional(),
+  participants: z.array(z.string()).optional(),
+  isCompleted: z.boolean().optional(),
+  notificationSettings: z.object({
+    enabled: z.boolean(),
+    minutesBefore: z.array(z.number()),
+    notificationIds: z.array(z.string())
+  }).optional(),
+  localId: z.string().optional(), // Add localId field for iOS UUID tracking
+  // RFC 5545 RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10". `date` is the first occurrence.
+  recurrenceRule: z.string()
+    .refine(isValidRRule, 'Unsupported or invalid recurrence rule')
+    .nullable()
+    .optional(),
+  recurrenceExceptions: z.array(DateString).optional(), // Occurrence dates removed from the series
+  // IANA zone the wall-clock start/end times belong to; defaults to the user's zone
+  timeZone: z.string().refine(isValidTimeZone, 'Invalid IANA time zone').nullable().optional(),
+  // Version the client last saw; batch sync rejects the item with a conflict if the server has moved on
+  version: z.number().int().positive().optional()
+});
+
+// Items are validated one by one so a bad event fails alone instead of the whole batch
+export const BatchEventSchema = z.object({
+  events: z.array(z.unknown()),
+  clearExisting: z.boolean().optional(), // Option to clear existing events before batch insert
+  deleteMissing: z.boolean().optional() // Delete stored events whose localId is not in this batch
+});
+
+export type EventInput = z.infer<typeof EventSchema>;
+
+/**
+ * Which part of a recurring series an update or delete applies to
+ */
+export const RecurrenceScopeSchema = z.object({
+  scope: z.enum(['this', 'following', 'all']).default('all'),
+  occurrenceDate: DateString.optional()
+}).refine(
+  value => value.scope === 'all' || value.occurrenceDate !== undefined,
+  { message: 'occurrenceDate is required when scope is "this" or "following"', path: ['occurrenceDate'] }
+);
+
+/**
+ * How writes treat overlaps with stored events: report them (warn) or reject the write (strict)
+ */
+export const ConflictModeSchema = z.object({
+  conflictMode: z.enum(['warn', 'strict']).default('warn')
+});
+
+export const ConflictsQuerySchema = z.object({
+  startDate: DateString,
+  endDate: DateString
+}).refine(value => value.startDate <= value.endDate, {
+  message: 'startDate must be on or before endDate',
+  path: ['endDate']
+});
+
+// Query strings arrive as text, so numbers are coerced
+export const FreeSlotsQuerySchema = z.object({
+  startDate: DateString,
+  endDate: DateString,
+  durationMinutes: z.coerce.number().int().min(5).max(1440),
+  workStart: z.coerce.number().min(0).max(24).default(9),
+  workEnd: z.coerce.number().min(0).max(24).default(17),
+  bufferMinutes: z.coerce.number().int().min(0).max(240).default(0),
+  limit: z.coerce.number().int().min(1).max(50).default(10)
+}).refine(value => value.startDate <= value.endDate, {
+  message: 'startDate must be on or before endDate',
+  path: ['endDate']
+}).refine(value => value.workStart < value.workEnd, {
+  message: 'workStart must be before workEnd',
+  path: ['workEnd']
+});
+
+const Timestamp = z.iso.datetime({ offset: true });
+
+/**
+ * Body of the start/stop/complete/skip actions. `at` defaults to now;
+ * complete also accepts the actual start and end when logging after the fact.
+ */
+export const TrackingActionSchema = z.object({
+  at: Timestamp.optional(),
+  occurrenceDate: DateString.optional(), // Required for recurring events
+  actualStart: Timestamp.optional(),
+  actualEnd: Timestamp.optional()
+}).refine(
+  value => !value.actualStart || !value.actualEnd || Date.parse(value.actualStart) <= Date.parse(value.actualEnd),
+  { message: 'actualStart must be before actualEnd', path: ['actualEnd'] }
+);
+
+export type TrackingActionInput = z.infer<typeof TrackingActionSchema>;
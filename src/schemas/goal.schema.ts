@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+// Most goals one user can keep
+export const MAX_GOALS = 50;
+
+const GoalFields = z.object({
+  title: z.string().trim().min(1).max(100).nullable(),
+  // An event category (case-insensitive), or work/personal/health for every category in that group
+  category: z.string().trim().min(1, 'Category is required').max(50),
+  metric: z.enum(['hours', 'count']),
+  target: z.number().positive().max(1000),
+  period: z.enum(['day', 'week', 'month']),
+  direction: z.enum(['min', 'max']), // At least the target, or no more than it
+  completedOnly: z.boolean() // Only completed events count towards the goal
+});
+
+export const GoalSchema = GoalFields.extend({
+  title: GoalFields.shape.title.optional(),
+  metric: GoalFields.shape.metric.default('hours'),
+  period: GoalFields.shape.period.default('week'),
+  direction: GoalFields.shape.direction.default('min'),
+  completedOnly: GoalFields.shape.completedOnly.default(false)
+});
+
+export const GoalUpdateSchema = GoalFields.partial().refine(
+  value => Object.keys(value).length > 0,
+  'No changes given'
+);
+
+export type GoalInput = z.infer<typeof GoalSchema>;
+export type GoalUpdateInput = z.infer<typeof GoalUpdateSchema>;
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { isValidTimeZone } from '../utils/timezone';
+
+const Hour = z.number().min(0).max(24);
+const Percent = z.number().min(0).max(100);
+
+const EnergyWindowSchema = z.object({
+  start: Hour,
+  end: Hour,
+  level: z.enum(['high', 'medium', 'low'])
+}).refine(window => window.start < window.end, {
+  message: 'start must be before end',
+  path: ['end']
+});
+
+export const ProfileSchema = z.object({
+  // Null clears the stored zone, so dates fall back to UTC
+  timeZone: z.string().refine(isValidTimeZone, 'Invalid IANA time zone').nullable(),
+  workStart: Hour,
+  workEnd: Hour,
+  chronotype: z.enum(['early', 'intermediate', 'late']),
+  // Overrides the chronotype's energy curve; null goes back to it
+  energyWindows: z.array(EnergyWindowSchema).min(1).max(8).refine(windows => {
+    const sorted = [...windows].sort((a, b) => a.start - b.start);
+    return sorted.every((window, i) => i === 0 || window.start >= sorted[i - 1].end);
+  }, 'Energy windows must not overlap').nullable(),
+  // Null goes back to the default 60/25/15 mix
+  idealBalance: z.object({
+    work: Percent,
+    personal: Percent,
+    health: Percent
+  }).refine(mix => mix.work + mix.personal + mix.health <= 100, 'Percentages cannot add up to more than 100').nullable(),
+  breakMinutes: z.number().int().min(0).max(120),
+  defaultEventMinutes: z.number().int().min(5).max(720)
+}).partial();
+
+export type ProfileInput = z.infer<typeof ProfileSchema>;
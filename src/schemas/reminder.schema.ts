@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// Furthest ahead GET /api/reminders looks
+export const MAX_REMINDER_DAYS = 30;
+
+export const UpcomingRemindersQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(MAX_REMINDER_DAYS).default(7)
+});
+
+export const DeviceTokenSchema = z.object({
+  // APNs device tokens are hex strings
+  token: z.string().trim().regex(/^[0-9a-fA-F]{64,200}$/, 'Invalid APNs device token')
+});
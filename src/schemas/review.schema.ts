@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { DateString } from './event.schema';
+
+export const ReviewRequestSchema = z.object({
+  period: z.enum(['week', 'month']).default('week'),
+  date: DateString.optional() // Any day in the period; defaults to today in the user's zone
+});
+
+export type ReviewRequestInput = z.infer<typeof ReviewRequestSchema>;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+const DateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const EnergyLevelSchema = z.enum(['high', 'medium', 'low']);
+
+export const ScheduleTaskSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().optional(),
+  durationMinutes: z.number().int().min(5).max(720),
+  priority: z.enum(['high', 'medium', 'low']).default('medium'),
+  deadline: DateString.optional(), // Last date the task may be placed on
+  energy: EnergyLevelSchema.optional(), // Preferred energy level; inferred from the category when omitted
+  category: z.string().optional(),
+  emoji: z.string().optional(),
+  colorHex: z.string().optional()
+});
+
+export const AutoScheduleSchema = z.object({
+  tasks: z.array(ScheduleTaskSchema).min(1, 'At least one task is required').max(50),
+  startDate: DateString.optional(), // Defaults to today in the user's zone
+  endDate: DateString.optional(), // Defaults to the latest deadline, or a week from startDate
+  workStart: z.number().min(0).max(24).default(9),
+  workEnd: z.number().min(0).max(24).default(17),
+  bufferMinutes: z.number().int().min(0).max(120).default(10),
+  commit: z.boolean().default(false) // Save the placements as events
+}).refine(value => value.workStart < value.workEnd, {
+  message: 'workStart must be before workEnd',
+  path: ['workEnd']
+}).refine(value => !value.startDate || !value.endDate || value.startDate <= value.endDate, {
+  message: 'startDate must be on or before endDate',
+  path: ['endDate']
+});
+
+export type ScheduleTask = z.infer<typeof ScheduleTaskSchema>;
+export type AutoScheduleInput = z.infer<typeof AutoScheduleSchema>;
@@ -6,6 +6,7 @@ import { env } from './config/env';
 import { errorHandler } from './middleware/errorHandler';
 import { generalLimiter } from './middleware/rateLimiter';
 import routes from './routes';
+import { startReminderScheduler } from './services/reminders.service';
 
 const app: Application = express();
 
@@ -16,6 +17,7 @@ app.use(helmet());
 app.use(cors({
   origin: env.CORS_ORIGIN,
   credentials: true,
+  exposedHeaders: ['ETag'],
 }));
 
 // Body parsing middleware (increased limit for image uploads)
@@ -46,6 +48,10 @@ const startServer = () => {
       console.log('==============================================');
       console.log('Powered by Groq AI & Gemini');
       console.log('Data from Supabase\n');
+
+      if (startReminderScheduler()) {
+        console.log(`Reminders: delivering through ${env.REMINDER_CHANNEL} every ${env.REMINDER_INTERVAL_SECONDS}s\n`);
+      }
     });
   } catch (error) {
     console.error('Failed to start server:', error);
@@ -0,0 +1,263 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../config/env';
+import { CategoryAssignmentSchema } from '../schemas/ai.schema';
+import { CategoryInput, CategoryUpdateInput } from '../schemas/category.schema';
+import { EventInput } from '../schemas/event.schema';
+import {
+  buildCategoryRegistry,
+  categoryKey,
+  CategoryDefinition,
+  CategoryRegistry,
+  guessCategory,
+  toCategoryDefinition
+} from '../utils/categories';
+import { fetchEventRows, updateEventRow } from './events.service';
+import { generateValidatedList, GenerateOptions, isFeatureAvailable } from './llm';
+
+const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+
+// Events sent to the model in one classification call
+const CLASSIFY_BATCH_SIZE = 40;
+
+// Most stored events one re-classify request looks at
+const MAX_RECLASSIFY_EVENTS = 500;
+
+export interface Classification {
+  index: number;
+  category: CategoryDefinition;
+  source: 'keywords' | 'ai';
+}
+
+export interface ReclassifyResult {
+  changes: { id: string; title: string; date: string; from: string | null; to: string; source: Classification['source'] }[];
+  unclassified: number; // Events neither keywords nor the model could place
+  failed: number; // Events that changed while being re-classified, or could not be saved
+  truncated: boolean; // More than MAX_RECLASSIFY_EVENTS events were in range; run again for the rest
+}
+
+function toDbCategory(category: Partial<CategoryInput>) {
+  const row: Record<string, any> = {};
+  if (category.name !== undefined) row.name = category.name;
+  if (category.group !== undefined) row.broad_group = category.group;
+  if (category.taskType !== undefined) row.task_type = category.taskType;
+  if (category.colorHex !== undefined) row.color_hex = category.colorHex;
+  if (category.emoji !== undefined) row.emoji = category.emoji;
+  return row;
+}
+
+/**
+ * The user's own categories, oldest first
+ */
+export async function listCategoryRows(userId: string): Promise<{ data: any[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  return { data, error };
+}
+
+export async function insertCategoryRow(userId: string, category: CategoryInput): Promise<{ data: any | null; error: any }> {
+  const { data, error } = await supabase
+    .from('categories')
+    .insert({ user_id: userId, ...toDbCategory(category) })
+    .select()
+    .single();
+
+  return { data, error };
+}
+
+/**
+ * Update one of the user's categories; null data when it does not exist
+ */
+export async function updateCategoryRow(
+  userId: string,
+  id: string,
+  updates: CategoryUpdateInput
+): Promise<{ data: any | null; error: any }> {
+  const { data, error } = await supabase
+    .from('categories')
+    .update({ ...toDbCategory(updates), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  return { data, error };
+}
+
+export async function deleteCategoryRow(userId: string, id: string): Promise<{ data: any[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('categories')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  return { data, error };
+}
+
+/**
+ * Built-in categories plus the user's own. Best effort: on a read failure the
+ * built-in ones are still used.
+ */
+export async function getCategoryRegistry(userId: string): Promise<CategoryRegistry> {
+  const { data, error } = await listCategoryRows(userId);
+  if (error) {
+    console.error('Error fetching categories:', error);
+  }
+
+  return buildCategoryRegistry((data || []).map(toCategoryDefinition));
+}
+
+function classifyRequest(events: { index: number; title: string; description?: string | null }[], registry: CategoryRegistry): GenerateOptions {
+  const categories = [...registry.values()].map(definition => `- ${definition.name} (${definition.group})`).join('\n');
+  return {
+    messages: [
+      {
+        role: 'system',
+        content: `You label calendar events with one category from this list:
+${categories}
+
+Return ONLY a JSON array of {"index": <event index>, "category": "<name from the list>"}.
+Leave out events that fit none of the categories; never invent a category.`
+      },
+      {
+        role: 'user',
+        content: JSON.stringify(events.map(({ index, title, description }) => ({ index, title, description: description || undefined })))
+      }
+    ],
+    temperature: 0.2,
+    maxTokens: 1000
+  };
+}
+
+// Model answers that name a registry category for an event that was asked about
+async function classifyWithModel(
+  events: { index: number; title: string; description?: string | null }[],
+  registry: CategoryRegistry
+): Promise<Classification[]> {
+  const classified: Classification[] = [];
+
+  for (let start = 0; start < events.length; start += CLASSIFY_BATCH_SIZE) {
+    const batch = events.slice(start, start + CLASSIFY_BATCH_SIZE);
+    const asked = new Set(batch.map(event => event.index));
+
+    try {
+      const { data } = await generateValidatedList('classify', classifyRequest(batch, registry), {
+        key: 'assignments',
+        itemSchema: CategoryAssignmentSchema
+      });
+
+      for (const assignment of data) {
+        const category = registry.get(categoryKey(assignment.category));
+        if (category && asked.has(assignment.index)) {
+          asked.delete(assignment.index);
+          classified.push({ index: assignment.index, category, source: 'ai' });
+        }
+      }
+    } catch (error) {
+      // Keyword matches still stand; the rest stay uncategorized
+      console.error('Error classifying events:', error);
+    }
+  }
+
+  return classified;
+}
+
+/**
+ * Categories for the events that have none: keyword matches first, then the
+ * model for the rest when it is configured. Events neither can place are left
+ * out of the result.
+ */
+export async function classifyEvents(
+  events: { title: string; description?: string | null; category?: string | null }[],
+  registry: CategoryRegistry
+): Promise<Classification[]> {
+  const classified: Classification[] = [];
+  const unmatched: { index: number; title: string; description?: string | null }[] = [];
+
+  events.forEach((event, index) => {
+    if (event.category?.trim()) return;
+    const category = guessCategory(event, registry);
+    if (category) {
+      classified.push({ index, category, source: 'keywords' });
+    } else {
+      unmatched.push({ index, title: event.title, description: event.description });
+    }
+  });
+
+  if (unmatched.length > 0 && isFeatureAvailable('classify')) {
+    classified.push(...await classifyWithModel(unmatched, registry));
+  }
+
+  return classified.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * `events` with a category filled in where they had none and one could be found
+ */
+export async function categorizeEventInputs(userId: string, events: EventInput[]): Promise<EventInput[]> {
+  if (!events.some(event => !event.category?.trim())) {
+    return events;
+  }
+
+  const classified = await classifyEvents(events, await getCategoryRegistry(userId));
+  const categorized = [...events];
+  for (const { index, category } of classified) {
+    categorized[index] = { ...events[index], category: category.name };
+  }
+  return categorized;
+}
+
+/**
+ * Classify the stored events in `range` (recurring series as one event each)
+ * and save the new categories. Only uncategorized events are looked at unless
+ * `overwrite` is set; `dryRun` reports the changes without saving them.
+ */
+export async function reclassifyEvents(
+  userId: string,
+  range: { from: string; to: string },
+  options: { overwrite: boolean; dryRun: boolean }
+): Promise<{ data: ReclassifyResult | null; error: any }> {
+  const { data: rows, error } = await fetchEventRows(userId, range, { expand: false });
+  if (error || !rows) {
+    return { data: null, error };
+  }
+
+  const candidates = rows.filter(row => options.overwrite || !row.category?.trim());
+  const batch = candidates.slice(0, MAX_RECLASSIFY_EVENTS);
+  const classified = await classifyEvents(
+    batch.map(row => ({ title: row.title, description: row.description, category: null })),
+    await getCategoryRegistry(userId)
+  );
+
+  const result: ReclassifyResult = {
+    changes: [],
+    unclassified: batch.length - classified.length,
+    failed: 0,
+    truncated: candidates.length > batch.length
+  };
+
+  for (const { index, category, source } of classified) {
+    const row = batch[index];
+    if (row.category && categoryKey(row.category) === categoryKey(category.name)) continue;
+
+    if (!options.dryRun) {
+      const { data: updated, error: updateError } = await updateEventRow(row, {
+        category: category.name,
+        updated_at: new Date().toISOString()
+      });
+      if (updateError || !updated) {
+        if (updateError) console.error('Error saving event category:', updateError);
+        result.failed++;
+        continue;
+      }
+    }
+
+    result.changes.push({ id: row.id, title: row.title, date: row.date, from: row.category || null, to: category.name, source });
+  }
+
+  return { data: result, error: null };
+}
@@ -0,0 +1,193 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../config/env';
+
+const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+
+export type ChatRole = 'user' | 'assistant' | 'tool';
+
+export type ProposalStatus = 'pending' | 'applying' | 'applied' | 'rejected' | 'superseded' | 'failed';
+
+export interface ChatMessageRow {
+  session_id: string;
+  user_id: string;
+  role: ChatRole;
+  content: string;
+  tool_calls?: unknown[] | null;
+  proposal_id?: string | null;
+}
+
+/**
+ * Start a conversation
+ */
+export async function createChatSession(userId: string, title: string): Promise<{ data: any | null; error: any }> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .insert({ user_id: userId, title })
+    .select()
+    .single();
+
+  return { data, error };
+}
+
+/**
+ * Fetch one of the user's conversations
+ */
+export async function getChatSession(userId: string, id: string): Promise<{ data: any | null; error: any }> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return { data, error };
+}
+
+/**
+ * The user's conversations, most recently active first
+ */
+export async function listChatSessions(userId: string): Promise<{ data: any[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  return { data, error };
+}
+
+/**
+ * Delete a conversation; its messages and proposals cascade
+ */
+export async function deleteChatSession(userId: string, id: string): Promise<{ data: any[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  return { data, error };
+}
+
+/**
+ * Mark a conversation as active now
+ */
+export async function touchChatSession(id: string): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  return { error };
+}
+
+/**
+ * The latest `limit` messages of a conversation, oldest first
+ */
+export async function fetchChatMessages(sessionId: string, limit: number): Promise<{ data: any[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('seq', { ascending: false }) // Identity column: insert order, even within one batch
+    .limit(limit);
+
+  return { data: data ? data.reverse() : null, error };
+}
+
+/**
+ * Append messages to a conversation, keeping their order
+ */
+export async function insertChatMessages(rows: ChatMessageRow[]): Promise<{ error: any }> {
+  if (rows.length === 0) {
+    return { error: null };
+  }
+
+  const { error } = await supabase.from('chat_messages').insert(rows);
+  return { error };
+}
+
+/**
+ * Save a set of proposed event changes awaiting confirmation
+ */
+export async function insertChatProposal(
+  userId: string,
+  sessionId: string,
+  changes: unknown[]
+): Promise<{ data: any | null; error: any }> {
+  const { data, error } = await supabase
+    .from('chat_proposals')
+    .insert({ user_id: userId, session_id: sessionId, changes, status: 'pending' })
+    .select()
+    .single();
+
+  return { data, error };
+}
+
+/**
+ * Fetch one proposal from the user's conversation
+ */
+export async function getChatProposal(
+  userId: string,
+  sessionId: string,
+  id: string
+): Promise<{ data: any | null; error: any }> {
+  const { data, error } = await supabase
+    .from('chat_proposals')
+    .select('*')
+    .eq('id', id)
+    .eq('session_id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return { data, error };
+}
+
+/**
+ * A conversation's proposals, oldest first
+ */
+export async function fetchChatProposals(sessionId: string): Promise<{ data: any[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('chat_proposals')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  return { data, error };
+}
+
+/**
+ * Compare-and-swap status change: only applies while the proposal is still in
+ * `from`. Null data means someone else moved it first (e.g. a double confirm).
+ */
+export async function transitionChatProposal(
+  id: string,
+  from: ProposalStatus,
+  to: ProposalStatus,
+  results: unknown[] | null = null
+): Promise<{ data: any | null; error: any }> {
+  const resolved = to !== 'pending' && to !== 'applying';
+  const { data, error } = await supabase
+    .from('chat_proposals')
+    .update({ status: to, results, resolved_at: resolved ? new Date().toISOString() : null })
+    .eq('id', id)
+    .eq('status', from)
+    .select()
+    .maybeSingle();
+
+  return { data, error };
+}
+
+/**
+ * A new message replaces whatever the assistant proposed before it
+ */
+export async function supersedeChatProposals(sessionId: string): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('chat_proposals')
+    .update({ status: 'superseded', resolved_at: new Date().toISOString() })
+    .eq('session_id', sessionId)
+    .eq('status', 'pending');
+
+  return { error };
+}
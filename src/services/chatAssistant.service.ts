@@ -0,0 +1,233 @@
+import { ChatToolCall, ChatTurnSchema } from '../schemas/chat.schema';
+import { findFreeSlots } from '../utils/availability';
+import { diffDays } from '../utils/date';
+import { describeNow, toZonedParts } from '../utils/timezone';
+import {
+  ChatMessageRow,
+  fetchChatMessages,
+  insertChatMessages,
+  insertChatProposal,
+  supersedeChatProposals,
+  touchChatSession
+} from './chat.service';
+import { previewChange, ProposedChange } from './eventMutations.service';
+import { fetchEventRows } from './events.service';
+import { generateValidated, LLMMessage } from './llm';
+
+// Model calls per user message: read-tool round trips plus the final answer
+const MAX_TOOL_ROUNDS = 4;
+
+// Earlier messages replayed to the model
+const HISTORY_LIMIT = 40;
+
+// Longest range list_events / find_free_time look at
+const MAX_TOOL_RANGE_DAYS = 31;
+
+const FALLBACK_REPLY = "Sorry, I couldn't work that out. Could you rephrase it?";
+
+export interface ChatTurnResult {
+  reply: string;
+  proposal: any | null;
+  toolCalls: ChatToolCall[]; // Read tools that ran while answering
+  error?: any; // Persistence failure; the reply is still usable
+}
+
+function systemPrompt(timeZone: string): string {
+  return `You are DayRhythm's scheduling assistant. ${describeNow(timeZone)}.
+Times are 24-hour decimal hours (15.5 = 3:30pm) in the user's time zone; dates are YYYY-MM-DD.
+
+Answer with ONLY a JSON object, no other text:
+{"reply": "message for the user", "toolCalls": [{"tool": "<name>", "args": {...}}]}
+
+Tools:
+- list_events {"startDate", "endDate"}: the user's events in a range (at most ${MAX_TOOL_RANGE_DAYS} days)
+- find_free_time {"startDate", "endDate", "durationMinutes", "workStart"?, "workEnd"?}: open slots
+- create_event {"event": {"title", "startTime", "endTime", "date", "description"?, "emoji"?, "colorHex"?, "category"?, "recurrenceRule"?}}
+- update_event {"id", "changes": {fields to change}, "scope"?: "this"|"following"|"all", "occurrenceDate"?}
+- delete_event {"id", "scope"?, "occurrenceDate"?}
+
+Rules:
+- list_events and find_free_time results arrive in the next message. Call them on their own and wait for the results before proposing changes.
+- create_event, update_event and delete_event are NOT applied directly: they are shown to the user to confirm. Say so in the reply.
+- Only use event ids returned by list_events. For one occurrence of a recurring event pass scope "this" and its occurrenceDate.
+- When the user adjusts an earlier proposal ("make it 45 minutes"), propose the complete corrected set of changes again.
+- Leave toolCalls empty when no tool is needed.`;
+}
+
+// Stored messages as the model sees them; tool output goes back as a user turn
+function toLLMMessage(row: any): LLMMessage {
+  if (row.role === 'tool') {
+    return { role: 'user', content: `Tool results:\n${row.content}` };
+  }
+  if (row.role === 'assistant') {
+    return { role: 'assistant', content: JSON.stringify({ reply: row.content, toolCalls: row.tool_calls || [] }) };
+  }
+  return { role: 'user', content: row.content };
+}
+
+function isReadTool(call: ChatToolCall): boolean {
+  return call.tool === 'list_events' || call.tool === 'find_free_time';
+}
+
+// The compact event shape the model reads
+function describeForModel(row: any) {
+  return {
+    id: row.id,
+    title: row.title,
+    date: row.date,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    ...(row.end_date && row.end_date !== row.date ? { endDate: row.end_date } : {}),
+    ...(row.is_all_day ? { isAllDay: true } : {}),
+    ...(row.recurrence_rule ? { recurring: true, occurrenceDate: row.occurrence_date ?? row.date } : {}),
+    ...(row.category ? { category: row.category } : {})
+  };
+}
+
+async function runReadTool(userId: string, call: ChatToolCall, timeZone: string): Promise<unknown> {
+  if (call.tool !== 'list_events' && call.tool !== 'find_free_time') {
+    return { error: 'Not a read tool' };
+  }
+
+  const { startDate, endDate } = call.args;
+  if (startDate > endDate || diffDays(startDate, endDate) > MAX_TOOL_RANGE_DAYS) {
+    return { error: `startDate must be on or before endDate and at most ${MAX_TOOL_RANGE_DAYS} days apart` };
+  }
+
+  const { data: rows, error } = await fetchEventRows(userId, { from: startDate, to: endDate }, { timeZone });
+  if (error || !rows) {
+    console.error('Chat tool error:', error);
+    return { error: 'Could not read the calendar' };
+  }
+
+  if (call.tool === 'list_events') {
+    return { events: rows.map(describeForModel) };
+  }
+
+  const slots = findFreeSlots(rows, {
+    from: startDate,
+    to: endDate,
+    durationHours: call.args.durationMinutes / 60,
+    workStart: call.args.workStart ?? 9,
+    workEnd: call.args.workEnd ?? 17,
+    notBefore: toZonedParts(new Date(), timeZone)
+  }).slice(0, 10);
+
+  return { slots: slots.map(({ date, startTime, endTime, energy }) => ({ date, startTime, endTime, energy })) };
+}
+
+// Write tool calls in the shape the mutation service previews and applies
+function toChangeRequest(call: ChatToolCall) {
+  switch (call.tool) {
+    case 'create_event':
+      return { action: 'create' as const, event: call.args.event };
+    case 'update_event':
+      return { action: 'update' as const, eventId: call.args.id, changes: call.args.changes, scope: call.args.scope, occurrenceDate: call.args.occurrenceDate };
+    case 'delete_event':
+      return { action: 'delete' as const, eventId: call.args.id, scope: call.args.scope, occurrenceDate: call.args.occurrenceDate };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Dry-run a write tool call into a change the user can confirm
+ */
+async function previewWriteTool(
+  userId: string,
+  call: ChatToolCall,
+  timeZone: string
+): Promise<{ change?: ProposedChange; error?: string }> {
+  const request = toChangeRequest(call);
+  return request ? previewChange(userId, request, timeZone) : { error: 'Not a write tool' };
+}
+
+/**
+ * Answer one user message. Read tools run immediately and their results go back
+ * to the model; write tools are dry-run into a pending proposal. Anything the
+ * assistant proposed earlier in the session is superseded.
+ */
+export async function runChatTurn(
+  userId: string,
+  sessionId: string,
+  message: string,
+  timeZone: string
+): Promise<ChatTurnResult> {
+  const { data: history, error: historyError } = await fetchChatMessages(sessionId, HISTORY_LIMIT);
+  if (historyError) {
+    return { reply: '', proposal: null, toolCalls: [], error: historyError };
+  }
+
+  await supersedeChatProposals(sessionId);
+
+  const row = (fields: Omit<ChatMessageRow, 'session_id' | 'user_id'>): ChatMessageRow =>
+    ({ session_id: sessionId, user_id: userId, ...fields });
+
+  const newRows: ChatMessageRow[] = [row({ role: 'user', content: message })];
+  const messages: LLMMessage[] = [
+    { role: 'system', content: systemPrompt(timeZone) },
+    ...(history || []).map(toLLMMessage),
+    { role: 'user', content: message }
+  ];
+
+  const toolCalls: ChatToolCall[] = [];
+  let reply = FALLBACK_REPLY;
+  let changes: ProposedChange[] = [];
+  let writes: ChatToolCall[] = [];
+
+  for (let round = 1; round <= MAX_TOOL_ROUNDS; round++) {
+    writes = [];
+    changes = [];
+    const { data: turn } = await generateValidated('chat', { messages, temperature: 0.3, maxTokens: 1500 }, {
+      schema: ChatTurnSchema,
+      repairInstruction: 'Return ONLY the JSON object {"reply": "...", "toolCalls": [...]}, no other text.'
+    });
+
+    if (!turn) break;
+    reply = turn.reply;
+
+    const reads = turn.toolCalls.filter(isReadTool);
+    writes = turn.toolCalls.filter(call => !isReadTool(call));
+    const lastRound = round === MAX_TOOL_ROUNDS;
+
+    let results: unknown[];
+    if (reads.length > 0 && !lastRound) {
+      results = await Promise.all(reads.map(async call => ({ tool: call.tool, result: await runReadTool(userId, call, timeZone) })));
+      toolCalls.push(...reads);
+    } else {
+      const previews = await Promise.all(writes.map(call => previewWriteTool(userId, call, timeZone)));
+      changes = previews.filter(preview => preview.change).map(preview => preview.change!);
+      const failures = previews
+        .map((preview, index) => ({ tool: writes[index].tool, args: writes[index].args, error: preview.error }))
+        .filter(failure => failure.error);
+
+      // Let the model correct changes that could not be prepared
+      if (failures.length === 0 || lastRound) break;
+      results = failures;
+    }
+
+    const assistantRow = row({ role: 'assistant', content: turn.reply, tool_calls: turn.toolCalls });
+    const toolRow = row({ role: 'tool', content: JSON.stringify(results) });
+    newRows.push(assistantRow, toolRow);
+    messages.push(toLLMMessage(assistantRow), toLLMMessage(toolRow));
+  }
+
+  let proposal: any = null;
+  if (changes.length > 0) {
+    const { data, error } = await insertChatProposal(userId, sessionId, changes);
+    if (error) {
+      return { reply, proposal: null, toolCalls, error };
+    }
+    proposal = data;
+  }
+
+  newRows.push(row({ role: 'assistant', content: reply, tool_calls: writes, proposal_id: proposal?.id ?? null }));
+
+  const { error } = await insertChatMessages(newRows);
+  if (error) {
+    return { reply, proposal, toolCalls, error };
+  }
+  await touchChatSession(sessionId);
+
+  return { reply, proposal, toolCalls };
+}
@@ -0,0 +1,93 @@
+import { fetchEventRows } from './events.service';
+import { EventSchema } from '../schemas/event.schema';
+import {
+  convertEventRowToZone,
+  DateWindow,
+  expandEventRows,
+  getEventEnd,
+  resolveEventSpan,
+  toDbEvent,
+  transformEvent
+} from '../utils/events';
+import { eventsOverlap } from '../utils/conflicts';
+import { addDays } from '../utils/date';
+
+// How far ahead a recurring candidate's occurrences are checked
+const RECURRING_CONFLICT_HORIZON_DAYS = 90;
+
+function candidateWindow(row: any): DateWindow {
+  return {
+    from: row.date,
+    to: row.recurrence_rule ? addDays(row.date, RECURRING_CONFLICT_HORIZON_DAYS) : getEventEnd(row).endDate
+  };
+}
+
+/**
+ * Stored events (expanded into occurrences) that overlap each candidate row.
+ * Candidates are event rows about to be written; `exclude` filters out stored
+ * rows the write replaces, such as the event being edited.
+ * Returns one list per candidate, in the same order, with rows in `timeZone`.
+ */
+export async function findEventConflicts(
+  userId: string,
+  candidates: any[],
+  options: { timeZone?: string; exclude?: (row: any) => boolean } = {}
+): Promise<{ data: any[][] | null; error: any }> {
+  const { timeZone, exclude } = options;
+  if (candidates.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const windows = candidates.map(candidateWindow);
+  const fullWindow = {
+    from: windows.reduce((min, window) => (window.from < min ? window.from : min), windows[0].from),
+    to: windows.reduce((max, window) => (window.to > max ? window.to : max), windows[0].to)
+  };
+
+  const { data: stored, error } = await fetchEventRows(userId, fullWindow, { timeZone });
+  if (error || !stored) {
+    return { data: null, error };
+  }
+
+  const others = exclude ? stored.filter(row => !exclude(row)) : stored;
+
+  const conflicts = candidates.map((candidate, i) => {
+    const occurrences = expandEventRows([candidate], windows[i])
+      .map(row => (timeZone ? convertEventRowToZone(row, timeZone) : row));
+    return others.filter(row => occurrences.some(occurrence => eventsOverlap(occurrence, row)));
+  });
+
+  return { data: conflicts, error: null };
+}
+
+/**
+ * Attach `conflicts` (the stored events each one overlaps) to AI-parsed events.
+ * Parsed times are already in `timeZone`; events that fail validation get none.
+ * Annotation is best effort, so a lookup failure leaves the events as they were.
+ */
+export async function annotateEventConflicts(userId: string, events: any[], timeZone: string): Promise<any[]> {
+  if (!Array.isArray(events) || events.length === 0) {
+    return events;
+  }
+
+  const checkable = events
+    .map((event, index) => ({ index, result: EventSchema.safeParse(event) }))
+    .filter(({ result }) => result.success && !resolveEventSpan(result.data!).error);
+
+  const { data: conflictLists, error } = await findEventConflicts(
+    userId,
+    checkable.map(({ result }) => toDbEvent(userId, { ...result.data!, timeZone })),
+    { timeZone }
+  );
+
+  if (error || !conflictLists) {
+    console.error('Error checking parsed events for conflicts:', error);
+    return events;
+  }
+
+  const conflictsByIndex = new Map(checkable.map(({ index }, i) => [index, conflictLists[i]]));
+  return events.map((event, index) => ({
+    ...event,
+    conflicts: (conflictsByIndex.get(index) || []).map(transformEvent)
+  }));
+}
@@ -0,0 +1,59 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../config/env';
+
+const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+
+/**
+ * APNs device tokens the user's phones registered for reminder pushes
+ */
+export async function listDeviceTokens(userId: string): Promise<{ data: string[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('device_tokens')
+    .select('token')
+    .eq('user_id', userId);
+
+  return { data: data ? data.map(row => row.token) : null, error };
+}
+
+/**
+ * Register a device token for the user. A token moves to whoever registered it
+ * last, since a phone can change hands.
+ */
+export async function upsertDeviceToken(userId: string, token: string): Promise<{ data: any | null; error: any }> {
+  const { data, error } = await supabase
+    .from('device_tokens')
+    .upsert({
+      user_id: userId,
+      token,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'token' })
+    .select()
+    .single();
+
+  return { data, error };
+}
+
+export async function deleteDeviceToken(userId: string, token: string): Promise<{ data: any[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('device_tokens')
+    .delete()
+    .eq('user_id', userId)
+    .eq('token', token)
+    .select('token');
+
+  return { data, error };
+}
+
+/**
+ * Forget a token APNs reports as no longer valid, whoever it belongs to
+ */
+export async function removeStaleDeviceToken(token: string): Promise<void> {
+  const { error } = await supabase
+    .from('device_tokens')
+    .delete()
+    .eq('token', token);
+
+  if (error) {
+    console.error('Error removing device token:', error);
+  }
+}
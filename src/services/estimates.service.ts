@@ -0,0 +1,28 @@
+import { CategoryEstimate, calculateEstimateAccuracy, describeEstimateBias } from '../utils/tracking';
+import { fetchTrackedEventRows } from './events.service';
+
+export interface EstimateReport {
+  overall: CategoryEstimate | null;
+  categories: CategoryEstimate[];
+  warnings: string[]; // One per category that reliably runs long or short
+}
+
+/**
+ * Planned-vs-actual accuracy of the user's tracked events in `window`
+ */
+export async function getEstimateReport(
+  userId: string,
+  window: { from: string; to: string }
+): Promise<{ data: EstimateReport | null; error: any }> {
+  const { data: rows, error } = await fetchTrackedEventRows(userId, window);
+  if (error || !rows) {
+    return { data: null, error };
+  }
+
+  const { overall, categories } = calculateEstimateAccuracy(rows);
+  const warnings = categories
+    .map(describeEstimateBias)
+    .filter((warning): warning is string => warning !== null);
+
+  return { data: { overall, categories, warnings }, error: null };
+}
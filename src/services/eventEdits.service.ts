@@ -0,0 +1,269 @@
+import { EditOperation, EditOperationSchema, EventMatch } from '../schemas/ai.schema';
+import { EventInput } from '../schemas/event.schema';
+import { normalizeParsedEvent } from '../utils/aiNormalize';
+import { addDays, formatClock } from '../utils/date';
+import { convertEventRowToZone, getEventEnd } from '../utils/events';
+import { titleSimilarity } from '../utils/fuzzy';
+import { describeNow, todayInZone } from '../utils/timezone';
+import { ChangeRequest, previewChange, ProposedChange, RecurrenceScope } from './eventMutations.service';
+import { fetchEventRows, getEventRow } from './events.service';
+import { generateValidatedList, ValidationReport } from './llm';
+
+// Fuzzy title score an event needs to count as the one meant
+const MATCH_THRESHOLD = 0.5;
+
+// Scores this close to the best one are equally good matches
+const TIE_MARGIN = 0.05;
+
+// Candidates listed when an instruction could mean several events
+const MAX_CANDIDATES = 5;
+
+export interface EditCandidate {
+  eventId: string;
+  title: string;
+  date: string;
+  startTime: number;
+  endTime: number;
+  occurrenceDate: string | null;
+  score: number;
+}
+
+export interface UnresolvedEdit {
+  index: number; // Operation the model produced
+  action: EditOperation['action'];
+  reason: 'no_match' | 'ambiguous' | 'duplicate' | 'invalid';
+  message: string;
+  match?: EventMatch;
+  candidates: EditCandidate[];
+}
+
+export interface EditPlan {
+  updates: ProposedChange[];
+  deletes: ProposedChange[];
+  creates: ProposedChange[];
+  unresolved: UnresolvedEdit[];
+}
+
+function systemPrompt(timeZone: string, window: { from: string; to: string }, rows: any[]): string {
+  const events = rows.length > 0
+    ? rows.map(row => `- "${row.title}" ${row.date} ${row.is_all_day ? 'all day' : `${formatClock(row.start_time)}-${formatClock(row.end_time)}`}${row.recurrence_rule ? ' (repeats)' : ''}`).join('\n')
+    : '(none)';
+
+  return `You edit a user's calendar. ${describeNow(timeZone)}.
+Times are 24-hour decimal hours (13.5 = 1:30pm); dates are YYYY-MM-DD.
+
+The user's events from ${window.from} to ${window.to}:
+${events}
+
+Turn the user's instruction into operations. Answer with ONLY a JSON object, no other text:
+{"operations": [
+  {"action": "update", "match": {...}, "changes": {fields to set}, "shiftMinutes": 60, "scope": "this"},
+  {"action": "delete", "match": {...}, "scope": "this"},
+  {"action": "create", "event": {"title", "startTime", "endTime", "date", "description"?, "emoji"?, "colorHex"?, "category"?}}
+]}
+
+Rules:
+- "match" picks existing events from the list: {"title"?, "date"?, "startsAfter"?, "startsBefore"?, "all"?}.
+  Use the event's title as listed. Add "all": true when the instruction covers several events ("everything after lunch").
+- "shiftMinutes" moves an event and keeps its length (positive = later). Prefer it for "push back an hour" over new times.
+- "changes" uses event fields (title, startTime, endTime, date, description, category, ...). Omit fields that stay the same.
+- "scope" only matters for repeating events: "this" (default) the matched day only, "following" from that day on, "all" the whole series.
+- Only update or delete events that are in the list. Return {"operations": []} if the instruction asks for nothing.`;
+}
+
+/**
+ * Events that `match` describes. Without `all`, several equally good matches are
+ * ambiguous and returned as candidates instead.
+ */
+function matchEvents(rows: any[], match: EventMatch): { matches: any[]; candidates: EditCandidate[] } {
+  const scored = rows
+    .filter(row =>
+      (match.date === undefined || (row.date <= match.date && getEventEnd(row).endDate >= match.date))
+      && (match.startsAfter === undefined || (!row.is_all_day && row.start_time >= match.startsAfter))
+      && (match.startsBefore === undefined || (!row.is_all_day && row.start_time < match.startsBefore))
+    )
+    .map(row => ({ row, score: match.title ? titleSimilarity(match.title, row.title) : 1 }))
+    .filter(({ score }) => score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const toCandidate = ({ row, score }: { row: any; score: number }): EditCandidate => ({
+    eventId: row.id,
+    title: row.title,
+    date: row.date,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    occurrenceDate: row.occurrence_date ?? null,
+    score: Math.round(score * 100) / 100
+  });
+
+  if (scored.length === 0 || match.all) {
+    return { matches: scored.map(({ row }) => row), candidates: [] };
+  }
+
+  const best = scored.filter(({ score }) => scored[0].score - score <= TIE_MARGIN);
+  return best.length === 1
+    ? { matches: [best[0].row], candidates: [] }
+    : { matches: [], candidates: best.slice(0, MAX_CANDIDATES).map(toCandidate) };
+}
+
+/**
+ * The row's timing moved by `minutes`, rolling over into neighbouring days.
+ * All-day events have no times to shift.
+ */
+function shiftTiming(row: any, minutes: number): Partial<EventInput> | null {
+  if (row.is_all_day) return null;
+
+  const move = (date: string, hours: number) => {
+    const total = Math.round(hours * 60) + minutes;
+    const days = Math.floor(total / 1440);
+    return { date: addDays(date, days), hours: (total - days * 1440) / 60 };
+  };
+
+  const { endDate, endTime } = getEventEnd(row);
+  const start = move(row.date, row.start_time);
+  let end = move(endDate, endTime);
+  if (end.hours === 0 && end.date > start.date) {
+    end = { date: addDays(end.date, -1), hours: 24 };
+  }
+
+  return { date: start.date, startTime: start.hours, endTime: end.hours, endDate: end.date };
+}
+
+/**
+ * Changes for one matched event. `row` has been converted into the user's zone,
+ * so new times are anchored to that zone (floating events stay floating).
+ */
+function resolveUpdate(
+  row: any,
+  operation: Extract<EditOperation, { action: 'update' }>,
+  timeZone: string
+): Partial<EventInput> | null {
+  let changes: Partial<EventInput> = { ...operation.changes };
+
+  if (operation.shiftMinutes !== undefined) {
+    const shifted = shiftTiming(row, operation.shiftMinutes);
+    if (!shifted) return null;
+    changes = { ...shifted, ...changes };
+  }
+
+  const timingChanged = ['date', 'startTime', 'endTime', 'endDate', 'isAllDay']
+    .some(field => changes[field as keyof EventInput] !== undefined);
+
+  if (timingChanged && row.time_zone) {
+    changes = { date: row.date, startTime: row.start_time, endTime: row.end_time, ...changes, timeZone };
+  }
+
+  return changes;
+}
+
+/**
+ * Resolve a natural-language edit instruction against the user's events in
+ * `window` into a diff of updates, deletes and creates. Every change is dry-run,
+ * so the plan only contains changes that would apply right now; anything that
+ * could not be matched or prepared is listed under `unresolved`.
+ * Throws LLMResponseError when the model returns no usable JSON.
+ */
+export async function planEventEdits(
+  userId: string,
+  instruction: string,
+  window: { from: string; to: string },
+  timeZone: string
+): Promise<{ data: { plan: EditPlan; validation: ValidationReport } | null; error: any }> {
+  const { data: rows, error } = await fetchEventRows(userId, window, { timeZone });
+  if (error || !rows) {
+    return { data: null, error };
+  }
+
+  const today = todayInZone(timeZone);
+  const { data: operations, report: validation } = await generateValidatedList('edit', {
+    messages: [
+      { role: 'system', content: systemPrompt(timeZone, window, rows) },
+      { role: 'user', content: instruction }
+    ],
+    temperature: 0.2,
+    maxTokens: 1500
+  }, {
+    key: 'operations',
+    itemSchema: EditOperationSchema,
+    normalizeItem: item => {
+      const operation = item as { action?: unknown; event?: unknown };
+      if (operation?.action !== 'create') return { value: item, changes: [] };
+      const event = normalizeParsedEvent(operation.event, { date: today });
+      return { value: { ...operation, event: event.value }, changes: event.changes };
+    }
+  });
+
+  const plan: EditPlan = { updates: [], deletes: [], creates: [], unresolved: [] };
+  const claimed = new Set<string>(); // Event (or occurrence) already changed by an earlier operation
+
+  for (const [index, operation] of operations.entries()) {
+    const unresolved = (reason: UnresolvedEdit['reason'], message: string, candidates: EditCandidate[] = []) =>
+      plan.unresolved.push({
+        index,
+        action: operation.action,
+        reason,
+        message,
+        ...(operation.action !== 'create' ? { match: operation.match } : {}),
+        candidates
+      });
+
+    if (operation.action === 'create') {
+      const { change, error: previewError } = await previewChange(userId, { action: 'create', event: operation.event }, timeZone);
+      if (change) plan.creates.push(change);
+      else unresolved('invalid', previewError!);
+      continue;
+    }
+
+    const { matches, candidates } = matchEvents(rows, operation.match);
+    if (candidates.length > 0) {
+      unresolved('ambiguous', 'Several events match; pick one', candidates);
+      continue;
+    }
+    if (matches.length === 0) {
+      unresolved('no_match', 'No event matches');
+      continue;
+    }
+
+    for (const row of matches) {
+      const recurring = Boolean(row.recurrence_rule);
+      const scope: RecurrenceScope | undefined = recurring ? operation.scope ?? 'this' : undefined;
+      const occurrenceDate = recurring && scope !== 'all' ? row.occurrence_date : undefined;
+
+      const key = `${row.id}:${occurrenceDate ?? ''}`;
+      if (claimed.has(key)) {
+        unresolved('duplicate', `"${row.title}" is already changed by an earlier operation`);
+        continue;
+      }
+      claimed.add(key);
+
+      const request: ChangeRequest = { action: operation.action, eventId: row.id, scope, occurrenceDate };
+
+      if (operation.action === 'update') {
+        // A whole-series change is anchored to its first occurrence, not the matched one
+        let base = row;
+        if (scope === 'all') {
+          const { data: series } = await getEventRow(userId, row.id);
+          if (series) base = convertEventRowToZone(series, timeZone);
+        }
+
+        const changes = resolveUpdate(base, operation, timeZone);
+        if (!changes) {
+          unresolved('invalid', `"${row.title}" is an all-day event and cannot be shifted by minutes`);
+          continue;
+        }
+        request.changes = changes;
+      }
+
+      const { change, error: previewError } = await previewChange(userId, request, timeZone);
+      if (!change) {
+        unresolved('invalid', `"${row.title}": ${previewError}`);
+      } else if (operation.action === 'update') {
+        plan.updates.push(change);
+      } else {
+        plan.deletes.push(change);
+      }
+    }
+  }
+
+  return { data: { plan, validation }, error: null };
+}
@@ -0,0 +1,538 @@
+import { EventInput } from '../schemas/event.schema';
+import { addDays, diffDays, formatClock } from '../utils/date';
+import { convertEventRowToZone, getEventEnd, resolveEventSpan, toDbEvent, toDbUpdates, transformEvent } from '../utils/events';
+import { findEventConflicts } from './conflicts.service';
+import {
+  addSeriesException,
+  deleteEventRows,
+  detachOccurrence,
+  fetchDetachedOccurrences,
+  getEventRow,
+  insertEventRows,
+  isSeriesOccurrence,
+  restoreEventRows,
+  splitSeries,
+  truncateSeries,
+  updateEventRow
+} from './events.service';
+
+/**
+ * Single-event create/update/delete shared by the events API and the chat
+ * assistant. Inputs are already schema-validated; outcomes are reported as a
+ * status the caller maps onto its own response shape.
+ */
+
+// Fields that change when or how long an event runs
+const TIMING_FIELDS = ['date', 'startTime', 'endTime', 'endDate', 'isAllDay'] as const;
+
+export type ConflictMode = 'warn' | 'strict';
+
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+export type MutationResult =
+  | { status: 'ok'; event: any | null; conflicts: any[]; message?: string }
+  | { status: 'invalid'; message: string; details?: unknown[] }
+  | { status: 'not_found' }
+  | { status: 'version_conflict'; current: any }
+  | { status: 'overlap'; conflicts: any[] }
+  | { status: 'failed'; error: any };
+
+interface WriteOptions {
+  timeZone?: string; // The user's zone: default for new events and the zone conflicts are compared in
+  conflictMode?: ConflictMode;
+  // Check everything and return the row as it would be saved, without writing
+  dryRun?: boolean;
+}
+
+interface ScopeOptions {
+  scope?: RecurrenceScope;
+  occurrenceDate?: string;
+}
+
+/**
+ * Create one event
+ */
+export async function createUserEvent(
+  userId: string,
+  eventData: EventInput,
+  options: WriteOptions
+): Promise<MutationResult> {
+  const { error: spanError } = resolveEventSpan(eventData);
+  if (spanError) {
+    return { status: 'invalid', message: 'Validation failed', details: [spanError] };
+  }
+
+  // Times are wall-clock times in the user's zone unless the event says otherwise
+  const dbEvent = toDbEvent(userId, {
+    ...eventData,
+    timeZone: eventData.timeZone === undefined ? options.timeZone : eventData.timeZone
+  });
+
+  const { data: conflictLists, error: conflictError } = await findEventConflicts(userId, [dbEvent], {
+    timeZone: options.timeZone
+  });
+
+  if (conflictError || !conflictLists) {
+    return { status: 'failed', error: conflictError };
+  }
+
+  const [conflicts] = conflictLists;
+  if (options.conflictMode === 'strict' && conflicts.length > 0) {
+    return { status: 'overlap', conflicts };
+  }
+
+  if (options.dryRun) {
+    return { status: 'ok', event: dbEvent, conflicts };
+  }
+
+  const { data, error } = await insertEventRows([dbEvent]);
+  if (error || !data) {
+    return { status: 'failed', error };
+  }
+
+  return { status: 'ok', event: data[0], conflicts };
+}
+
+/**
+ * Update one event, or part of a recurring series when `scope` is this/following
+ * (with `occurrenceDate`). `expectedVersion` is the version the client edited;
+ * null or undefined skips the check.
+ */
+export async function updateUserEvent(
+  userId: string,
+  id: string,
+  updates: Partial<EventInput>,
+  options: WriteOptions & ScopeOptions & { expectedVersion?: number | null }
+): Promise<MutationResult> {
+  const { scope = 'all', occurrenceDate } = options;
+
+  const { data: existing, error: fetchError } = await getEventRow(userId, id);
+
+  if (fetchError) {
+    return { status: 'failed', error: fetchError };
+  }
+
+  if (!existing) {
+    return { status: 'not_found' };
+  }
+
+  if (options.expectedVersion != null && options.expectedVersion !== (existing.version ?? 1)) {
+    return { status: 'version_conflict', current: existing };
+  }
+
+  const isScopedEdit = existing.recurrence_rule && scope !== 'all';
+  if (isScopedEdit && occurrenceDate !== existing.date && !isSeriesOccurrence(existing, occurrenceDate!)) {
+    return { status: 'invalid', message: 'occurrenceDate is not an occurrence of this event' };
+  }
+
+  const dbUpdates = toDbUpdates(updates);
+
+  // Re-resolve the event's span whenever any part of its timing changes
+  if (TIMING_FIELDS.some(field => updates[field] !== undefined)) {
+    // Scoped edits start from the occurrence being edited, not the series start
+    const baseDate = isScopedEdit ? occurrenceDate! : existing.date;
+    const newDate = updates.date ?? baseDate;
+    const existingSpanDays = diffDays(existing.date, getEventEnd(existing).endDate);
+    const timesChanged = updates.startTime !== undefined || updates.endTime !== undefined;
+
+    // Moving an event keeps its length in days. New times on a single or overnight
+    // event re-infer the end day instead, so 22:00-02:00 -> 09:00-10:00 stays on one day.
+    let endDate: string | null = null;
+    if (updates.endDate !== undefined) {
+      endDate = updates.endDate;
+    } else if (!timesChanged || existingSpanDays > 1) {
+      endDate = addDays(newDate, existingSpanDays);
+    }
+
+    const { span, error: spanError } = resolveEventSpan({
+      date: newDate,
+      startTime: updates.startTime ?? existing.start_time,
+      endTime: updates.endTime ?? existing.end_time,
+      endDate,
+      isAllDay: updates.isAllDay ?? existing.is_all_day ?? false
+    });
+
+    if (spanError || !span) {
+      return { status: 'invalid', message: 'Validation failed', details: [spanError] };
+    }
+
+    Object.assign(dbUpdates, {
+      start_time: span.startTime,
+      end_time: span.endTime,
+      end_date: span.endDate,
+      is_all_day: span.isAllDay
+    });
+  }
+
+  // What the edited event (or the occurrences it now covers) will look like once saved
+  const candidate = { ...existing, ...dbUpdates };
+  if (isScopedEdit) {
+    candidate.date = dbUpdates.date ?? occurrenceDate!;
+    candidate.end_date = dbUpdates.end_date ?? addDays(candidate.date, diffDays(existing.date, getEventEnd(existing).endDate));
+    if (scope === 'this') {
+      candidate.recurrence_rule = null;
+    }
+  }
+
+  // The event never conflicts with itself or its own series
+  const { data: conflictLists, error: conflictError } = await findEventConflicts(userId, [candidate], {
+    timeZone: options.timeZone,
+    exclude: row => row.id === existing.id
+  });
+
+  if (conflictError || !conflictLists) {
+    return { status: 'failed', error: conflictError };
+  }
+
+  const [conflicts] = conflictLists;
+  if (options.conflictMode === 'strict' && conflicts.length > 0) {
+    return { status: 'overlap', conflicts };
+  }
+
+  if (options.dryRun) {
+    return { status: 'ok', event: candidate, conflicts };
+  }
+
+  let updatedEvent: any;
+  let error: any;
+
+  if (isScopedEdit && occurrenceDate !== existing.date) {
+    ({ data: updatedEvent, error } = scope === 'this'
+      ? await detachOccurrence(existing, occurrenceDate!, dbUpdates)
+      : await splitSeries(existing, occurrenceDate!, dbUpdates));
+  } else if (existing.recurrence_rule && scope === 'this') {
+    // Editing only the first occurrence still detaches it from the series
+    ({ data: updatedEvent, error } = await detachOccurrence(existing, existing.date, dbUpdates));
+  } else {
+    ({ data: updatedEvent, error } = await updateEventRow(existing, dbUpdates));
+
+    // The row changed between our read and write
+    if (!error && !updatedEvent) {
+      const { data: latest, error: latestError } = await getEventRow(userId, id);
+      if (!latestError && latest) {
+        return { status: 'version_conflict', current: latest };
+      }
+      error = latestError;
+    }
+  }
+
+  if (error) {
+    return { status: 'failed', error };
+  }
+
+  if (!updatedEvent) {
+    return { status: 'not_found' };
+  }
+
+  return { status: 'ok', event: updatedEvent, conflicts };
+}
+
+/**
+ * Delete one event, or part of a recurring series when `scope` is this/following
+ * (with `occurrenceDate`). `event` is the series that remains after a partial delete.
+ */
+export async function deleteUserEvent(
+  userId: string,
+  id: string,
+  options: ScopeOptions & { dryRun?: boolean; expectedVersion?: number | null } = {}
+): Promise<MutationResult> {
+  const { scope = 'all', occurrenceDate } = options;
+
+  if (scope !== 'all' || options.dryRun || options.expectedVersion != null) {
+    const { data: existing, error: fetchError } = await getEventRow(userId, id);
+
+    if (fetchError) {
+      return { status: 'failed', error: fetchError };
+    }
+
+    if (!existing) {
+      return { status: 'not_found' };
+    }
+
+    if (options.expectedVersion != null && options.expectedVersion !== (existing.version ?? 1)) {
+      return { status: 'version_conflict', current: existing };
+    }
+
+    if (existing.recurrence_rule && scope !== 'all') {
+      if (!isSeriesOccurrence(existing, occurrenceDate!)) {
+        return { status: 'invalid', message: 'occurrenceDate is not an occurrence of this event' };
+      }
+
+      if (options.dryRun) {
+        return { status: 'ok', event: existing, conflicts: [] };
+      }
+
+      const { data: remaining, error } = scope === 'this'
+        ? await addSeriesException(existing, occurrenceDate!)
+        : await truncateSeries(existing, occurrenceDate!);
+
+      if (error) {
+        return { status: 'failed', error };
+      }
+
+      // Truncating at the first occurrence leaves nothing, so fall through to a full delete
+      if (remaining) {
+        return {
+          status: 'ok',
+          event: remaining,
+          conflicts: [],
+          message: scope === 'this' ? 'Occurrence deleted successfully' : 'Occurrences deleted successfully'
+        };
+      }
+    } else if (options.dryRun) {
+      return { status: 'ok', event: existing, conflicts: [] };
+    }
+  }
+
+  // Scoped to the user's own events; a series takes its detached occurrences with it
+  const { error } = await deleteEventRows(userId, { id });
+
+  if (error) {
+    return { status: 'failed', error };
+  }
+
+  return { status: 'ok', event: null, conflicts: [], message: 'Event deleted successfully' };
+}
+
+/**
+ * One create/update/delete as proposed to the user: enough to apply it later,
+ * plus a summary and before/after previews to show
+ */
+export interface ProposedChange {
+  action: 'create' | 'update' | 'delete';
+  summary: string;
+  eventId?: string;
+  event?: EventInput;
+  changes?: Partial<EventInput>;
+  scope?: RecurrenceScope;
+  occurrenceDate?: string;
+  expectedVersion?: number; // Version previewed; applying fails if the event changed since
+  before?: ReturnType<typeof transformEvent>;
+  after?: ReturnType<typeof transformEvent>;
+  conflicts: ReturnType<typeof transformEvent>[];
+}
+
+export type ChangeRequest = Omit<ProposedChange, 'summary' | 'before' | 'after' | 'conflicts'>;
+
+export function describeMutationFailure(result: Exclude<MutationResult, { status: 'ok' }>): string {
+  switch (result.status) {
+    case 'invalid':
+      return result.details ? `${result.message}: ${JSON.stringify(result.details)}` : result.message;
+    case 'not_found':
+      return 'No event with that id';
+    case 'version_conflict':
+      return 'The event was changed elsewhere';
+    case 'overlap':
+      return 'The event overlaps existing events';
+    case 'failed':
+      return 'The calendar could not be updated';
+  }
+}
+
+// A stored row as it looks on the occurrence being changed, in the viewer's zone
+function occurrenceView(row: any, occurrenceDate: string | undefined, timeZone: string) {
+  const shown = row.recurrence_rule && occurrenceDate
+    ? {
+      ...row,
+      date: occurrenceDate,
+      end_date: addDays(occurrenceDate, diffDays(row.date, getEventEnd(row).endDate)),
+      occurrence_date: occurrenceDate
+    }
+    : row;
+  return transformEvent(convertEventRowToZone(shown, timeZone));
+}
+
+/**
+ * Dry-run a change into something the user can confirm. The current version of
+ * an updated or deleted event is recorded unless the request already carries one.
+ */
+export async function previewChange(
+  userId: string,
+  request: ChangeRequest,
+  timeZone: string
+): Promise<{ change?: ProposedChange; error?: string }> {
+  if (request.action === 'create') {
+    const result = await createUserEvent(userId, request.event!, { timeZone, dryRun: true });
+    if (result.status !== 'ok') return { error: describeMutationFailure(result) };
+
+    const after = transformEvent(convertEventRowToZone(result.event, timeZone));
+    return {
+      change: {
+        ...request,
+        summary: `Create "${after.title}" on ${after.date} ${after.isAllDay ? '(all day)' : `${formatClock(after.startTime)}-${formatClock(after.endTime)}`}`,
+        after,
+        conflicts: result.conflicts.map(transformEvent)
+      }
+    };
+  }
+
+  const { eventId, scope, occurrenceDate } = request;
+  const { data: existing, error } = await getEventRow(userId, eventId!);
+  if (error) return { error: 'The calendar could not be read' };
+  if (!existing) return { error: 'No event with that id' };
+
+  const before = occurrenceView(existing, scope && scope !== 'all' ? occurrenceDate : undefined, timeZone);
+  const target = scope && scope !== 'all' ? ` (${scope === 'this' ? 'occurrence on' : 'from'} ${occurrenceDate})` : '';
+  const expectedVersion = request.expectedVersion ?? existing.version ?? 1;
+
+  if (request.action === 'delete') {
+    const result = await deleteUserEvent(userId, eventId!, { scope, occurrenceDate, expectedVersion, dryRun: true });
+    if (result.status !== 'ok') return { error: describeMutationFailure(result) };
+    return {
+      change: { ...request, summary: `Delete "${before.title}"${target}`, expectedVersion, before, conflicts: [] }
+    };
+  }
+
+  const changes = request.changes ?? {};
+  const result = await updateUserEvent(userId, eventId!, changes, { scope, occurrenceDate, expectedVersion, timeZone, dryRun: true });
+  if (result.status !== 'ok') return { error: describeMutationFailure(result) };
+  return {
+    change: {
+      ...request,
+      summary: `Update "${before.title}"${target}: ${Object.keys(changes).join(', ')}`,
+      expectedVersion,
+      before,
+      after: transformEvent(convertEventRowToZone(result.event, timeZone)),
+      conflicts: result.conflicts.map(transformEvent)
+    }
+  };
+}
+
+/**
+ * Apply one previously previewed change
+ */
+export function applyChange(userId: string, change: ChangeRequest, timeZone: string): Promise<MutationResult> {
+  const { eventId, scope, occurrenceDate, expectedVersion } = change;
+
+  if (change.action === 'create') {
+    return createUserEvent(userId, change.event!, { timeZone });
+  }
+  if (change.action === 'update') {
+    return updateUserEvent(userId, eventId!, change.changes ?? {}, { scope, occurrenceDate, expectedVersion, timeZone });
+  }
+  return deleteUserEvent(userId, eventId!, { scope, occurrenceDate, expectedVersion });
+}
+
+export interface AppliedChangeResult {
+  index: number;
+  action: ProposedChange['action'];
+  status: 'applied' | 'failed' | 'rolled_back' | 'skipped';
+  event?: ReturnType<typeof transformEvent> | null;
+  error?: string;
+}
+
+/**
+ * Apply changes all-or-nothing. Every change is dry-run first, so invalid or
+ * stale changes fail before anything is written. If a write still fails midway,
+ * rows created so far are deleted and the touched events are restored from
+ * snapshots taken beforehand (with versions moved past the ones written, so
+ * other devices pick the restored copy up).
+ */
+export async function applyChangesAtomically(
+  userId: string,
+  changes: ChangeRequest[],
+  timeZone: string
+): Promise<{ ok: boolean; rolledBack: boolean; results: AppliedChangeResult[]; error?: any }> {
+  const previews = await Promise.all(changes.map(change => previewChange(userId, change, timeZone)));
+
+  if (previews.some(preview => preview.error)) {
+    return {
+      ok: false,
+      rolledBack: false,
+      results: previews.map((preview, index) => ({
+        index,
+        action: changes[index].action,
+        status: preview.error ? 'failed' : 'skipped',
+        ...(preview.error ? { error: preview.error } : {})
+      }))
+    };
+  }
+
+  // Snapshot every row a change may touch, including a series' detached occurrences:
+  // deletes remove them and splits re-link them to the new series
+  const snapshots = new Map<string, any>();
+  for (const change of changes) {
+    if (!change.eventId || snapshots.has(change.eventId)) continue;
+
+    const { data: row, error } = await getEventRow(userId, change.eventId);
+    if (error || !row) {
+      return { ok: false, rolledBack: false, results: [], error: error ?? new Error('Event disappeared before applying') };
+    }
+    snapshots.set(row.id, row);
+
+    if (row.recurrence_rule) {
+      const { data: detached, error: detachedError } = await fetchDetachedOccurrences(userId, row.id);
+      if (detachedError || !detached) {
+        return { ok: false, rolledBack: false, results: [], error: detachedError };
+      }
+      detached.forEach(occurrence => snapshots.set(occurrence.id, occurrence));
+    }
+  }
+
+  const results: AppliedChangeResult[] = [];
+  const created: string[] = [];
+  const writes = new Map<string, number>(); // Our own writes per event, to skip re-checking versions we bumped
+
+  for (const [index, change] of changes.entries()) {
+    const touched = change.eventId ? writes.get(change.eventId) ?? 0 : 0;
+    const result = await applyChange(
+      userId,
+      touched > 0 ? { ...change, expectedVersion: undefined } : change,
+      timeZone
+    );
+
+    if (result.status === 'ok') {
+      if (change.eventId) writes.set(change.eventId, touched + 1);
+      // Creates, detached occurrences and split-off series are new rows
+      if (result.event && result.event.id !== change.eventId) created.push(result.event.id);
+      results.push({ index, action: change.action, status: 'applied', event: result.event ? transformEvent(result.event) : null });
+      continue;
+    }
+
+    if (result.status === 'failed') console.error('Error applying event change:', result.error);
+    results.push({ index, action: change.action, status: 'failed', error: describeMutationFailure(result) });
+
+    const { error: rollbackError } = await rollBack(userId, created, snapshots, writes);
+    if (rollbackError) {
+      console.error('Error rolling back event changes:', rollbackError);
+    }
+
+    return {
+      ok: false,
+      rolledBack: !rollbackError,
+      results: [
+        ...results.slice(0, index).map(applied => rollbackError
+          ? applied
+          : { index: applied.index, action: applied.action, status: 'rolled_back' as const }),
+        results[index],
+        ...changes.slice(index + 1).map((pending, offset) => ({
+          index: index + 1 + offset,
+          action: pending.action,
+          status: 'skipped' as const
+        }))
+      ],
+      error: rollbackError ?? undefined
+    };
+  }
+
+  return { ok: true, rolledBack: false, results };
+}
+
+// Undo the writes made so far by applyChangesAtomically
+async function rollBack(
+  userId: string,
+  created: string[],
+  snapshots: Map<string, any>,
+  writes: Map<string, number>
+): Promise<{ error: any }> {
+  if (created.length > 0) {
+    const { error } = await deleteEventRows(userId, { ids: created });
+    if (error) return { error };
+  }
+
+  const restore = [...snapshots.values()]
+    .filter(row => writes.has(row.id) || writes.has(row.recurring_event_id))
+    .map(row => ({ ...row, version: (row.version ?? 1) + (writes.get(row.id) ?? 0) + 1 }));
+
+  return restoreEventRows(userId, restore);
+}
@@ -0,0 +1,148 @@
+import { TrackingActionInput } from '../schemas/event.schema';
+import { getTrackingStatus, TrackingStatus } from '../utils/events';
+import { MutationResult } from './eventMutations.service';
+import { detachOccurrence, getEventRow, isSeriesOccurrence, updateEventRow } from './events.service';
+
+/**
+ * Start/stop/complete/skip actions that record when an event was actually
+ * worked on. A recurring event is tracked per occurrence: the occurrence is
+ * detached from its series first, like a "this occurrence" edit.
+ */
+
+export type TrackingAction = 'start' | 'stop' | 'complete' | 'skip';
+
+export type TrackingResult =
+  | MutationResult
+  | { status: 'invalid_transition'; message: string; current: any };
+
+// Statuses each action can be taken from
+const ALLOWED_FROM: Record<TrackingAction, TrackingStatus[]> = {
+  start: ['planned', 'skipped'],
+  stop: ['in_progress'],
+  complete: ['planned', 'in_progress', 'stopped', 'skipped'],
+  skip: ['planned', 'stopped']
+};
+
+const STATUS_LABELS: Record<TrackingStatus, string> = {
+  planned: 'not started',
+  in_progress: 'in progress',
+  stopped: 'stopped',
+  completed: 'completed',
+  skipped: 'skipped'
+};
+
+/**
+ * Column updates for `action` on a row currently in `status`, or an error
+ * message when the timestamps would run backwards
+ */
+function trackingUpdates(
+  action: TrackingAction,
+  row: any,
+  status: TrackingStatus,
+  input: TrackingActionInput
+): { updates: Record<string, any> | null; error?: string } {
+  const at = input.at ?? new Date().toISOString();
+  const now = new Date().toISOString();
+
+  switch (action) {
+    case 'start':
+      return {
+        updates: { tracking_status: 'in_progress', actual_start: at, actual_end: null, completed_at: null, is_completed: false, updated_at: now }
+      };
+    case 'stop':
+      if (Date.parse(at) < Date.parse(row.actual_start)) {
+        return { updates: null, error: 'Cannot stop before the event was started' };
+      }
+      return { updates: { tracking_status: 'stopped', actual_end: at, updated_at: now } };
+    case 'complete': {
+      const actualStart = input.actualStart ?? (status === 'skipped' ? null : row.actual_start ?? null);
+      let actualEnd = input.actualEnd ?? null;
+      if (!actualEnd && actualStart) {
+        // A running timer stops now; an already stopped one keeps its end
+        actualEnd = status === 'stopped' && !input.actualStart ? row.actual_end : at;
+      }
+      if (actualStart && actualEnd && Date.parse(actualEnd) < Date.parse(actualStart)) {
+        return { updates: null, error: 'Cannot complete before the event was started' };
+      }
+      return {
+        updates: { tracking_status: 'completed', actual_start: actualStart, actual_end: actualEnd, completed_at: at, is_completed: true, updated_at: now }
+      };
+    }
+    case 'skip':
+      return {
+        updates: { tracking_status: 'skipped', actual_start: null, actual_end: null, completed_at: null, is_completed: false, updated_at: now }
+      };
+  }
+}
+
+/**
+ * Apply a tracking action to one event (or, with `occurrenceDate`, one
+ * occurrence of a recurring event). `expectedVersion` works as for updates.
+ */
+export async function trackUserEvent(
+  userId: string,
+  id: string,
+  action: TrackingAction,
+  input: TrackingActionInput,
+  options: { expectedVersion?: number | null } = {}
+): Promise<TrackingResult> {
+  const { data: existing, error: fetchError } = await getEventRow(userId, id);
+
+  if (fetchError) {
+    return { status: 'failed', error: fetchError };
+  }
+
+  if (!existing) {
+    return { status: 'not_found' };
+  }
+
+  if (options.expectedVersion != null && options.expectedVersion !== (existing.version ?? 1)) {
+    return { status: 'version_conflict', current: existing };
+  }
+
+  const recurring = Boolean(existing.recurrence_rule);
+  if (recurring) {
+    if (!input.occurrenceDate) {
+      return { status: 'invalid', message: 'occurrenceDate is required to track a recurring event' };
+    }
+    if (input.occurrenceDate !== existing.date && !isSeriesOccurrence(existing, input.occurrenceDate)) {
+      return { status: 'invalid', message: 'occurrenceDate is not an occurrence of this event' };
+    }
+  }
+
+  // A series row is never tracked itself, so each occurrence starts out planned
+  const status = recurring ? 'planned' : getTrackingStatus(existing);
+  if (!ALLOWED_FROM[action].includes(status)) {
+    return {
+      status: 'invalid_transition',
+      message: `Cannot ${action} an event that is ${STATUS_LABELS[status]}`,
+      current: existing
+    };
+  }
+
+  const { updates, error: updateError } = trackingUpdates(action, recurring ? {} : existing, status, input);
+  if (!updates) {
+    return { status: 'invalid', message: updateError! };
+  }
+
+  if (recurring) {
+    const { data: detached, error } = await detachOccurrence(existing, input.occurrenceDate!, updates);
+    return error || !detached ? { status: 'failed', error } : { status: 'ok', event: detached, conflicts: [] };
+  }
+
+  const { data: updated, error } = await updateEventRow(existing, updates);
+  if (error) {
+    return { status: 'failed', error };
+  }
+
+  // The row changed between our read and write
+  if (!updated) {
+    const { data: latest, error: latestError } = await getEventRow(userId, id);
+    if (!latestError && latest) {
+      return { status: 'version_conflict', current: latest };
+    }
+    return latestError ? { status: 'failed', error: latestError } : { status: 'not_found' };
+  }
+
+  return { status: 'ok', event: updated, conflicts: [] };
+}
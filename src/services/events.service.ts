@@ -0,0 +1,565 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../config/env';
+import { convertEventRowToZone, expandEventRows, getEventEnd } from '../utils/events';
+import { addDays, diffDays, isValidDate } from '../utils/date';
+import { formatRRule, occursOn, splitRecurrence } from '../utils/recurrence';
+import { eventDateRange, invalidateInsights } from './insightCache.service';
+
+const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+
+/**
+ * Fetch a user's event rows for an optional date window.
+ *
+ * Recurring series are stored once (on their first date), so when a window is
+ * given we fetch single events overlapping it plus every series that started on or
+ * before its end, then expand the series into occurrences (unless `expand` is false, e.g. for
+ * iCalendar export where the RRULE itself is emitted).
+ * With `timeZone`, rows are converted into that zone before the window is applied.
+ * Without a complete window rows are returned as stored.
+ */
+export async function fetchEventRows(
+  userId: string,
+  window: { from?: string; to?: string } = {},
+  options: { expand?: boolean; timeZone?: string } = {}
+): Promise<{ data: any[] | null; error: any }> {
+  const { timeZone } = options;
+  const { from, to } = window;
+
+  if (!from || !to) {
+    let query = supabase
+      .from('events')
+      .select('*')
+      .eq('user_id', userId)
+      .order('date', { ascending: true })
+      .order('start_time', { ascending: true });
+
+    if (from) query = query.gte('date', from);
+    if (to) query = query.lte('date', to);
+
+    const { data, error } = await query;
+    return { data: timeZone && data ? data.map(row => convertEventRowToZone(row, timeZone)) : data, error };
+  }
+
+  if (!isValidDate(from) || !isValidDate(to)) {
+    return { data: null, error: new Error('Invalid date window') };
+  }
+
+  // Converting zones can move an event across midnight, so look one day further each way
+  const queryFrom = timeZone ? addDays(from, -1) : from;
+  const queryTo = timeZone ? addDays(to, 1) : to;
+
+  const [singles, series] = await Promise.all([
+    supabase
+      .from('events')
+      .select('*')
+      .eq('user_id', userId)
+      .is('recurrence_rule', null)
+      .lte('date', queryTo)
+      // Multi-day events that started earlier still overlap; rows without end_date may run overnight
+      .or(`end_date.gte.${queryFrom},and(end_date.is.null,date.gte.${addDays(queryFrom, -1)})`),
+    supabase
+      .from('events')
+      .select('*')
+      .eq('user_id', userId)
+      .not('recurrence_rule', 'is', null)
+      .lte('date', queryTo)
+  ]);
+
+  if (singles.error || series.error) {
+    return { data: null, error: singles.error || series.error };
+  }
+
+  const rows = [...(singles.data || []), ...(series.data || [])];
+
+  if (options.expand === false) {
+    return { data: rows, error: null };
+  }
+
+  const expanded = expandEventRows(rows, { from: queryFrom, to: queryTo });
+  if (!timeZone) {
+    return { data: expanded, error: null };
+  }
+
+  return {
+    data: expanded
+      .map(row => convertEventRowToZone(row, timeZone))
+      .filter(row => row.date <= to && getEventEnd(row).endDate >= from)
+      .sort((a, b) => a.date === b.date ? a.start_time - b.start_time : a.date < b.date ? -1 : 1),
+    error: null
+  };
+}
+
+/**
+ * Every user's events with reminders turned on that start in the date window
+ * (in their stored zones), with series expanded into occurrences. Used by the
+ * reminder scheduler, so it is not scoped to one user; rows are read `pageSize`
+ * at a time (single events first, then series) and yielded one page at a time.
+ */
+export async function* fetchReminderEventPages(
+  window: { from: string; to: string },
+  pageSize = 500
+): AsyncGenerator<{ data: any[] | null; error: any }> {
+  for (const recurring of [false, true]) {
+    let lastId: string | null = null;
+
+    while (true) {
+      let query = supabase
+        .from('events')
+        .select('*')
+        .eq('notification_settings->>enabled', 'true')
+        .lte('date', window.to)
+        .order('id', { ascending: true })
+        .limit(pageSize);
+
+      query = recurring
+        ? query.not('recurrence_rule', 'is', null)
+        : query.is('recurrence_rule', null).gte('date', window.from);
+      // Keyset paging, so rows written meanwhile cannot shift a page
+      if (lastId) query = query.gt('id', lastId);
+
+      const { data, error } = await query;
+      if (error || !data) {
+        yield { data: null, error };
+        return;
+      }
+
+      // Only the start matters for a reminder, so drop occurrences that merely run into the window
+      yield { data: expandEventRows(data, window).filter(row => row.date >= window.from), error: null };
+
+      if (data.length < pageSize) break;
+      lastId = data[data.length - 1].id;
+    }
+  }
+}
+
+/**
+ * Fetch a single event row owned by the user
+ */
+export async function getEventRow(userId: string, id: string): Promise<{ data: any | null; error: any }> {
+  const { data, error } = await supabase
+    .from('events')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return { data, error };
+}
+
+/**
+ * Insert new event rows (built with toDbEvent), returned in insert order
+ */
+export async function insertEventRows(rows: any[]): Promise<{ data: any[] | null; error: any }> {
+  if (rows.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const { data, error } = await supabase
+    .from('events')
+    .insert(rows)
+    .select();
+
+  if (data) {
+    await invalidateInsights(rows[0].user_id, data.map(eventDateRange));
+  }
+
+  return { data, error };
+}
+
+/**
+ * Compare-and-swap update: only applies if the row still has the version that
+ * was read, and bumps it. Null data means another writer got there first.
+ */
+export async function updateEventRow(
+  existing: any,
+  dbUpdates: Record<string, any>
+): Promise<{ data: any | null; error: any }> {
+  const currentVersion = existing.version ?? 1;
+
+  const { data, error } = await supabase
+    .from('events')
+    .update({ ...dbUpdates, version: currentVersion + 1 })
+    .eq('id', existing.id)
+    .eq('user_id', existing.user_id) // Ensure user owns this event
+    .eq('version', currentVersion)
+    .select()
+    .maybeSingle();
+
+  if (data) {
+    await invalidateInsights(existing.user_id, [eventDateRange(existing), eventDateRange(data)]);
+  }
+
+  return { data, error };
+}
+
+/**
+ * Whether `date` is a live (not excepted) occurrence of a recurring series row
+ */
+export function isSeriesOccurrence(series: any, date: string): boolean {
+  return occursOn(series.date, series.recurrence_rule, date)
+    && !(series.recurrence_exceptions || []).includes(date);
+}
+
+/**
+ * Remove a single occurrence from a series by recording it as an exception
+ */
+export async function addSeriesException(series: any, date: string): Promise<{ data: any | null; error: any }> {
+  const exceptions = [...new Set([...(series.recurrence_exceptions || []), date])].sort();
+
+  const { data, error } = await supabase
+    .from('events')
+    .update({
+      recurrence_exceptions: exceptions,
+      version: (series.version ?? 1) + 1,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', series.id)
+    .eq('user_id', series.user_id)
+    .select()
+    .single();
+
+  if (data) {
+    await invalidateInsights(series.user_id, [eventDateRange({ ...series, recurrence_rule: null, date, end_date: occurrenceEndDate(series, date) })]);
+  }
+
+  return { data, error };
+}
+
+/**
+ * End date of a series occurrence, keeping the series' length in days
+ */
+function occurrenceEndDate(series: any, occurrenceDate: string): string {
+  return addDays(occurrenceDate, diffDays(series.date, getEventEnd(series).endDate));
+}
+
+/**
+ * "This occurrence" edit: exclude the date from the series and store the
+ * edited instance as a standalone row linked back to the series.
+ */
+export async function detachOccurrence(
+  series: any,
+  occurrenceDate: string,
+  dbUpdates: Record<string, any>
+): Promise<{ data: any | null; error: any }> {
+  const { id: _id, ...seriesFields } = series;
+
+  const { data: detached, error } = await supabase
+    .from('events')
+    .insert({
+      ...seriesFields,
+      date: occurrenceDate,
+      end_date: occurrenceEndDate(series, occurrenceDate),
+      ...dbUpdates,
+      local_id: null,
+      recurrence_rule: null,
+      recurrence_exceptions: [],
+      recurring_event_id: series.id,
+      original_date: occurrenceDate,
+      version: 1,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  // The exception clears the occurrence's old day; the detached row may have moved
+  await invalidateInsights(series.user_id, [eventDateRange(detached)]);
+
+  const { error: exceptionError } = await addSeriesException(series, occurrenceDate);
+  return { data: detached, error: exceptionError };
+}
+
+/**
+ * End a series before `date`. Returns null data when nothing would remain
+ * (the cut is at or before the first occurrence) so the caller can delete the
+ * row instead.
+ */
+export async function truncateSeries(series: any, date: string): Promise<{ data: any | null; error: any }> {
+  if (date <= series.date) {
+    return { data: null, error: null };
+  }
+
+  const { head } = splitRecurrence(series.date, series.recurrence_rule, date);
+  if (!head) {
+    return { data: null, error: null };
+  }
+
+  await invalidateInsights(series.user_id, [{ from: addDays(date, -1), to: null }]);
+
+  // Edited occurrences past the cut go with it (a split has already moved them to the new series)
+  const { error: detachedError } = await deleteEventRows(series.user_id, {
+    recurringEventIds: [series.id],
+    originalDateFrom: date
+  });
+  if (detachedError) {
+    return { data: null, error: detachedError };
+  }
+
+  const { data, error } = await supabase
+    .from('events')
+    .update({
+      recurrence_rule: formatRRule(head),
+      recurrence_exceptions: (series.recurrence_exceptions || []).filter((d: string) => d < date),
+      version: (series.version ?? 1) + 1,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', series.id)
+    .eq('user_id', series.user_id)
+    .select()
+    .single();
+
+  return { data, error };
+}
+
+// Re-link the series' edited occurrences from `date` on to another series. Each
+// row gets a version bump so clients pick up the change; one that changes under
+// us is re-read and tried once more.
+async function moveDetachedOccurrences(series: any, newSeriesId: string, date: string): Promise<{ error: any }> {
+  const { data: detached, error } = await fetchDetachedOccurrences(series.user_id, series.id);
+  if (error || !detached) {
+    return { error };
+  }
+
+  for (const row of detached.filter(row => row.original_date >= date)) {
+    const changes = { recurring_event_id: newSeriesId, updated_at: new Date().toISOString() };
+    let { data: moved, error: moveError } = await updateEventRow(row, changes);
+    if (!moved && !moveError) {
+      const { data: latest, error: fetchError } = await getEventRow(series.user_id, row.id);
+      if (fetchError) return { error: fetchError };
+      if (!latest) continue; // Deleted in the meantime
+      ({ data: moved, error: moveError } = await updateEventRow(latest, changes));
+    }
+    if (moveError || !moved) {
+      return { error: moveError ?? new Error(`Event ${row.id} changed while its series was being split`) };
+    }
+  }
+
+  return { error: null };
+}
+
+/**
+ * "This and following" edit: end the original series before the occurrence
+ * and start a new series on it with the updates applied.
+ */
+export async function splitSeries(
+  series: any,
+  occurrenceDate: string,
+  dbUpdates: Record<string, any>
+): Promise<{ data: any | null; error: any }> {
+  const { tail } = splitRecurrence(series.date, series.recurrence_rule, occurrenceDate);
+  const { id: _id, ...seriesFields } = series;
+
+  const { data: newSeries, error } = await supabase
+    .from('events')
+    .insert({
+      ...seriesFields,
+      date: occurrenceDate,
+      end_date: occurrenceEndDate(series, occurrenceDate),
+      recurrence_rule: formatRRule(tail),
+      recurrence_exceptions: (series.recurrence_exceptions || []).filter((d: string) => d >= occurrenceDate),
+      ...dbUpdates,
+      local_id: null,
+      version: 1,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  await invalidateInsights(series.user_id, [eventDateRange(newSeries)]);
+
+  const { error: moveError } = await moveDetachedOccurrences(series, newSeries.id, occurrenceDate);
+  if (moveError) {
+    return { data: null, error: moveError };
+  }
+
+  const { data: head, error: truncateError } = await truncateSeries(series, occurrenceDate);
+  if (truncateError || head) {
+    return { data: newSeries, error: truncateError };
+  }
+
+  // No occurrence came before the split, so the new series replaces the old one
+  const { error: deleteError } = await deleteEventRows(series.user_id, { id: series.id });
+  return { data: newSeries, error: deleteError };
+}
+
+/**
+ * Record deleted rows so delta sync clients learn about the removal
+ */
+export async function recordTombstones(
+  userId: string,
+  rows: { id: string; local_id: string | null }[]
+): Promise<{ error: any }> {
+  if (rows.length === 0) {
+    return { error: null };
+  }
+
+  const deletedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('event_tombstones')
+    .insert(rows.map(row => ({
+      user_id: userId,
+      event_id: row.id,
+      local_id: row.local_id,
+      deleted_at: deletedAt
+    })));
+
+  return { error };
+}
+
+/**
+ * Delete a user's events (all of them, specific ids, or the detached occurrences
+ * of some series, optionally from an original date on) and leave tombstones behind for delta sync. Deleting a series
+ * also deletes its detached occurrences first, since the foreign key does not
+ * cascade and rows removed by Postgres would get no tombstone.
+ */
+export async function deleteEventRows(
+  userId: string,
+  filter: { id?: string; ids?: string[]; recurringEventIds?: string[]; originalDateFrom?: string } = {}
+): Promise<{ data: { id: string; local_id: string | null }[] | null; error: any }> {
+  const seriesIds = filter.ids ?? (filter.id ? [filter.id] : []);
+  let detached: { id: string; local_id: string | null }[] = [];
+  if (seriesIds.length > 0) {
+    const { data: detachedRows, error: detachedError } = await deleteEventRows(userId, { recurringEventIds: seriesIds });
+    if (detachedError) {
+      return { data: null, error: detachedError };
+    }
+    detached = detachedRows || [];
+  }
+
+  let query = supabase
+    .from('events')
+    .delete()
+    .eq('user_id', userId);
+
+  if (filter.id) query = query.eq('id', filter.id);
+  if (filter.ids) query = query.in('id', filter.ids);
+  if (filter.recurringEventIds) query = query.in('recurring_event_id', filter.recurringEventIds);
+  if (filter.originalDateFrom) query = query.gte('original_date', filter.originalDateFrom);
+
+  const { data, error } = await query.select('id, local_id, date, end_date, start_time, end_time, is_all_day, recurrence_rule');
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  // Deleting everything clears every cached day, including ones with no events left
+  const filtered = Boolean(filter.id || filter.ids || filter.recurringEventIds);
+  await invalidateInsights(userId, filtered ? (data || []).map(eventDateRange) : undefined);
+
+  const { error: tombstoneError } = await recordTombstones(userId, data || []);
+  return { data: [...detached, ...(data || [])], error: tombstoneError };
+}
+
+/**
+ * Standalone rows detached from a series (its edited occurrences)
+ */
+export async function fetchDetachedOccurrences(userId: string, seriesId: string): Promise<{ data: any[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('events')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('recurring_event_id', seriesId);
+
+  return { data, error };
+}
+
+/**
+ * Write snapshotted rows back as they were (re-creating deleted ones under their
+ * old ids) and drop the tombstones their deletion left
+ */
+export async function restoreEventRows(userId: string, rows: any[]): Promise<{ error: any }> {
+  if (rows.length === 0) {
+    return { error: null };
+  }
+
+  const { error } = await supabase
+    .from('events')
+    .upsert(rows.map(row => ({ ...row, user_id: userId, updated_at: new Date().toISOString() })), { onConflict: 'id' });
+
+  if (error) {
+    return { error };
+  }
+
+  await invalidateInsights(userId, rows.map(eventDateRange));
+
+  const { error: tombstoneError } = await supabase
+    .from('event_tombstones')
+    .delete()
+    .eq('user_id', userId)
+    .in('event_id', rows.map(row => row.id));
+
+  return { error: tombstoneError };
+}
+
+/**
+ * Rows with both actual start and end recorded, starting within the window.
+ * Only single rows can carry them (tracked occurrences are detached), so no
+ * expansion is needed.
+ */
+export async function fetchTrackedEventRows(
+  userId: string,
+  window: { from: string; to: string }
+): Promise<{ data: any[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('events')
+    .select('*')
+    .eq('user_id', userId)
+    .not('actual_start', 'is', null)
+    .not('actual_end', 'is', null)
+    .gte('date', window.from)
+    .lte('date', window.to)
+    .order('date', { ascending: true });
+
+  return { data, error };
+}
+
+// Keeps `in (...)` filters well under PostgREST URL length limits
+const LOOKUP_CHUNK_SIZE = 200;
+
+/**
+ * Fetch the user's rows carrying any of the given iOS local ids
+ */
+export async function fetchEventRowsByLocalIds(
+  userId: string,
+  localIds: string[]
+): Promise<{ data: any[] | null; error: any }> {
+  const rows: any[] = [];
+
+  for (let i = 0; i < localIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('events')
+      .select('*')
+      .eq('user_id', userId)
+      .in('local_id', localIds.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+    if (error) {
+      return { data: null, error };
+    }
+    rows.push(...(data || []));
+  }
+
+  return { data: rows, error: null };
+}
+
+/**
+ * Fetch id/local_id pairs for every event the user has
+ */
+export async function fetchEventKeys(
+  userId: string
+): Promise<{ data: { id: string; local_id: string | null }[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, local_id')
+    .eq('user_id', userId);
+
+  return { data, error };
+}
@@ -0,0 +1,167 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../config/env';
+import { GoalInput, GoalUpdateInput } from '../schemas/goal.schema';
+import { getPeriodBounds } from '../utils/date';
+import { calculateGoalProgress, GoalProgress, periodsInRange, transformGoal } from '../utils/goals';
+import { todayInZone } from '../utils/timezone';
+import { getCategoryRegistry } from './categories.service';
+import { fetchEventRows } from './events.service';
+
+const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+
+export type GoalWithProgress = ReturnType<typeof transformGoal> & { progress: GoalProgress };
+
+export type GoalHistory = ReturnType<typeof transformGoal> & {
+  periods: GoalProgress[];
+  achieved: number; // Finished periods in which the goal was met
+  finished: number;
+};
+
+function toDbGoal(goal: Partial<GoalInput>) {
+  const row: Record<string, any> = {};
+  if (goal.title !== undefined) row.title = goal.title;
+  if (goal.category !== undefined) row.category = goal.category;
+  if (goal.metric !== undefined) row.metric = goal.metric;
+  if (goal.target !== undefined) row.target = goal.target;
+  if (goal.period !== undefined) row.period = goal.period;
+  if (goal.direction !== undefined) row.direction = goal.direction;
+  if (goal.completedOnly !== undefined) row.completed_only = goal.completedOnly;
+  return row;
+}
+
+/**
+ * The user's goals, oldest first
+ */
+export async function listGoalRows(userId: string): Promise<{ data: any[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('goals')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  return { data, error };
+}
+
+export async function insertGoalRow(userId: string, goal: GoalInput): Promise<{ data: any | null; error: any }> {
+  const { data, error } = await supabase
+    .from('goals')
+    .insert({ user_id: userId, ...toDbGoal(goal) })
+    .select()
+    .single();
+
+  return { data, error };
+}
+
+/**
+ * Update one of the user's goals; null data when it does not exist
+ */
+export async function updateGoalRow(
+  userId: string,
+  id: string,
+  updates: GoalUpdateInput
+): Promise<{ data: any | null; error: any }> {
+  const { data, error } = await supabase
+    .from('goals')
+    .update({ ...toDbGoal(updates), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  return { data, error };
+}
+
+export async function deleteGoalRow(userId: string, id: string): Promise<{ data: any[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('goals')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  return { data, error };
+}
+
+/**
+ * Events covering every goal's window, fetched once for all of them
+ */
+async function fetchRowsFor(
+  userId: string,
+  windows: { from: string; to: string }[],
+  timeZone: string
+): Promise<{ data: any[] | null; error: any }> {
+  if (windows.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const from = windows.reduce((min, window) => (window.from < min ? window.from : min), windows[0].from);
+  const to = windows.reduce((max, window) => (window.to > max ? window.to : max), windows[0].to);
+  return fetchEventRows(userId, { from, to }, { timeZone });
+}
+
+/**
+ * Each goal's progress in the period containing `date`
+ */
+export async function getGoalProgress(
+  userId: string,
+  date: string,
+  timeZone: string
+): Promise<{ data: GoalWithProgress[] | null; error: any }> {
+  const { data: goals, error } = await listGoalRows(userId);
+  if (error || !goals) {
+    return { data: null, error };
+  }
+
+  const windows = goals.map(goal => getPeriodBounds(goal.period, date));
+  const { data: rows, error: eventsError } = await fetchRowsFor(userId, windows, timeZone);
+  if (eventsError || !rows) {
+    return { data: null, error: eventsError };
+  }
+
+  const today = todayInZone(timeZone);
+  const registry = await getCategoryRegistry(userId);
+  return {
+    data: goals.map((goal, i) => ({
+      ...transformGoal(goal),
+      progress: calculateGoalProgress(goal, rows, windows[i], today, registry)
+    })),
+    error: null
+  };
+}
+
+/**
+ * Each goal's progress in every one of its periods overlapping `range`, with
+ * how often it was met. Periods are whole, so they can reach past the range.
+ */
+export async function getGoalHistory(
+  userId: string,
+  range: { from: string; to: string },
+  timeZone: string
+): Promise<{ data: GoalHistory[] | null; error: any }> {
+  const { data: goals, error } = await listGoalRows(userId);
+  if (error || !goals) {
+    return { data: null, error };
+  }
+
+  const periods = goals.map(goal => periodsInRange(goal.period, range));
+  const { data: rows, error: eventsError } = await fetchRowsFor(userId, periods.flat(), timeZone);
+  if (eventsError || !rows) {
+    return { data: null, error: eventsError };
+  }
+
+  const today = todayInZone(timeZone);
+  const registry = await getCategoryRegistry(userId);
+  return {
+    data: goals.map((goal, i) => {
+      const progress = periods[i].map(bounds => calculateGoalProgress(goal, rows, bounds, today, registry));
+      const finished = progress.filter(item => item.to < today);
+      return {
+        ...transformGoal(goal),
+        periods: progress,
+        achieved: finished.filter(item => item.status === 'achieved').length,
+        finished: finished.length
+      };
+    }),
+    error: null
+  };
+}
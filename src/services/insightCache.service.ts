@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../config/env';
+import { addDays } from '../utils/date';
+import { getEventEnd, stableStringify } from '../utils/events';
+
+const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+
+/**
+ * Stored AI insights, so unchanged days are not sent to the model again.
+ * Entries carry a hash of the input they were generated from and only count as
+ * a hit while it still matches; event writes also clear the dates they touch.
+ */
+
+export type InsightKind = 'day' | 'task';
+
+export interface CachedInsight<T> {
+  payload: T;
+  generatedAt: string;
+}
+
+/**
+ * Dates a cache entry may belong to, from and to inclusive (to null = open-ended)
+ */
+export interface DateRange {
+  from: string;
+  to: string | null;
+}
+
+export function hashInsightInput(input: unknown): string {
+  return createHash('sha256').update(stableStringify(input)).digest('hex');
+}
+
+/**
+ * The cached payload for `key`, or null when there is none or it was generated
+ * from different input
+ */
+export async function getCachedInsight<T>(
+  userId: string,
+  kind: InsightKind,
+  key: string,
+  contentHash: string
+): Promise<{ data: CachedInsight<T> | null; error: any }> {
+  const { data, error } = await supabase
+    .from('ai_insight_cache')
+    .select('payload, content_hash, created_at')
+    .eq('user_id', userId)
+    .eq('kind', kind)
+    .eq('cache_key', key)
+    .maybeSingle();
+
+  if (error || !data || data.content_hash !== contentHash) {
+    return { data: null, error };
+  }
+
+  return { data: { payload: data.payload as T, generatedAt: data.created_at }, error: null };
+}
+
+/**
+ * Store (or replace) the payload for `key`. `date` is the calendar day it
+ * describes, if any, so event writes on that day can clear it.
+ */
+export async function storeInsight(
+  userId: string,
+  kind: InsightKind,
+  key: string,
+  date: string | null,
+  contentHash: string,
+  payload: unknown
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('ai_insight_cache')
+    .upsert({
+      user_id: userId,
+      kind,
+      cache_key: key,
+      date,
+      content_hash: contentHash,
+      payload,
+      created_at: new Date().toISOString()
+    }, { onConflict: 'user_id,kind,cache_key' });
+
+  return { error };
+}
+
+/**
+ * Days an event row can show up on. Rows are stored in their own zone and
+ * insights are per day in the viewer's, so a day of slack is added each side;
+ * a series covers every day from its first occurrence on.
+ */
+export function eventDateRange(row: any): DateRange {
+  return {
+    from: addDays(row.date, -1),
+    to: row.recurrence_rule ? null : addDays(getEventEnd(row).endDate, 1)
+  };
+}
+
+/**
+ * Drop cached insights on the given days (all of the user's when `ranges` is
+ * omitted). Best effort: a failure is logged, since stale entries are also
+ * caught by their content hash.
+ */
+export async function invalidateInsights(userId: string, ranges?: DateRange[]): Promise<void> {
+  if (ranges && ranges.length === 0) return;
+
+  let query = supabase
+    .from('ai_insight_cache')
+    .delete()
+    .eq('user_id', userId);
+
+  if (ranges) {
+    query = query.or(ranges
+      .map(range => (range.to ? `and(date.gte.${range.from},date.lte.${range.to})` : `date.gte.${range.from}`))
+      .join(','));
+  }
+
+  const { error } = await query;
+  if (error) {
+    console.error('Error invalidating cached insights:', error);
+  }
+}
@@ -0,0 +1,69 @@
+import { Content, GenerationConfig, GoogleGenerativeAI, Part } from '@google/generative-ai';
+import { env } from '../../config/env';
+import { ChatRequest, LLMImage, LLMProvider, StreamRequest, VisionRequest } from './types';
+
+let client: GoogleGenerativeAI | null = null;
+
+function getClient(): GoogleGenerativeAI {
+  if (!client) {
+    client = new GoogleGenerativeAI(env.GEMINI_API_KEY || '');
+  }
+  return client;
+}
+
+function toGenerateRequest(request: ChatRequest, images: LLMImage[] = []) {
+  const generationConfig: GenerationConfig = {};
+  if (request.temperature !== undefined) generationConfig.temperature = request.temperature;
+  if (request.maxTokens !== undefined) generationConfig.maxOutputTokens = request.maxTokens;
+  if (request.json) generationConfig.responseMimeType = 'application/json';
+
+  const system = request.messages.filter(message => message.role === 'system').map(message => message.content);
+  const turns = request.messages.filter(message => message.role !== 'system');
+
+  const contents: Content[] = turns.map((message, index) => {
+    const parts: Part[] = [{ text: message.content }];
+    if (index === turns.length - 1) {
+      parts.push(...images.map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } })));
+    }
+    return { role: message.role === 'assistant' ? 'model' : 'user', parts };
+  });
+
+  const model = getClient().getGenerativeModel({
+    model: request.model,
+    generationConfig,
+    ...(system.length > 0 ? { systemInstruction: system.join('\n\n') } : {})
+  });
+
+  return { model, contents };
+}
+
+async function generate(request: ChatRequest, images?: LLMImage[]): Promise<string> {
+  const { model, contents } = toGenerateRequest(request, images);
+  const result = await model.generateContent({ contents }, { signal: request.signal });
+  return result.response.text();
+}
+
+export const geminiProvider: LLMProvider = {
+  name: 'gemini',
+
+  isConfigured() {
+    return Boolean(env.GEMINI_API_KEY) && env.GEMINI_API_KEY !== 'your_gemini_api_key_here';
+  },
+
+  chat(request: ChatRequest) {
+    return generate(request);
+  },
+
+  vision(request: VisionRequest) {
+    return generate(request, request.images);
+  },
+
+  async *stream(request: StreamRequest) {
+    const { model, contents } = toGenerateRequest(request, request.images);
+    const result = await model.generateContentStream({ contents }, { signal: request.signal });
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield text;
+    }
+  }
+};
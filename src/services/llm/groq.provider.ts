@@ -0,0 +1,76 @@
+import Groq from 'groq-sdk';
+import { env } from '../../config/env';
+import { ChatRequest, LLMImage, LLMProvider, StreamRequest, VisionRequest } from './types';
+
+let client: Groq | null = null;
+
+function getClient(): Groq {
+  if (!client) {
+    client = new Groq({ apiKey: env.GROQ_API_KEY });
+  }
+  return client;
+}
+
+// Images ride along with the last user message
+function toMessages(request: ChatRequest, images: LLMImage[] = []): any[] {
+  if (images.length === 0) {
+    return request.messages;
+  }
+
+  const lastUser = request.messages.map(message => message.role).lastIndexOf('user');
+  return request.messages.map((message, index) => index !== lastUser ? message : {
+    role: 'user',
+    content: [
+      { type: 'text', text: message.content },
+      ...images.map(image => ({
+        type: 'image_url',
+        image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+      }))
+    ]
+  });
+}
+
+async function complete(request: ChatRequest, images?: LLMImage[]): Promise<string> {
+  const completion = await getClient().chat.completions.create({
+    messages: toMessages(request, images),
+    model: request.model,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens
+  }, { signal: request.signal });
+  return completion.choices[0].message.content || '';
+}
+
+/**
+ * Groq's OpenAI-compatible chat API. Its JSON mode only allows objects and most
+ * prompts here ask for arrays, so JSON output is left to the prompt.
+ */
+export const groqProvider: LLMProvider = {
+  name: 'groq',
+
+  isConfigured() {
+    return Boolean(env.GROQ_API_KEY);
+  },
+
+  chat(request: ChatRequest) {
+    return complete(request);
+  },
+
+  vision(request: VisionRequest) {
+    return complete(request, request.images);
+  },
+
+  async *stream(request: StreamRequest) {
+    const stream = await getClient().chat.completions.create({
+      messages: toMessages(request, request.images),
+      model: request.model,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true
+    }, { signal: request.signal });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+};
@@ -0,0 +1,281 @@
+import { ZodError, ZodType } from 'zod';
+import { getModelConfig, LLMFeature, LLMProviderName } from '../../config/llm';
+import { Normalized, toArray } from '../../utils/aiNormalize';
+import { createJsonArrayReader } from '../../utils/jsonStream';
+import { geminiProvider } from './gemini.provider';
+import { groqProvider } from './groq.provider';
+import { localProvider } from './local.provider';
+import { LLMImage, LLMMessage, LLMNotConfiguredError, LLMProvider, LLMResponseError } from './types';
+
+export * from './types';
+
+const PROVIDERS: Record<LLMProviderName, LLMProvider> = {
+  groq: groqProvider,
+  gemini: geminiProvider,
+  local: localProvider
+};
+
+export interface GenerateOptions {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  images?: LLMImage[];
+  signal?: AbortSignal;
+}
+
+/**
+ * Whether the provider configured for a feature has its credentials
+ */
+export function isFeatureAvailable(feature: LLMFeature): boolean {
+  return PROVIDERS[getModelConfig(feature).provider].isConfigured();
+}
+
+function getProvider(feature: LLMFeature): { provider: LLMProvider; model: string } {
+  const { provider: providerName, model } = getModelConfig(feature);
+  const provider = PROVIDERS[providerName];
+  if (!provider.isConfigured()) {
+    throw new LLMNotConfiguredError(providerName, feature);
+  }
+  return { provider, model };
+}
+
+async function complete(feature: LLMFeature, options: GenerateOptions, json: boolean): Promise<string> {
+  const { provider, model } = getProvider(feature);
+  const { images, ...rest } = options;
+  const request = { ...rest, feature, model, json };
+  return images && images.length > 0
+    ? provider.vision({ ...request, images })
+    : provider.chat(request);
+}
+
+/**
+ * Free-form text from the feature's configured model
+ */
+export function generateText(feature: LLMFeature, options: GenerateOptions): Promise<string> {
+  return complete(feature, options, false);
+}
+
+/**
+ * Strip the markdown fences models like to wrap JSON in, then parse it
+ */
+export function parseJsonResponse(content: string): unknown {
+  let jsonContent = content.trim();
+  if (jsonContent.startsWith('```json')) {
+    jsonContent = jsonContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
+  } else if (jsonContent.startsWith('```')) {
+    jsonContent = jsonContent.replace(/```\n?/g, '');
+  }
+
+  try {
+    return JSON.parse(jsonContent);
+  } catch {
+    throw new LLMResponseError('Model response is not valid JSON', content);
+  }
+}
+
+/**
+ * A parsed JSON document from the feature's configured model.
+ * Throws LLMResponseError when the answer does not parse.
+ */
+export async function generateJson(feature: LLMFeature, options: GenerateOptions): Promise<unknown> {
+  return parseJsonResponse(await complete(feature, options, true));
+}
+
+/**
+ * What validation did to a model answer: how many calls it took, which items
+ * were normalized and which were dropped as unrepairable
+ */
+export interface ValidationReport {
+  attempts: number;
+  changes: string[]; // Response-level fixes, e.g. a bare object wrapped in an array
+  fixed: { index: number; changes: string[] }[];
+  dropped: { index: number; issues: string[] }[];
+  fallback?: boolean; // Nothing usable came back and the caller substituted its own answer
+}
+
+// One initial call plus two repair re-prompts
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+function formatIssues(error: ZodError): string[] {
+  return error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+// Show the model its own answer and what was wrong with it
+function repairTurns(content: string, problems: string[], instruction: string): LLMMessage[] {
+  return [
+    { role: 'assistant', content },
+    {
+      role: 'user',
+      content: `Your previous answer was invalid:\n${problems.map(problem => `- ${problem}`).join('\n')}\n\n${instruction}`
+    }
+  ];
+}
+
+export interface ValidatedListSpec<T> {
+  key: string; // Property a model may wrap the array in, e.g. { "events": [...] }
+  itemSchema: ZodType<T>;
+  normalizeItem?: (item: unknown) => Normalized;
+  maxAttempts?: number;
+}
+
+// Normalize and validate one list item, recording the outcome in the report
+function checkItem<T>(spec: ValidatedListSpec<T>, raw: unknown, index: number, report: ValidationReport): T | null {
+  const normalized = spec.normalizeItem ? spec.normalizeItem(raw) : { value: raw, changes: [] };
+  const result = spec.itemSchema.safeParse(normalized.value);
+  if (!result.success) {
+    report.dropped.push({ index, issues: formatIssues(result.error) });
+    return null;
+  }
+  if (normalized.changes.length > 0) {
+    report.fixed.push({ index, changes: normalized.changes });
+  }
+  return result.data;
+}
+
+/**
+ * A JSON array whose items each satisfy `itemSchema`. Items are normalized first;
+ * items that still fail are sent back to the model for repair, and whatever is
+ * still invalid after the last attempt is dropped and reported.
+ * Throws LLMResponseError when no attempt produced JSON at all.
+ */
+export async function generateValidatedList<T>(
+  feature: LLMFeature,
+  options: GenerateOptions,
+  spec: ValidatedListSpec<T>
+): Promise<{ data: T[]; report: ValidationReport }> {
+  const maxAttempts = spec.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  let messages = options.messages;
+  let best: { data: T[]; report: ValidationReport } | null = null;
+  let lastError: LLMResponseError | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const content = await complete(feature, { ...options, messages }, true);
+
+    let parsed: unknown;
+    try {
+      parsed = parseJsonResponse(content);
+    } catch (error) {
+      lastError = error as LLMResponseError;
+      messages = [...messages, ...repairTurns(content, ['Response was not valid JSON'], 'Return ONLY a JSON array, no other text.')];
+      continue;
+    }
+
+    const { value: items, changes } = toArray(parsed, spec.key);
+    const report: ValidationReport = { attempts: attempt, changes, fixed: [], dropped: [] };
+    const data: T[] = [];
+
+    items.forEach((raw, index) => {
+      const item = checkItem(spec, raw, index, report);
+      if (item !== null) data.push(item);
+    });
+
+    // A repair can make things worse, so keep the attempt with the most usable items
+    if (!best || data.length >= best.data.length) {
+      best = { data, report };
+    }
+    best.report.attempts = attempt;
+
+    if (report.dropped.length === 0) break;
+
+    const problems = report.dropped.map(({ index, issues }) => `Item ${index}: ${issues.join('; ')}`);
+    messages = [...messages, ...repairTurns(content, problems, 'Return the complete corrected JSON array only, keeping the valid items unchanged.')];
+  }
+
+  if (!best) {
+    throw lastError ?? new LLMResponseError('Model returned no usable response', '');
+  }
+  return best;
+}
+
+export interface ValidatedSpec<T> {
+  schema: ZodType<T>;
+  format?: 'json' | 'text'; // Text answers are validated as a string
+  normalize?: (value: unknown) => Normalized;
+  repairInstruction?: string;
+  maxAttempts?: number;
+}
+
+/**
+ * A single answer that satisfies `schema`, re-prompting with the validation
+ * issues until it does or the attempts run out. `data` is null in that case so
+ * callers can substitute a fallback (and mark the report accordingly).
+ */
+export async function generateValidated<T>(
+  feature: LLMFeature,
+  options: GenerateOptions,
+  spec: ValidatedSpec<T>
+): Promise<{ data: T | null; report: ValidationReport }> {
+  const maxAttempts = spec.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const format = spec.format ?? 'json';
+  const instruction = spec.repairInstruction ?? 'Return the corrected answer only, no other text.';
+  const report: ValidationReport = { attempts: 0, changes: [], fixed: [], dropped: [] };
+  let messages = options.messages;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    report.attempts = attempt;
+    const content = await complete(feature, { ...options, messages }, format === 'json');
+
+    let value: unknown = content;
+    if (format === 'json') {
+      try {
+        value = parseJsonResponse(content);
+      } catch {
+        messages = [...messages, ...repairTurns(content, ['Response was not valid JSON'], instruction)];
+        continue;
+      }
+    }
+
+    const normalized = spec.normalize ? spec.normalize(value) : { value, changes: [] };
+    const result = spec.schema.safeParse(normalized.value);
+    if (result.success) {
+      report.changes = normalized.changes;
+      return { data: result.data, report };
+    }
+
+    messages = [...messages, ...repairTurns(content, formatIssues(result.error), instruction)];
+  }
+
+  return { data: null, report };
+}
+
+/**
+ * Streaming counterpart of generateValidatedList: `onItem` is called for each
+ * valid item as soon as the model has finished writing it. Items already sent
+ * cannot be taken back, so there is no repair round; invalid items are dropped
+ * and reported. Throws LLMResponseError when the answer holds no JSON array.
+ */
+export async function streamValidatedList<T>(
+  feature: LLMFeature,
+  options: GenerateOptions,
+  spec: ValidatedListSpec<T>,
+  onItem: (item: T, index: number) => void
+): Promise<{ data: T[]; report: ValidationReport }> {
+  const { provider, model } = getProvider(feature);
+  const report: ValidationReport = { attempts: 1, changes: [], fixed: [], dropped: [] };
+  const reader = createJsonArrayReader(spec.key);
+  const data: T[] = [];
+  let content = '';
+
+  const accept = (raw: unknown) => {
+    const index = data.length + report.dropped.length;
+    const item = checkItem(spec, raw, index, report);
+    if (item !== null) {
+      data.push(item);
+      onItem(item, index);
+    }
+  };
+
+  for await (const delta of provider.stream({ ...options, feature, model, json: true })) {
+    content += delta;
+    reader.push(delta).forEach(accept);
+  }
+
+  // Nothing looked like an array element (e.g. a bare object), so read the whole answer
+  if (reader.count === 0 && !options.signal?.aborted) {
+    const { value: items, changes } = toArray(parseJsonResponse(content), spec.key);
+    report.changes = changes;
+    items.forEach(accept);
+  }
+
+  return { data, report };
+}
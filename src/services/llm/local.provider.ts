@@ -0,0 +1,260 @@
+import { LLMFeature } from '../../config/llm';
+import { addDays, dayOfWeek, isValidDate } from '../../utils/date';
+import { ChatRequest, LLMProvider, StreamRequest, VisionRequest } from './types';
+
+/**
+ * Offline stand-in: canned but well-formed answers for every feature, derived only
+ * from the request, so the same input always gives the same output
+ */
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+function lastMessage(request: ChatRequest, role: 'system' | 'user'): string {
+  return [...request.messages].reverse().find(message => message.role === role)?.content ?? '';
+}
+
+// Prompts embed describeNow(), so "today" comes from the request rather than the server clock
+function todayFrom(request: ChatRequest): string {
+  const match = request.messages.map(message => message.content).join('\n').match(/Today's date is (\d{4}-\d{2}-\d{2})/);
+  return match && isValidDate(match[1]) ? match[1] : '2025-01-01';
+}
+
+function parseClockTime(text: string): number | null {
+  const match = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i) || text.match(/\b(\d{1,2}):(\d{2})\b/);
+  if (!match) return null;
+  let hours = Number(match[1]) % 24;
+  const minutes = match[2] ? Number(match[2]) : 0;
+  const period = match[3]?.toLowerCase();
+  if (period === 'pm' && hours < 12) hours += 12;
+  if (period === 'am' && hours === 12) hours = 0;
+  return hours + minutes / 60;
+}
+
+function parseDay(text: string, today: string): string | null {
+  const lower = text.toLowerCase();
+  const explicit = lower.match(/\b\d{4}-\d{2}-\d{2}\b/);
+  if (explicit && isValidDate(explicit[0])) return explicit[0];
+  if (/\btomorrow\b/.test(lower)) return addDays(today, 1);
+  const weekday = WEEKDAYS.findIndex(name => lower.includes(name));
+  if (weekday >= 0) {
+    return addDays(today, ((weekday - dayOfWeek(today) + 7) % 7) || 7);
+  }
+  return /\btoday\b|\btonight\b/.test(lower) ? today : null;
+}
+
+function cleanTitle(text: string): string {
+  const title = text
+    .replace(/\b\d{1,2}(:\d{2})?\s*(am|pm)\b/gi, '')
+    .replace(/\b\d{1,2}:\d{2}\b/g, '')
+    .replace(/\b\d{4}-\d{2}-\d{2}\b/g, '')
+    .replace(new RegExp(`\\b(at|on|today|tonight|tomorrow|next|this|${WEEKDAYS.join('|')})\\b`, 'gi'), '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return title ? title[0].toUpperCase() + title.slice(1) : 'New event';
+}
+
+/**
+ * "Meeting at 3pm and gym at 6pm tomorrow" -> one event per clause, as long as
+ * the prompt's default duration (30 minutes unless it says otherwise)
+ */
+function parseEvents(request: ChatRequest): unknown[] {
+  const today = todayFrom(request);
+  const minutes = request.messages.map(message => message.content).join('\n').match(/default to (\d+) minutes/);
+  const eventHours = minutes ? Number(minutes[1]) / 60 : 0.5;
+  const user = lastMessage(request, 'user');
+  const quoted = user.match(/"([\s\S]*)"/);
+  const text = quoted ? quoted[1] : user;
+  // A day named anywhere applies to clauses that do not name their own
+  const sharedDay = parseDay(text, today) ?? today;
+
+  return text
+    .split(/\s*(?:,|;|\band\b|\bthen\b)\s*/i)
+    .filter(clause => clause.trim().length > 0)
+    .map((clause, index) => {
+      const startTime = parseClockTime(clause) ?? 9 + index;
+      return {
+        title: cleanTitle(clause),
+        description: '',
+        startTime,
+        endTime: Math.min(24, startTime + eventHours),
+        date: parseDay(clause, today) ?? sharedDay,
+        emoji: '📅',
+        colorHex: '#4A90E2'
+      };
+    });
+}
+
+// The scheduler sends its placements as a JSON array and expects one sentence each
+function explainPlacements(request: ChatRequest): string[] {
+  try {
+    const placements = JSON.parse(lastMessage(request, 'user'));
+    return Array.isArray(placements)
+      ? placements.map((placement: any) => `Placed in a ${placement.slotEnergy ?? 'free'}-energy slot that fits around your other events.`)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Chat: propose events for messages with clock times, otherwise look at the calendar first
+function chatTurn(request: ChatRequest): unknown {
+  const message = lastMessage(request, 'user');
+  const today = todayFrom(request);
+
+  if (message.startsWith('Tool results:')) {
+    return { reply: 'Here is what I found in your calendar.', toolCalls: [] };
+  }
+
+  if (/\b(free|available|open)\b/i.test(message)) {
+    return {
+      reply: 'Let me look for free time this week.',
+      toolCalls: [{ tool: 'find_free_time', args: { startDate: today, endDate: addDays(today, 6), durationMinutes: 60 } }]
+    };
+  }
+
+  if (parseClockTime(message) !== null) {
+    const events = parseEvents(request);
+    return {
+      reply: `I've prepared ${events.length} event${events.length === 1 ? '' : 's'}. Confirm to add ${events.length === 1 ? 'it' : 'them'} to your calendar.`,
+      toolCalls: events.map(event => ({ tool: 'create_event', args: { event } }))
+    };
+  }
+
+  return {
+    reply: "Here's your week.",
+    toolCalls: [{ tool: 'list_events', args: { startDate: today, endDate: addDays(today, 6) } }]
+  };
+}
+
+// Edits: "cancel X on Friday" deletes, "push ... back an hour" shifts, anything else creates
+function editOperations(request: ChatRequest): unknown {
+  const message = lastMessage(request, 'user');
+  const today = todayFrom(request);
+  const date = parseDay(message, today);
+  const target = (text: string) => cleanTitle(text.replace(/\b(everything|all|my|the)\b/gi, ''));
+
+  if (/\b(cancel|delete|remove|drop)\b/i.test(message)) {
+    const title = target(message.replace(/\b(cancel|delete|remove|drop)\b/gi, ''));
+    return { operations: [{ action: 'delete', match: { title, ...(date ? { date } : {}) } }] };
+  }
+
+  const shift = message.match(/\b(push|move|shift|delay|bump)\b[\s\S]*?\b(an?|\d+)\s*(hours?|hrs?|minutes?|mins?)\b/i);
+  if (shift) {
+    const amount = /^an?$/i.test(shift[2]) ? 1 : Number(shift[2]);
+    const minutes = amount * (/^h/i.test(shift[3]) ? 60 : 1) * (/\b(earlier|forward|up)\b/i.test(message) ? -1 : 1);
+    const after = /\bafter lunch\b/i.test(message) ? 13 : parseClockTime(message.split(/\bafter\b/i)[1] ?? '');
+    const everything = /\b(everything|all)\b/i.test(message);
+    const title = target(message
+      .replace(/\b(an?|\d+)\s*(hours?|hrs?|minutes?|mins?)\b/gi, '')
+      .replace(/\bafter\b.*$/i, '')
+      .replace(/\b(push|move|shift|delay|bump|back|later|earlier|forward|up|by)\b/gi, ''));
+    return {
+      operations: [{
+        action: 'update',
+        match: {
+          ...(everything ? { all: true } : { title }),
+          date: date ?? today,
+          ...(after !== null ? { startsAfter: after } : {})
+        },
+        shiftMinutes: minutes
+      }]
+    };
+  }
+
+  return { operations: parseEvents(request).map(event => ({ action: 'create', event })) };
+}
+
+// Reviews: restate the change in hours and completion the prompt carries as JSON
+function reviewPeriod(request: ChatRequest): unknown {
+  let metrics: any = {};
+  try {
+    metrics = JSON.parse(lastMessage(request, 'user'));
+  } catch {
+    // Fall through to the generic review
+  }
+
+  const period = metrics.period ?? 'week';
+  const hours = metrics.changes?.totalHours ?? 0;
+  const completion = metrics.changes?.completionRate;
+
+  return {
+    summary: `You scheduled ${metrics.current?.totalHours ?? 0} hours this ${period}, ${hours >= 0 ? 'up' : 'down'} ${Math.abs(hours)} on the previous ${period}.`,
+    wins: typeof completion === 'number' && completion > 0 ? [`Completion rate rose by ${completion} points.`] : [],
+    regressions: typeof completion === 'number' && completion < 0 ? [`Completion rate fell by ${-completion} points.`] : [],
+    suggestions: [`Protect one 90-minute focus block each morning next ${period}.`]
+  };
+}
+
+// Classification: the first listed category whose name appears anywhere in the title
+function classifyEvents(request: ChatRequest): unknown[] {
+  const names = [...lastMessage(request, 'system').matchAll(/^- (.+) \((?:work|personal|health|other)\)$/gm)].map(match => match[1]);
+  let events: { index: number; title: string }[] = [];
+  try {
+    events = JSON.parse(lastMessage(request, 'user'));
+  } catch {
+    return [];
+  }
+
+  return events.flatMap(event => {
+    const name = names.find(candidate => event.title.toLowerCase().includes(candidate.toLowerCase()));
+    return name ? [{ index: event.index, category: name }] : [];
+  });
+}
+
+const RESPONDERS: Record<LLMFeature, (request: ChatRequest) => unknown> = {
+  insights: () => [
+    'Protect your longest free block for focused work.',
+    'Leave 10-15 minutes between back-to-back events.',
+    'Schedule demanding tasks in the morning energy peak.',
+    'Group small admin tasks into a single afternoon slot.',
+    'End the day with a short review of tomorrow.'
+  ],
+  parse: parseEvents,
+  parsePro: parseEvents,
+  vision: request => [{
+    title: 'Schedule item',
+    description: 'Detected offline',
+    startTime: 9,
+    endTime: 10,
+    date: todayFrom(request),
+    emoji: '📅',
+    colorHex: '#4A90E2'
+  }],
+  taskInsight: () => '• Protect this block from notifications\n• Leave a short buffer afterwards to recover',
+  scheduleExplain: explainPlacements,
+  chat: chatTurn,
+  edit: editOperations,
+  review: reviewPeriod,
+  classify: classifyEvents
+};
+
+function respond(request: ChatRequest): string {
+  const answer = RESPONDERS[request.feature](request);
+  return typeof answer === 'string' ? answer : JSON.stringify(answer);
+}
+
+// Small fixed-size chunks so streaming clients see items arrive one at a time
+const STREAM_CHUNK_LENGTH = 24;
+
+export const localProvider: LLMProvider = {
+  name: 'local',
+
+  isConfigured() {
+    return true;
+  },
+
+  async chat(request: ChatRequest) {
+    return respond(request);
+  },
+
+  async vision(request: VisionRequest) {
+    return respond(request);
+  },
+
+  async *stream(request: StreamRequest) {
+    const answer = respond(request);
+    for (let offset = 0; offset < answer.length && !request.signal?.aborted; offset += STREAM_CHUNK_LENGTH) {
+      yield answer.slice(offset, offset + STREAM_CHUNK_LENGTH);
+    }
+  }
+};
@@ -0,0 +1,63 @@
+import { LLMFeature, LLMProviderName } from '../../config/llm';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMImage {
+  data: string; // base64, without the data: URL prefix
+  mimeType: string;
+}
+
+export interface ChatRequest {
+  feature: LLMFeature;
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a bare JSON document; providers with a native JSON mode enforce it
+  json?: boolean;
+  // Cancels the upstream call, e.g. when the HTTP client has gone away
+  signal?: AbortSignal;
+}
+
+export interface VisionRequest extends ChatRequest {
+  images: LLMImage[];
+}
+
+export interface StreamRequest extends ChatRequest {
+  images?: LLMImage[];
+}
+
+/**
+ * A text-generation backend. Adapters translate these requests into each SDK's shape.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  isConfigured(): boolean;
+  chat(request: ChatRequest): Promise<string>;
+  vision(request: VisionRequest): Promise<string>;
+  // Text deltas as the model produces them
+  stream(request: StreamRequest): AsyncIterable<string>;
+}
+
+/**
+ * The provider for a feature is missing its API key
+ */
+export class LLMNotConfiguredError extends Error {
+  constructor(public readonly provider: LLMProviderName, public readonly feature: LLMFeature) {
+    super(`The ${provider} provider used for ${feature} is not configured`);
+    this.name = 'LLMNotConfiguredError';
+  }
+}
+
+/**
+ * The model answered, but not with parseable JSON
+ */
+export class LLMResponseError extends Error {
+  constructor(message: string, public readonly content: string) {
+    super(message);
+    this.name = 'LLMResponseError';
+  }
+}
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import http2 from 'http2';
+import { env } from '../../config/env';
+import { Reminder, reminderMessage } from '../../utils/reminders';
+import { listDeviceTokens, removeStaleDeviceToken } from '../devices.service';
+import { ReminderChannel, ReminderDeliveryError, ReminderRecipientError } from './types';
+
+/**
+ * Push reminders to the user's registered iOS devices over APNs' HTTP/2 API,
+ * authenticated with a token-based (.p8) key
+ */
+
+const TIMEOUT_MS = 10000;
+
+// APNs rejects provider tokens older than an hour and throttles ones renewed more often than every 20 minutes
+const TOKEN_TTL_MS = 50 * 60 * 1000;
+
+// Reasons meaning the device token itself is dead, not that this push failed
+const STALE_TOKEN_REASONS = ['BadDeviceToken', 'DeviceTokenNotForTopic', 'Unregistered'];
+
+let providerToken: { value: string; issuedAt: number } | null = null;
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function getProviderToken(): string {
+  if (providerToken && Date.now() - providerToken.issuedAt < TOKEN_TTL_MS) {
+    return providerToken.value;
+  }
+
+  const issuedAt = Date.now();
+  const unsigned = `${base64url(JSON.stringify({ alg: 'ES256', kid: env.APNS_KEY_ID }))}.${base64url(JSON.stringify({ iss: env.APNS_TEAM_ID, iat: Math.floor(issuedAt / 1000) }))}`;
+  // .p8 keys pasted into env vars usually have their newlines escaped
+  const key = env.APNS_PRIVATE_KEY!.replace(/\\n/g, '\n');
+  const signature = crypto.sign('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' });
+
+  providerToken = { value: `${unsigned}.${base64url(signature)}`, issuedAt };
+  return providerToken.value;
+}
+
+/**
+ * APNs payload for a reminder. The event fields let the app open the event
+ * when the notification is tapped.
+ */
+export function buildApnsPayload(reminder: Reminder) {
+  return {
+    aps: {
+      alert: reminderMessage(reminder),
+      sound: 'default',
+      'thread-id': reminder.eventId
+    },
+    eventId: reminder.eventId,
+    occurrenceDate: reminder.occurrenceDate,
+    startsAt: reminder.startsAt.toISOString()
+  };
+}
+
+function push(
+  session: http2.ClientHttp2Session,
+  deviceToken: string,
+  reminder: Reminder
+): Promise<{ status: number; reason?: string }> {
+  return new Promise((resolve, reject) => {
+    const request = session.request({
+      ':method': 'POST',
+      ':path': `/3/device/${deviceToken}`,
+      'authorization': `bearer ${getProviderToken()}`,
+      'apns-topic': env.APNS_BUNDLE_ID!,
+      'apns-push-type': 'alert',
+      'apns-priority': '10',
+      // Not worth delivering once the event has started
+      'apns-expiration': String(Math.floor(reminder.startsAt.getTime() / 1000)),
+      'apns-collapse-id': `${reminder.eventId}:${reminder.minutesBefore}`
+    });
+
+    let status = 0;
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('response', headers => {
+      status = Number(headers[':status']);
+    });
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('error', reject);
+    request.on('close', () => {
+      if (status === 0) {
+        reject(new ReminderDeliveryError('apns', 'No response from APNs'));
+        return;
+      }
+      let reason: string | undefined;
+      try {
+        reason = body ? JSON.parse(body).reason : undefined;
+      } catch {
+        reason = body;
+      }
+      resolve({ status, reason });
+    });
+    request.setTimeout(TIMEOUT_MS, () => request.close(http2.constants.NGHTTP2_CANCEL));
+    request.end(JSON.stringify(buildApnsPayload(reminder)));
+  });
+}
+
+export const apnsChannel: ReminderChannel = {
+  name: 'apns',
+
+  isConfigured() {
+    return Boolean(env.APNS_KEY_ID && env.APNS_TEAM_ID && env.APNS_PRIVATE_KEY && env.APNS_BUNDLE_ID);
+  },
+
+  async send(reminder: Reminder) {
+    const { data: tokens, error } = await listDeviceTokens(reminder.userId);
+    if (error || !tokens) {
+      throw new ReminderDeliveryError('apns', `Could not load device tokens: ${error?.message ?? 'unknown error'}`);
+    }
+    if (tokens.length === 0) {
+      throw new ReminderRecipientError('apns', 'User has no registered devices');
+    }
+
+    const host = env.APNS_PRODUCTION ? 'https://api.push.apple.com' : 'https://api.sandbox.push.apple.com';
+    const session = http2.connect(host);
+    session.on('error', sessionError => console.error('APNs connection error:', sessionError));
+
+    let delivered = 0;
+    let stale = 0;
+    let lastFailure = '';
+    try {
+      for (const token of tokens) {
+        try {
+          const { status, reason } = await push(session, token, reminder);
+          if (status === 200) {
+            delivered++;
+          } else if (status === 410 || (reason && STALE_TOKEN_REASONS.includes(reason))) {
+            stale++;
+            await removeStaleDeviceToken(token);
+          } else {
+            lastFailure = `APNs answered ${status}${reason ? ` (${reason})` : ''}`;
+          }
+        } catch (pushError) {
+          lastFailure = pushError instanceof Error ? pushError.message : String(pushError);
+        }
+      }
+    } finally {
+      session.close();
+    }
+
+    // One device getting it is enough
+    if (delivered > 0) return;
+    if (stale === tokens.length) {
+      throw new ReminderRecipientError('apns', 'Every registered device token is no longer valid');
+    }
+    throw new ReminderDeliveryError('apns', lastFailure || 'APNs delivery failed');
+  }
+};
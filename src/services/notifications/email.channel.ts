@@ -0,0 +1,57 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../config/env';
+import { Reminder, reminderMessage } from '../../utils/reminders';
+import { ReminderChannel, ReminderDeliveryError, ReminderRecipientError } from './types';
+
+/**
+ * Reminder emails through Resend's HTTP API, sent to the address the user
+ * signed up with
+ */
+
+const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+
+const RESEND_URL = 'https://api.resend.com/emails';
+const TIMEOUT_MS = 10000;
+
+async function getUserEmail(userId: string): Promise<string | null> {
+  const { data, error } = await supabase.auth.admin.getUserById(userId);
+  if (error) {
+    throw new ReminderDeliveryError('email', `Could not look up the user: ${error.message}`);
+  }
+  return data.user?.email || null;
+}
+
+export const emailChannel: ReminderChannel = {
+  name: 'email',
+
+  isConfigured() {
+    return Boolean(env.REMINDER_EMAIL_API_KEY && env.REMINDER_EMAIL_FROM);
+  },
+
+  async send(reminder: Reminder) {
+    const to = await getUserEmail(reminder.userId);
+    if (!to) {
+      throw new ReminderRecipientError('email', 'User has no email address');
+    }
+
+    const { title, body } = reminderMessage(reminder);
+    const response = await fetch(RESEND_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${env.REMINDER_EMAIL_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: env.REMINDER_EMAIL_FROM,
+        to: [to],
+        subject: `Reminder: ${title}`,
+        text: `${title}\n${body}`
+      }),
+      signal: AbortSignal.timeout(TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new ReminderDeliveryError('email', `Email API answered ${response.status}: ${await response.text()}`);
+    }
+  }
+};
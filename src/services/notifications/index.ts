@@ -0,0 +1,25 @@
+import { env } from '../../config/env';
+import { apnsChannel } from './apns.channel';
+import { emailChannel } from './email.channel';
+import { localChannel } from './local.channel';
+import { ReminderChannel, ReminderChannelName } from './types';
+import { webhookChannel } from './webhook.channel';
+
+export * from './types';
+export { getLocalDeliveries } from './local.channel';
+
+const CHANNELS: Record<ReminderChannelName, ReminderChannel> = {
+  apns: apnsChannel,
+  email: emailChannel,
+  webhook: webhookChannel,
+  local: localChannel
+};
+
+/**
+ * The channel reminders are delivered through (REMINDER_CHANNEL), or null when
+ * none is set or it is missing its credentials
+ */
+export function getReminderChannel(): ReminderChannel | null {
+  const channel = env.REMINDER_CHANNEL ? CHANNELS[env.REMINDER_CHANNEL] : null;
+  return channel && channel.isConfigured() ? channel : null;
+}
@@ -0,0 +1,33 @@
+import { Reminder, reminderMessage } from '../../utils/reminders';
+import { ReminderChannel } from './types';
+
+/**
+ * Offline stand-in: logs each reminder and keeps the most recent ones in
+ * memory, so the scheduler can be exercised without any push or mail setup
+ */
+
+const MAX_KEPT = 100;
+
+const delivered: (Reminder & { message: { title: string; body: string }; deliveredAt: Date })[] = [];
+
+/**
+ * Reminders the local channel has delivered since the process started, oldest first
+ */
+export function getLocalDeliveries() {
+  return [...delivered];
+}
+
+export const localChannel: ReminderChannel = {
+  name: 'local',
+
+  isConfigured() {
+    return true;
+  },
+
+  async send(reminder: Reminder) {
+    const message = reminderMessage(reminder);
+    delivered.push({ ...reminder, message, deliveredAt: new Date() });
+    if (delivered.length > MAX_KEPT) delivered.shift();
+    console.log(`Reminder for ${reminder.userId}: ${message.title} - ${message.body}`);
+  }
+};
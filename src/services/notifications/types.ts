@@ -0,0 +1,34 @@
+import { Reminder } from '../../utils/reminders';
+
+export type ReminderChannelName = 'apns' | 'email' | 'webhook' | 'local';
+
+/**
+ * A way of getting a reminder to the user. Channels look up their own
+ * recipients (device tokens, email address) from the reminder's userId.
+ */
+export interface ReminderChannel {
+  readonly name: ReminderChannelName;
+  isConfigured(): boolean;
+  send(reminder: Reminder): Promise<void>;
+}
+
+/**
+ * The channel has nowhere to deliver to for this user (no registered device,
+ * no email address). Not worth retrying.
+ */
+export class ReminderRecipientError extends Error {
+  constructor(public readonly channel: ReminderChannelName, message: string) {
+    super(message);
+    this.name = 'ReminderRecipientError';
+  }
+}
+
+/**
+ * The channel's upstream rejected or failed the delivery
+ */
+export class ReminderDeliveryError extends Error {
+  constructor(public readonly channel: ReminderChannelName, message: string) {
+    super(message);
+    this.name = 'ReminderDeliveryError';
+  }
+}
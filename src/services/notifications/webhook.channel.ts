@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { env } from '../../config/env';
+import { Reminder, reminderMessage } from '../../utils/reminders';
+import { ReminderChannel, ReminderDeliveryError } from './types';
+
+const TIMEOUT_MS = 10000;
+
+/**
+ * JSON body posted for a reminder
+ */
+export function buildWebhookPayload(reminder: Reminder) {
+  return {
+    type: 'event.reminder',
+    userId: reminder.userId,
+    eventId: reminder.eventId,
+    occurrenceDate: reminder.occurrenceDate,
+    startsAt: reminder.startsAt.toISOString(),
+    remindAt: reminder.remindAt.toISOString(),
+    minutesBefore: reminder.minutesBefore,
+    ...reminderMessage(reminder)
+  };
+}
+
+export const webhookChannel: ReminderChannel = {
+  name: 'webhook',
+
+  isConfigured() {
+    return Boolean(env.REMINDER_WEBHOOK_URL);
+  },
+
+  async send(reminder: Reminder) {
+    const body = JSON.stringify(buildWebhookPayload(reminder));
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Lets the receiver check the request came from us
+    if (env.REMINDER_WEBHOOK_SECRET) {
+      const signature = crypto.createHmac('sha256', env.REMINDER_WEBHOOK_SECRET).update(body).digest('hex');
+      headers['X-DayRhythm-Signature'] = `sha256=${signature}`;
+    }
+
+    const response = await fetch(env.REMINDER_WEBHOOK_URL!, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new ReminderDeliveryError('webhook', `Webhook answered ${response.status}`);
+    }
+  }
+};
@@ -0,0 +1,118 @@
+import { EventInput } from '../schemas/event.schema';
+import { findNearDuplicate } from '../utils/conflicts';
+import { getEventEnd, toDbEvent, transformEvent } from '../utils/events';
+import { describeMutationFailure, updateUserEvent } from './eventMutations.service';
+import { fetchEventRows, insertEventRows } from './events.service';
+
+// Title similarity at which an overlapping event on the same date is the same event
+const DUPLICATE_TITLE_THRESHOLD = 0.7;
+
+type SavedEvent = ReturnType<typeof transformEvent>;
+
+export interface SavedParsedEvents {
+  created: { index: number; event: SavedEvent }[];
+  // Near-duplicates that filled in details the stored event was missing
+  merged: { index: number; event: SavedEvent; fields: string[] }[];
+  skipped: { index: number; duplicateOf: SavedEvent; reason: string }[];
+}
+
+/**
+ * Details a parsed event can add to the stored event it duplicates. Times and
+ * titles stay as stored, since the user may have adjusted them by hand.
+ */
+function mergeableChanges(stored: any, parsed: EventInput): Partial<EventInput> {
+  const changes: Partial<EventInput> = {};
+
+  if (!stored.description && parsed.description) changes.description = parsed.description;
+  if (!stored.category && parsed.category) changes.category = parsed.category;
+
+  const participants: string[] = stored.participants || [];
+  const added = (parsed.participants || []).filter(name => !participants.includes(name));
+  if (added.length > 0) changes.participants = [...participants, ...added];
+
+  return changes;
+}
+
+/**
+ * Save AI-parsed events, skipping or merging ones the calendar already has.
+ * A parsed event that starts on the same date as a stored one, overlaps it and
+ * has a similar title is a near-duplicate: it is merged when it adds missing
+ * details and skipped otherwise (always skipped for recurring series, which are
+ * never rewritten from a one-off parse). Duplicates within `events` are skipped too.
+ * Parsed times are wall-clock times in `timeZone`.
+ */
+export async function saveParsedEvents(
+  userId: string,
+  events: EventInput[],
+  timeZone: string
+): Promise<{ data: SavedParsedEvents | null; error: any }> {
+  const saved: SavedParsedEvents = { created: [], merged: [], skipped: [] };
+  if (events.length === 0) {
+    return { data: saved, error: null };
+  }
+
+  const candidates = events.map(event => toDbEvent(userId, { ...event, timeZone: event.timeZone ?? timeZone }));
+  const window = {
+    from: candidates.reduce((min, row) => (row.date < min ? row.date : min), candidates[0].date),
+    to: candidates.reduce((max, row) => {
+      const endDate = getEventEnd(row).endDate;
+      return endDate > max ? endDate : max;
+    }, candidates[0].date)
+  };
+
+  const { data: stored, error } = await fetchEventRows(userId, window, { timeZone });
+  if (error || !stored) {
+    return { data: null, error };
+  }
+
+  const toCreate: { index: number; row: any }[] = [];
+  const duplicatesOfNew: { index: number; of: number }[] = []; // Repeats within this parse
+  const merged = new Set<string>();
+
+  for (const [index, row] of candidates.entries()) {
+    const earlier = findNearDuplicate(row, toCreate.map(item => item.row), DUPLICATE_TITLE_THRESHOLD);
+    if (earlier) {
+      duplicatesOfNew.push({ index, of: toCreate.findIndex(item => item.row === earlier) });
+      continue;
+    }
+
+    const existing = findNearDuplicate(row, stored, DUPLICATE_TITLE_THRESHOLD);
+    if (!existing) {
+      toCreate.push({ index, row });
+      continue;
+    }
+
+    const changes = mergeableChanges(existing, events[index]);
+    const skip = (reason: string) => saved.skipped.push({ index, duplicateOf: transformEvent(existing), reason });
+
+    if (existing.recurrence_rule) {
+      skip('Matches an occurrence of a recurring event');
+    } else if (Object.keys(changes).length === 0 || merged.has(existing.id)) {
+      skip('Already in your calendar');
+    } else {
+      const result = await updateUserEvent(userId, existing.id, changes, { timeZone, expectedVersion: existing.version ?? 1 });
+      if (result.status === 'ok') {
+        merged.add(existing.id);
+        saved.merged.push({ index, event: transformEvent(result.event), fields: Object.keys(changes) });
+      } else {
+        if (result.status === 'failed') console.error('Error merging parsed event:', result.error);
+        skip(`Already in your calendar; could not add details (${describeMutationFailure(result)})`);
+      }
+    }
+  }
+
+  const { data: inserted, error: insertError } = await insertEventRows(toCreate.map(item => item.row));
+  if (insertError || !inserted) {
+    return { data: null, error: insertError };
+  }
+
+  toCreate.forEach((item, i) => saved.created.push({ index: item.index, event: transformEvent(inserted[i]) }));
+  duplicatesOfNew.forEach(({ index, of }) => saved.skipped.push({
+    index,
+    duplicateOf: transformEvent(inserted[of]),
+    reason: 'Repeated in this request'
+  }));
+  saved.skipped.sort((a, b) => a.index - b.index);
+
+  return { data: saved, error: null };
+}
@@ -0,0 +1,115 @@
+import { Request } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../config/env';
+import { resolvePreferences, UserPreferences } from '../utils/preferences';
+import { isValidTimeZone } from '../utils/timezone';
+
+const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * Fetch the stored profile row for a user, or null if they have not saved one
+ */
+export async function getProfileRow(userId: string): Promise<{ data: any | null; error: any }> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return { data, error };
+}
+
+/**
+ * Create or update the user's profile row
+ */
+export async function upsertProfileRow(
+  userId: string,
+  updates: Record<string, any>
+): Promise<{ data: any | null; error: any }> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .upsert({
+      user_id: userId,
+      ...updates,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' })
+    .select()
+    .single();
+
+  return { data, error };
+}
+
+/**
+ * Stored time zones of several users, for work not tied to a request. Users
+ * without a valid zone are left out.
+ */
+export async function getProfileTimeZones(userIds: string[]): Promise<Map<string, string>> {
+  const zones = new Map<string, string>();
+  if (userIds.length === 0) return zones;
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('user_id, time_zone')
+    .in('user_id', userIds);
+
+  if (error) {
+    console.error('Error fetching user profiles:', error);
+  }
+
+  for (const row of data || []) {
+    if (row.time_zone && isValidTimeZone(row.time_zone)) zones.set(row.user_id, row.time_zone);
+  }
+  return zones;
+}
+
+/**
+ * The user's working preferences. Best effort: defaults when the profile
+ * cannot be read, so features that use them still work.
+ */
+export async function getUserPreferences(userId: string): Promise<UserPreferences> {
+  const { data: profile, error } = await getProfileRow(userId);
+  if (error) {
+    console.error('Error fetching user profile:', error);
+  }
+
+  return resolvePreferences(profile);
+}
+
+/**
+ * Per-request time zone override: ?timeZone= or the X-Timezone header. Invalid
+ * zones are ignored. A `timeZone` body field is not an override, since on event
+ * writes it is the event's own zone.
+ */
+export function getRequestTimeZone(req: Request): string | undefined {
+  const candidates = [req.query?.timeZone, req.get('X-Timezone')];
+
+  return candidates.find((value): value is string => typeof value === 'string' && isValidTimeZone(value));
+}
+
+/**
+ * The user's zone for this request: the per-request override, else the stored
+ * profile zone. Undefined when neither is known.
+ */
+export async function getUserTimeZone(req: Request): Promise<string | undefined> {
+  const override = getRequestTimeZone(req);
+  if (override) return override;
+
+  const userId = req.user?.id;
+  if (!userId) return undefined;
+
+  const { data: profile, error } = await getProfileRow(userId);
+  if (error) {
+    console.error('Error fetching user profile:', error);
+  }
+
+  return profile?.time_zone && isValidTimeZone(profile.time_zone) ? profile.time_zone : undefined;
+}
+
+/**
+ * Time zone to interpret the request in, falling back to UTC
+ */
+export async function resolveTimeZone(req: Request): Promise<string> {
+  return (await getUserTimeZone(req)) ?? DEFAULT_TIME_ZONE;
+}
@@ -0,0 +1,284 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../config/env';
+import { addDays, formatDate } from '../utils/date';
+import {
+  computeReminders,
+  MAX_REMINDER_LEAD_MINUTES,
+  Reminder,
+  reminderKey,
+  transformReminder
+} from '../utils/reminders';
+import { fetchEventRows, fetchReminderEventPages } from './events.service';
+import { getReminderChannel, ReminderChannel, ReminderChannelName, ReminderRecipientError } from './notifications';
+import { DEFAULT_TIME_ZONE, getProfileTimeZones } from './profile.service';
+
+/**
+ * Server-side reminders: computed from the stored events on every run, so
+ * edits and deletes need no cleanup, and recorded in reminder_deliveries once
+ * attempted so each one goes out once across devices and server instances
+ */
+
+const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+
+// Reminders that fell due longer ago than this (e.g. while the server was down) are not sent late
+export const REMINDER_GRACE_MINUTES = 15;
+
+const MAX_DELIVERY_ATTEMPTS = 3;
+
+// A pending delivery this old was claimed by a process that died before finishing it
+const STALE_PENDING_MS = 5 * 60 * 1000;
+
+export interface DeliveryRunSummary {
+  due: number;
+  sent: number;
+  failed: number;
+  skipped: number; // The channel had nowhere to deliver to
+}
+
+// Event dates whose start could put a reminder in [from, to], padded a day each way for zones
+function eventDateWindow(from: Date, to: Date): { from: string; to: string } {
+  return {
+    from: addDays(formatDate(from), -1),
+    to: addDays(formatDate(new Date(to.getTime() + MAX_REMINDER_LEAD_MINUTES * 60000)), 1)
+  };
+}
+
+async function zoneResolver(rows: any[]): Promise<(row: any) => string> {
+  const floatingUsers = [...new Set(rows.filter(row => !row.time_zone).map(row => row.user_id as string))];
+  const zones = await getProfileTimeZones(floatingUsers);
+  return row => zones.get(row.user_id) ?? DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Deliveries attempted for reminders due in the window, optionally only for
+ * one user or some events
+ */
+export async function listDeliveryRows(
+  window: { from: Date; to: Date },
+  filter: { userId?: string; eventIds?: string[] } = {}
+): Promise<{ data: any[] | null; error: any }> {
+  let query = supabase
+    .from('reminder_deliveries')
+    .select('*')
+    .gte('remind_at', window.from.toISOString())
+    .lte('remind_at', window.to.toISOString());
+
+  if (filter.userId) query = query.eq('user_id', filter.userId);
+  if (filter.eventIds) query = query.in('event_id', filter.eventIds);
+
+  const { data, error } = await query;
+  return { data, error };
+}
+
+// Record a first attempt; null when another process got there first
+async function claimDelivery(reminder: Reminder, channel: ReminderChannelName): Promise<any | null> {
+  const { data, error } = await supabase
+    .from('reminder_deliveries')
+    .upsert({
+      user_id: reminder.userId,
+      event_id: reminder.eventId,
+      occurrence_date: reminder.occurrenceDate,
+      minutes_before: reminder.minutesBefore,
+      remind_at: reminder.remindAt.toISOString(),
+      channel,
+      status: 'pending',
+      attempts: 1
+    }, { onConflict: 'event_id,remind_at', ignoreDuplicates: true })
+    .select();
+
+  if (error) {
+    console.error('Error recording reminder delivery:', error);
+    return null;
+  }
+  return data?.[0] ?? null;
+}
+
+// Take a failed (or abandoned) delivery for another attempt; compare-and-swap on attempts
+async function retryDelivery(row: any, channel: ReminderChannelName, now: Date): Promise<any | null> {
+  const abandoned = row.status === 'pending' && now.getTime() - Date.parse(row.updated_at) > STALE_PENDING_MS;
+  if ((row.status !== 'failed' && !abandoned) || row.attempts >= MAX_DELIVERY_ATTEMPTS) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('reminder_deliveries')
+    .update({ status: 'pending', channel, attempts: row.attempts + 1, updated_at: now.toISOString() })
+    .eq('id', row.id)
+    .eq('status', row.status)
+    .eq('attempts', row.attempts)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error recording reminder delivery:', error);
+    return null;
+  }
+  return data;
+}
+
+async function finishDelivery(id: string, updates: Record<string, any>): Promise<void> {
+  const { error } = await supabase
+    .from('reminder_deliveries')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error recording reminder delivery:', error);
+  }
+}
+
+/**
+ * Send every reminder that fell due within the grace period and has not gone
+ * out yet through `channel`. Failed deliveries are retried on later runs, up
+ * to MAX_DELIVERY_ATTEMPTS, while still within the grace period. Events are
+ * read and delivered a page at a time.
+ */
+export async function deliverDueReminders(
+  channel: ReminderChannel,
+  now: Date = new Date()
+): Promise<{ data: DeliveryRunSummary | null; error: any }> {
+  const window = { from: new Date(now.getTime() - REMINDER_GRACE_MINUTES * 60000), to: now };
+  const summary: DeliveryRunSummary = { due: 0, sent: 0, failed: 0, skipped: 0 };
+
+  for await (const { data: rows, error } of fetchReminderEventPages(eventDateWindow(window.from, window.to))) {
+    if (error || !rows) {
+      return { data: null, error };
+    }
+
+    const due = computeReminders(rows, window, await zoneResolver(rows));
+    if (due.length === 0) continue;
+    summary.due += due.length;
+
+    const { data: deliveries, error: deliveriesError } = await listDeliveryRows(window, {
+      eventIds: [...new Set(due.map(reminder => reminder.eventId))]
+    });
+    if (deliveriesError || !deliveries) {
+      return { data: null, error: deliveriesError };
+    }
+    const attempted = new Map(deliveries.map(row => [reminderKey(row.event_id, row.remind_at), row]));
+
+    for (const reminder of due) {
+      const existing = attempted.get(reminderKey(reminder.eventId, reminder.remindAt));
+      const claimed = existing
+        ? await retryDelivery(existing, channel.name, now)
+        : await claimDelivery(reminder, channel.name);
+      if (!claimed) continue;
+
+      try {
+        await channel.send(reminder);
+        await finishDelivery(claimed.id, { status: 'sent', sent_at: new Date().toISOString(), error: null });
+        summary.sent++;
+      } catch (sendError) {
+        const noRecipient = sendError instanceof ReminderRecipientError;
+        await finishDelivery(claimed.id, {
+          status: noRecipient ? 'skipped' : 'failed',
+          error: sendError instanceof Error ? sendError.message : String(sendError)
+        });
+        if (noRecipient) {
+          summary.skipped++;
+        } else {
+          console.error('Error delivering reminder:', sendError);
+          summary.failed++;
+        }
+      }
+    }
+  }
+
+  return { data: summary, error: null };
+}
+
+/**
+ * The user's reminders due from the start of the grace period until `days`
+ * from now, with the state of any delivery attempt. Start times are shown in
+ * `timeZone`.
+ */
+export async function getUpcomingReminders(
+  userId: string,
+  days: number,
+  timeZone: string,
+  now: Date = new Date()
+): Promise<{ data: ReturnType<typeof transformReminder>[] | null; error: any }> {
+  const window = {
+    from: new Date(now.getTime() - REMINDER_GRACE_MINUTES * 60000),
+    to: new Date(now.getTime() + days * 86400000)
+  };
+
+  const [events, deliveries] = await Promise.all([
+    fetchEventRows(userId, eventDateWindow(window.from, window.to)),
+    listDeliveryRows(window, { userId })
+  ]);
+  if (events.error || !events.data) {
+    return { data: null, error: events.error };
+  }
+  if (deliveries.error) {
+    return { data: null, error: deliveries.error };
+  }
+
+  const attempted = new Map((deliveries.data || []).map(row => [reminderKey(row.event_id, row.remind_at), row]));
+  const reminders = computeReminders(events.data, window, await zoneResolver(events.data));
+
+  return {
+    data: reminders.map(reminder =>
+      transformReminder(reminder, attempted.get(reminderKey(reminder.eventId, reminder.remindAt)) ?? null, timeZone, now)
+    ),
+    error: null
+  };
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * One delivery run through the configured channel, skipped while another run
+ * in this process is still going. Null data with no error means no usable
+ * channel is configured.
+ */
+export async function runReminderDelivery(): Promise<{ data: DeliveryRunSummary | null; error: any }> {
+  const channel = getReminderChannel();
+  if (!channel) {
+    return { data: null, error: null };
+  }
+
+  // A slow run (many reminders, slow channel) must not overlap the next one
+  if (running) {
+    return { data: { due: 0, sent: 0, failed: 0, skipped: 0 }, error: null };
+  }
+  running = true;
+  try {
+    return await deliverDueReminders(channel);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * On a long-running server, deliver due reminders every
+ * REMINDER_INTERVAL_SECONDS. Serverless deployments call
+ * POST /api/reminders/deliver from a cron instead. Does nothing (and returns
+ * false) when no usable channel is set.
+ */
+export function startReminderScheduler(): boolean {
+  if (!getReminderChannel()) {
+    if (env.REMINDER_CHANNEL) {
+      console.warn(`Reminder channel "${env.REMINDER_CHANNEL}" is missing its configuration; reminders are not delivered`);
+    }
+    return false;
+  }
+  if (schedulerTimer) return true;
+
+  const tick = async () => {
+    try {
+      const { error } = await runReminderDelivery();
+      if (error) {
+        console.error('Error delivering reminders:', error);
+      }
+    } catch (error) {
+      console.error('Error delivering reminders:', error);
+    }
+  };
+
+  schedulerTimer = setInterval(tick, env.REMINDER_INTERVAL_SECONDS * 1000);
+  schedulerTimer.unref();
+  void tick();
+  return true;
+}
@@ -0,0 +1,260 @@
+import { PeriodReview, PeriodReviewSchema, REVIEW_MAX_ITEMS } from '../schemas/ai.schema';
+import { CompletionStats, countCompletion, roundHours, roundValues } from '../utils/analytics';
+import { categoryKey, CategoryRegistry } from '../utils/categories';
+import { addDays, diffDays, getPeriodBounds, getPreviousPeriod } from '../utils/date';
+import { clipEventRowsToDate } from '../utils/events';
+import { DEFAULT_PREFERENCES, UserPreferences } from '../utils/preferences';
+import { todayInZone } from '../utils/timezone';
+import { calculateBalanceScore, calculateVisualInsights } from '../utils/visualInsights';
+import { getCategoryRegistry } from './categories.service';
+import { fetchEventRows } from './events.service';
+import { generateValidated, ValidationReport } from './llm';
+import { getUserPreferences } from './profile.service';
+
+/**
+ * Weekly and monthly reviews: the period's metrics next to the previous
+ * period's, plus a written review of what changed
+ */
+
+export type ReviewPeriod = 'week' | 'month';
+
+export interface PeriodBounds {
+  from: string;
+  to: string; // Inclusive
+}
+
+export interface PeriodMetrics extends PeriodBounds {
+  eventCount: number;
+  totalHours: number;
+  hoursByCategory: Record<string, number>;
+  completion: CompletionStats;
+  focus: {
+    excellent: number;
+    good: number;
+    fragmented: number;
+    excellentHours: number;
+    qualityScore: number | null; // 0-100: excellent blocks count fully, good ones half
+  };
+  balance: {
+    work: number;
+    personal: number;
+    health: number;
+    other: number;
+    score: number;
+  };
+}
+
+export interface PeriodChanges {
+  totalHours: number;
+  completionRate: number | null;
+  focusQualityScore: number | null;
+  balanceScore: number;
+  hoursByCategory: Record<string, number>;
+}
+
+export interface PeriodReviewResult {
+  period: ReviewPeriod;
+  current: PeriodMetrics;
+  previous: PeriodMetrics;
+  changes: PeriodChanges;
+  review: PeriodReview;
+  validation?: ValidationReport;
+}
+
+/**
+ * Metrics for the rows falling in `bounds`. Time is counted per day, so only
+ * the part of a multi-day event inside the period counts; completion counts an
+ * event once, on the day it starts. Focus and balance are judged against the
+ * user's preferences, with categories grouped through `registry` when given.
+ */
+export function calculatePeriodMetrics(
+  rows: any[],
+  bounds: PeriodBounds,
+  today: string,
+  preferences: UserPreferences = DEFAULT_PREFERENCES,
+  registry?: CategoryRegistry
+): PeriodMetrics {
+  const hoursByCategory: Record<string, number> = {};
+  const balance = { work: 0, personal: 0, health: 0, other: 0 };
+  const focus = { excellent: 0, good: 0, fragmented: 0, excellentHours: 0 };
+  let totalHours = 0;
+
+  for (let day = 0; day <= diffDays(bounds.from, bounds.to); day++) {
+    const timed = clipEventRowsToDate(rows, addDays(bounds.from, day)).filter(row => !row.is_all_day);
+    if (timed.length === 0) continue;
+
+    const { focusBlocks, workLifeBalance } = calculateVisualInsights(timed, preferences, registry);
+    for (const block of focusBlocks) {
+      focus[block.quality]++;
+      if (block.quality === 'excellent') focus.excellentHours += block.duration;
+    }
+    balance.work += workLifeBalance.work;
+    balance.personal += workLifeBalance.personal;
+    balance.health += workLifeBalance.health;
+    balance.other += workLifeBalance.other;
+
+    for (const row of timed) {
+      const hours = Math.max(0, row.end_time - row.start_time);
+      const category = categoryKey(row.category);
+      hoursByCategory[category] = (hoursByCategory[category] || 0) + hours;
+      totalHours += hours;
+    }
+  }
+
+  const blocks = focus.excellent + focus.good + focus.fragmented;
+  const balanceHours = balance.work + balance.personal + balance.health + balance.other;
+
+  return {
+    ...bounds,
+    eventCount: rows.filter(row => row.date >= bounds.from && row.date <= bounds.to).length,
+    totalHours: roundHours(totalHours),
+    hoursByCategory: roundValues(hoursByCategory),
+    completion: countCompletion(rows, bounds, today),
+    focus: {
+      ...focus,
+      excellentHours: roundHours(focus.excellentHours),
+      qualityScore: blocks > 0 ? Math.round((focus.excellent + focus.good * 0.5) / blocks * 100) : null
+    },
+    balance: {
+      ...roundValues(balance),
+      score: calculateBalanceScore(balance, balanceHours, preferences.idealBalance)
+    }
+  };
+}
+
+export function comparePeriods(current: PeriodMetrics, previous: PeriodMetrics): PeriodChanges {
+  const difference = (a: number | null, b: number | null) => (a === null || b === null ? null : a - b);
+  const categories = new Set([...Object.keys(current.hoursByCategory), ...Object.keys(previous.hoursByCategory)]);
+
+  return {
+    totalHours: roundHours(current.totalHours - previous.totalHours),
+    completionRate: difference(current.completion.rate, previous.completion.rate),
+    focusQualityScore: difference(current.focus.qualityScore, previous.focus.qualityScore),
+    balanceScore: current.balance.score - previous.balance.score,
+    hoursByCategory: Object.fromEntries([...categories].map(category => [
+      category,
+      roundHours((current.hoursByCategory[category] || 0) - (previous.hoursByCategory[category] || 0))
+    ]))
+  };
+}
+
+function reviewRequest(period: ReviewPeriod, current: PeriodMetrics, previous: PeriodMetrics, changes: PeriodChanges) {
+  return {
+    messages: [
+      {
+        role: 'system' as const,
+        content: `You are a productivity coach reviewing a user's calendar ${period} against the ${period} before it.
+Hours are decimal hours. completion.rate, focus.qualityScore and balance.score are 0-100 (higher is better); balance.score measures how close the split is to 60% work, 25% personal, 15% health.
+Answer with ONLY a JSON object, no other text:
+{"summary": "2-3 sentences", "wins": ["..."], "regressions": ["..."], "suggestions": ["..."]}
+Wins and regressions must cite the numbers that changed. Suggestions must be concrete actions for the next ${period} (what to schedule, move or protect, and when). At most ${REVIEW_MAX_ITEMS} items per list; use [] when there is nothing to report.`
+      },
+      {
+        role: 'user' as const,
+        content: JSON.stringify({ period, current, previous, changes }, null, 2)
+      }
+    ],
+    temperature: 0.5,
+    maxTokens: 1000
+  };
+}
+
+// Used when the model never produces a valid review: the same comparison, stated plainly
+function fallbackReview(period: ReviewPeriod, current: PeriodMetrics, changes: PeriodChanges): PeriodReview {
+  const wins: string[] = [];
+  const regressions: string[] = [];
+  const suggestions: string[] = [];
+
+  const compare = (change: number | null, label: string) => {
+    if (change === null || change === 0) return;
+    (change > 0 ? wins : regressions).push(`${label} ${change > 0 ? 'rose' : 'fell'} by ${Math.abs(change)} points.`);
+  };
+  compare(changes.completionRate, 'Completion rate');
+  compare(changes.focusQualityScore, 'Focus block quality');
+  compare(changes.balanceScore, 'Balance score');
+
+  if (current.focus.fragmented > current.focus.excellent) {
+    suggestions.push('Merge short blocks into at least one 90-minute focus session a day.');
+  }
+  if (current.completion.rate !== null && current.completion.rate < 50) {
+    suggestions.push('Mark events as completed as you go, and drop ones you keep skipping.');
+  }
+  if (current.balance.health < 1) {
+    suggestions.push(`Schedule some exercise or health time this ${period}.`);
+  }
+  if (suggestions.length === 0) {
+    suggestions.push(`Keep this ${period}'s structure and protect your longest focus blocks.`);
+  }
+
+  return {
+    summary: `You scheduled ${current.totalHours} hours across ${current.eventCount} events this ${period}, ${changes.totalHours >= 0 ? 'up' : 'down'} ${Math.abs(changes.totalHours)} hours on the previous ${period}.`,
+    wins,
+    regressions,
+    suggestions
+  };
+}
+
+/**
+ * Review the `period` containing `date` against the one before it, in the
+ * user's time zone. Periods without events on either side are reviewed without
+ * calling the model.
+ */
+export async function reviewPeriod(
+  userId: string,
+  period: ReviewPeriod,
+  date: string,
+  timeZone: string
+): Promise<{ data: PeriodReviewResult | null; error: any }> {
+  const bounds = getPeriodBounds(period, date);
+  const previousBounds = getPreviousPeriod(period, bounds);
+
+  const { data: rows, error } = await fetchEventRows(userId, { from: previousBounds.from, to: bounds.to }, { timeZone });
+  if (error || !rows) {
+    return { data: null, error };
+  }
+
+  const today = todayInZone(timeZone);
+  const [preferences, registry] = await Promise.all([getUserPreferences(userId), getCategoryRegistry(userId)]);
+  const current = calculatePeriodMetrics(rows, bounds, today, preferences, registry);
+  const previous = calculatePeriodMetrics(rows, previousBounds, today, preferences, registry);
+  const changes = comparePeriods(current, previous);
+
+  if (current.eventCount === 0 && previous.eventCount === 0) {
+    return {
+      data: {
+        period,
+        current,
+        previous,
+        changes,
+        review: {
+          summary: `No events this ${period} or the previous one.`,
+          wins: [],
+          regressions: [],
+          suggestions: [`Block out time for your priorities this ${period} so there is something to review.`]
+        }
+      },
+      error: null
+    };
+  }
+
+  const { data: review, report: validation } = await generateValidated('review', reviewRequest(period, current, previous, changes), {
+    schema: PeriodReviewSchema,
+    repairInstruction: 'Return ONLY the corrected JSON object with summary, wins, regressions and suggestions.'
+  });
+
+  if (!review) {
+    validation.fallback = true;
+  }
+
+  return {
+    data: {
+      period,
+      current,
+      previous,
+      changes,
+      review: review ?? fallbackReview(period, current, changes),
+      validation
+    },
+    error: null
+  };
+}
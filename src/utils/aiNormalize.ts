@@ -0,0 +1,179 @@
+import { isValidDate } from './date';
+
+/**
+ * Field-level clean-up of model output before schema validation. Each normalizer
+ * returns the repaired value plus a human-readable note for every change it made.
+ */
+
+export interface Normalized<T = unknown> {
+  value: T;
+  changes: string[];
+}
+
+// Default length the parse prompts promise when no duration is given
+const DEFAULT_EVENT_HOURS = 0.5;
+
+function round(hours: number): number {
+  return Math.round(hours * 60) / 60;
+}
+
+/**
+ * Decimal hours from the shapes models tend to produce: 15.5, "15.5", "15:30", "3:30pm", 1530
+ */
+export function toDecimalHours(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    if (value >= 0 && value <= 24) return round(value);
+    // 1530 -> 15:30
+    const hours = Math.floor(value / 100);
+    const minutes = value % 100;
+    if (Number.isInteger(value) && value >= 100 && hours <= 24 && minutes < 60) return round(hours + minutes / 60);
+    return null;
+  }
+
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(text)) return toDecimalHours(Number(text));
+
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  if (match[3] === 'pm' && hours < 12) hours += 12;
+  if (match[3] === 'am' && hours === 12) hours = 0;
+  return hours <= 24 && minutes < 60 ? round(hours + minutes / 60) : null;
+}
+
+/**
+ * "#abc" -> "#AABBCC", "ff69b4" -> "#FF69B4"; null when it is not a hex color at all
+ */
+export function toHexColor(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const hex = value.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    return `#${hex.split('').map(char => char + char).join('')}`.toUpperCase();
+  }
+  return /^[0-9a-f]{6}$/i.test(hex) ? `#${hex.toUpperCase()}` : null;
+}
+
+function toDateString(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  return isValidDate(date) ? date : null;
+}
+
+/**
+ * Unwrap `{ events: [...] }` (or any single-array object) and wrap a bare item
+ */
+export function toArray(value: unknown, key: string): Normalized<unknown[]> {
+  if (Array.isArray(value)) return { value, changes: [] };
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (Array.isArray(record[key])) {
+      return { value: record[key] as unknown[], changes: [`Unwrapped "${key}" array from object`] };
+    }
+    const arrays = Object.values(record).filter(Array.isArray);
+    if (arrays.length === 1) {
+      return { value: arrays[0] as unknown[], changes: ['Unwrapped array from object'] };
+    }
+    return { value: [value], changes: ['Wrapped single object in an array'] };
+  }
+
+  return { value: [], changes: [] };
+}
+
+/**
+ * Repair one AI-parsed event: coerce times, dates and colors, default a missing
+ * end time or date, and drop optional fields that cannot be salvaged
+ */
+export function normalizeParsedEvent(raw: unknown, defaults: { date: string; eventHours?: number }): Normalized {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { value: raw, changes: [] };
+  }
+
+  const event: Record<string, unknown> = { ...(raw as Record<string, unknown>) };
+  const changes: string[] = [];
+
+  if (typeof event.title === 'string' && event.title.trim() !== event.title) {
+    event.title = event.title.trim();
+    changes.push('Trimmed title');
+  }
+
+  for (const field of ['startTime', 'endTime'] as const) {
+    if (event[field] === undefined || event[field] === null) continue;
+    const hours = toDecimalHours(event[field]);
+    if (hours !== null && hours !== event[field]) {
+      changes.push(`Converted ${field} ${JSON.stringify(event[field])} to ${hours}`);
+      event[field] = hours;
+    }
+  }
+
+  if ((event.endTime === undefined || event.endTime === null) && typeof event.startTime === 'number') {
+    const eventHours = defaults.eventHours ?? DEFAULT_EVENT_HOURS;
+    event.endTime = Math.min(24, round(event.startTime + eventHours));
+    changes.push(`Defaulted missing endTime to ${Math.round(eventHours * 60)} minutes after startTime`);
+  }
+
+  if (event.date === undefined || event.date === null || event.date === '') {
+    event.date = defaults.date;
+    changes.push(`Defaulted missing date to ${defaults.date}`);
+  } else {
+    const date = toDateString(event.date);
+    if (date && date !== event.date) {
+      changes.push(`Converted date ${JSON.stringify(event.date)} to ${date}`);
+      event.date = date;
+    }
+  }
+
+  if (event.colorHex !== undefined) {
+    const color = toHexColor(event.colorHex);
+    if (color === null) {
+      delete event.colorHex;
+      changes.push('Removed invalid colorHex');
+    } else if (color !== event.colorHex) {
+      changes.push(`Normalized colorHex to ${color}`);
+      event.colorHex = color;
+    }
+  }
+
+  for (const field of ['description', 'emoji', 'category'] as const) {
+    if (event[field] === null || (event[field] !== undefined && typeof event[field] !== 'string')) {
+      delete event[field];
+      changes.push(`Removed non-text ${field}`);
+    }
+  }
+
+  return { value: event, changes };
+}
+
+/**
+ * Insight lists: unwrap, trim, drop empties and keep at most `count`
+ */
+export function normalizeInsights(raw: unknown, count: number): Normalized {
+  const { value: list, changes } = toArray(raw, 'insights');
+  const cleaned = list
+    .map(item => (typeof item === 'string' ? item.trim() : item))
+    .filter(item => item !== '');
+  if (cleaned.length !== list.length) changes.push('Removed empty insights');
+  if (cleaned.length > count) changes.push(`Kept the first ${count} insights`);
+  return { value: cleaned.slice(0, count), changes };
+}
+
+/**
+ * Bullet text: "-"/"*"/numbered bullets become "• ", preamble lines are dropped
+ */
+export function normalizeBullets(raw: string, count: number): Normalized<string> {
+  const marker = /^([•\-*]|\d+[.)])\s+/;
+  const lines = raw.split('\n').map(line => line.trim()).filter(Boolean);
+  const marked = lines.filter(line => marker.test(line));
+  const bullets = marked.map(line => line.replace(marker, '• '));
+
+  const changes: string[] = [];
+  if (marked.length !== lines.length) changes.push('Dropped lines that were not bullet points');
+  if (bullets.some((bullet, i) => bullet !== marked[i])) changes.push('Normalized bullet markers');
+  if (bullets.length > count) changes.push(`Kept the first ${count} bullet points`);
+
+  return { value: bullets.slice(0, count).join('\n'), changes };
+}
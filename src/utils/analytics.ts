@@ -0,0 +1,182 @@
+import { BROAD_CATEGORIES, BroadCategory, broadCategory, categoryKey, CategoryRegistry } from './categories';
+import { addDays, dayOfWeek, diffDays, startOfWeek } from './date';
+import { clipEventRowsToDate, getEventDurationHours } from './events';
+import { calculateVisualInsights } from './visualInsights';
+
+/**
+ * Breakdowns of the events in a date range, for charts. Time is counted per
+ * day, so only the part of a multi-day event inside the range counts; event
+ * counts and completion use the day an event starts. All-day events count as
+ * events but take no time.
+ */
+
+export type AnalyticsGroupBy = 'day' | 'week' | 'month';
+
+export interface DateRangeBounds {
+  from: string;
+  to: string; // Inclusive
+}
+
+export interface CompletionStats {
+  completed: number;
+  due: number; // Events that have started by today; later ones cannot be completed yet
+  rate: number | null; // Percentage of due events completed, null when none were due
+}
+
+export interface AnalyticsBucket {
+  start: string;
+  end: string; // Inclusive, clamped to the range
+  events: number;
+  hours: number;
+  completion: CompletionStats;
+  hoursByBroadCategory: Record<BroadCategory, number>;
+}
+
+export interface FocusBlock {
+  title: string;
+  date: string;
+  startTime: number;
+  hours: number;
+}
+
+export interface RangeAnalytics {
+  hoursByCategory: Record<string, number>;
+  hoursByBroadCategory: Record<BroadCategory, number>;
+  hourOfDay: { hour: number; hours: number; events: number }[]; // Events = those starting in that hour
+  dayOfWeek: { day: string; hours: number; events: number }[]; // Monday first
+  completion: CompletionStats;
+  averageEventHours: number;
+  longestFocusBlock: FocusBlock | null;
+  fragmentation: {
+    fragmentedBlocks: number;
+    totalBlocks: number;
+    score: number; // 0-100, share of blocks shorter than 30 minutes
+  };
+  groupBy: AnalyticsGroupBy;
+  series: AnalyticsBucket[];
+}
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export function roundHours(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function roundValues<K extends string>(values: Record<K, number>): Record<K, number> {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, roundHours(value as number)])) as Record<K, number>;
+}
+
+export function countCompletion(rows: any[], bounds: DateRangeBounds, today: string): CompletionStats {
+  const due = rows.filter(row => row.date >= bounds.from && row.date <= bounds.to && row.date <= today);
+  const completed = due.filter(row => row.is_completed).length;
+  return {
+    completed,
+    due: due.length,
+    rate: due.length > 0 ? Math.round(completed / due.length * 100) : null
+  };
+}
+
+function emptyBroadCategories(): Record<BroadCategory, number> {
+  return Object.fromEntries(BROAD_CATEGORIES.map(category => [category, 0])) as Record<BroadCategory, number>;
+}
+
+function bucketStart(date: string, groupBy: AnalyticsGroupBy): string {
+  if (groupBy === 'week') return startOfWeek(date);
+  if (groupBy === 'month') return `${date.slice(0, 7)}-01`;
+  return date;
+}
+
+/**
+ * Everything the analytics endpoint charts for `bounds`. `today` is the
+ * viewer's current date, so future events do not count against completion.
+ * Broad categories come from `registry` when given.
+ */
+export function calculateRangeAnalytics(
+  rows: any[],
+  bounds: DateRangeBounds,
+  today: string,
+  groupBy: AnalyticsGroupBy = 'day',
+  registry?: CategoryRegistry
+): RangeAnalytics {
+  const hoursByCategory: Record<string, number> = {};
+  const hoursByBroadCategory = emptyBroadCategories();
+  const hourOfDay = Array.from({ length: 24 }, (_, hour) => ({ hour, hours: 0, events: 0 }));
+  const weekdays = WEEKDAY_NAMES.map(day => ({ day, hours: 0, events: 0 }));
+  const buckets = new Map<string, AnalyticsBucket>();
+  let longestFocusBlock: FocusBlock | null = null;
+  let fragmentedBlocks = 0;
+  let totalBlocks = 0;
+
+  const days = diffDays(bounds.from, bounds.to);
+  for (let offset = 0; offset <= days; offset++) {
+    const date = addDays(bounds.from, offset);
+    const key = bucketStart(date, groupBy);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      const start = key < bounds.from ? bounds.from : key;
+      bucket = { start, end: start, events: 0, hours: 0, completion: { completed: 0, due: 0, rate: null }, hoursByBroadCategory: emptyBroadCategories() };
+      buckets.set(key, bucket);
+    }
+    bucket.end = date;
+
+    const weekday = weekdays[dayOfWeek(date)];
+    const starting = rows.filter(row => row.date === date);
+    bucket.events += starting.length;
+    weekday.events += starting.length;
+
+    const timed = clipEventRowsToDate(rows, date).filter(row => !row.is_all_day);
+    for (const row of timed) {
+      const hours = Math.max(0, row.end_time - row.start_time);
+      const broad = broadCategory(row.category, registry);
+      const category = categoryKey(row.category);
+      hoursByCategory[category] = (hoursByCategory[category] || 0) + hours;
+      hoursByBroadCategory[broad] += hours;
+      bucket.hoursByBroadCategory[broad] += hours;
+      bucket.hours += hours;
+      weekday.hours += hours;
+
+      for (let hour = Math.floor(row.start_time); hour < Math.min(24, Math.ceil(row.end_time)); hour++) {
+        hourOfDay[hour].hours += Math.max(0, Math.min(hour + 1, row.end_time) - Math.max(hour, row.start_time));
+      }
+    }
+    for (const row of starting.filter(row => !row.is_all_day)) {
+      hourOfDay[Math.min(23, Math.floor(row.start_time))].events++;
+    }
+
+    for (const block of calculateVisualInsights(timed).focusBlocks) {
+      totalBlocks++;
+      if (block.quality === 'fragmented') fragmentedBlocks++;
+      if (!longestFocusBlock || block.duration > longestFocusBlock.hours) {
+        longestFocusBlock = { title: block.title, date, startTime: block.startTime, hours: block.duration };
+      }
+    }
+  }
+
+  const inRange = rows.filter(row => row.date >= bounds.from && row.date <= bounds.to);
+  const timedInRange = inRange.filter(row => !row.is_all_day);
+  const series = [...buckets.values()].map(bucket => ({
+    ...bucket,
+    hours: roundHours(bucket.hours),
+    completion: countCompletion(rows, { from: bucket.start, to: bucket.end }, today),
+    hoursByBroadCategory: roundValues(bucket.hoursByBroadCategory)
+  }));
+
+  return {
+    hoursByCategory: roundValues(hoursByCategory),
+    hoursByBroadCategory: roundValues(hoursByBroadCategory),
+    hourOfDay: hourOfDay.map(slot => ({ ...slot, hours: roundHours(slot.hours) })),
+    dayOfWeek: [...weekdays.slice(1), weekdays[0]].map(slot => ({ ...slot, hours: roundHours(slot.hours) })),
+    completion: countCompletion(rows, bounds, today),
+    averageEventHours: timedInRange.length > 0
+      ? roundHours(timedInRange.reduce((sum, row) => sum + getEventDurationHours(row), 0) / timedInRange.length)
+      : 0,
+    longestFocusBlock: longestFocusBlock && { ...longestFocusBlock, hours: roundHours(longestFocusBlock.hours) },
+    fragmentation: {
+      fragmentedBlocks,
+      totalBlocks,
+      score: totalBlocks > 0 ? Math.round(fragmentedBlocks / totalBlocks * 100) : 0
+    },
+    groupBy,
+    series
+  };
+}
@@ -0,0 +1,114 @@
+import { addDays } from './date';
+import { clipEventRowsToDate } from './events';
+import { DEFAULT_ENERGY_WINDOWS, EnergyLevel, EnergyWindow, scoreEnergy } from './energy';
+
+/**
+ * Free time between event rows (snake_case, already in the user's time zone)
+ */
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface FreeSlotOptions {
+  from: string;
+  to: string;
+  durationHours: number;
+  workStart: number;
+  workEnd: number;
+  bufferHours?: number; // Kept clear before and after every event
+  notBefore?: { date: string; hours: number }; // Usually "now", so past time is never offered
+  energyWindows?: EnergyWindow[];
+}
+
+export interface FreeSlot {
+  date: string;
+  startTime: number;
+  endTime: number;
+  // The whole free gap the slot sits in, so clients can offer to shift it
+  gapStart: number;
+  gapEnd: number;
+  energy: EnergyLevel;
+  score: number;
+}
+
+// Slots start on quarter hours
+const SLOT_STEP_HOURS = 0.25;
+
+function roundUpToStep(hours: number): number {
+  return Math.ceil(hours / SLOT_STEP_HOURS - 1e-9) * SLOT_STEP_HOURS;
+}
+
+/**
+ * Gaps inside working hours on one date that no timed event (plus buffer) touches
+ */
+export function findFreeGaps(
+  rows: any[],
+  date: string,
+  options: { workStart: number; workEnd: number; bufferHours?: number; earliest?: number }
+): TimeRange[] {
+  const { workStart, workEnd, bufferHours = 0, earliest = 0 } = options;
+
+  const busy = clipEventRowsToDate(rows, date)
+    .filter(row => !row.is_all_day && row.end_time > row.start_time)
+    .map(row => ({ start: row.start_time - bufferHours, end: row.end_time + bufferHours }))
+    .sort((a, b) => a.start - b.start);
+
+  const gaps: TimeRange[] = [];
+  let cursor = Math.max(workStart, earliest);
+
+  for (const range of busy) {
+    if (range.start > cursor) {
+      gaps.push({ start: cursor, end: Math.min(range.start, workEnd) });
+    }
+    cursor = Math.max(cursor, range.end);
+    if (cursor >= workEnd) break;
+  }
+
+  if (cursor < workEnd) {
+    gaps.push({ start: cursor, end: workEnd });
+  }
+
+  return gaps.filter(gap => gap.end > gap.start);
+}
+
+/**
+ * Best-placed slot of `durationHours` in each free gap of the range,
+ * ranked by how much of it falls in high-energy hours, then by how soon it is
+ */
+export function findFreeSlots(rows: any[], options: FreeSlotOptions): FreeSlot[] {
+  const { from, to, durationHours, workStart, workEnd, bufferHours, notBefore } = options;
+  const energyWindows = options.energyWindows ?? DEFAULT_ENERGY_WINDOWS;
+  const slots: FreeSlot[] = [];
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (notBefore && date < notBefore.date) continue;
+    const earliest = notBefore && date === notBefore.date ? notBefore.hours : 0;
+
+    for (const gap of findFreeGaps(rows, date, { workStart, workEnd, bufferHours, earliest })) {
+      let best: FreeSlot | null = null;
+
+      for (let start = roundUpToStep(gap.start); start + durationHours <= gap.end + 1e-9; start += SLOT_STEP_HOURS) {
+        const { score, level } = scoreEnergy(start, start + durationHours, energyWindows);
+        if (!best || score > best.score) {
+          best = {
+            date,
+            startTime: start,
+            endTime: start + durationHours,
+            gapStart: gap.start,
+            gapEnd: gap.end,
+            energy: level,
+            score
+          };
+        }
+      }
+
+      if (best) slots.push(best);
+    }
+  }
+
+  return slots.sort((a, b) =>
+    b.score - a.score || a.date.localeCompare(b.date) || a.startTime - b.startTime
+  );
+}
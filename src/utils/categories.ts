@@ -0,0 +1,129 @@
+import { classifyTaskType, TaskType } from './energy';
+
+/**
+ * Event categories: free-form names, the broad groups the balance score is
+ * based on, and the per-user registry that says which group (and kind of
+ * work) each name belongs to
+ */
+
+export type BroadCategory = 'work' | 'personal' | 'health' | 'other';
+
+export const BROAD_CATEGORIES: BroadCategory[] = ['work', 'personal', 'health', 'other'];
+
+export const TASK_TYPES: TaskType[] = ['deep-work', 'meetings', 'admin', 'creative', 'other'];
+
+export interface CategoryDefinition {
+  name: string;
+  group: BroadCategory;
+  taskType: TaskType;
+  colorHex: string | null;
+  emoji: string | null;
+  keywords?: string[]; // Words in a title that suggest the category, besides its name
+}
+
+// Keyed by categoryKey(name)
+export type CategoryRegistry = Map<string, CategoryDefinition>;
+
+// Every user starts with these; their own categories are added to (or replace) them
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  { name: 'work', group: 'work', taskType: 'deep-work', colorHex: '#4A90E2', emoji: '💼', keywords: ['project', 'coding', 'code', 'report', 'deep work', 'deadline'] },
+  { name: 'meeting', group: 'work', taskType: 'meetings', colorHex: '#9B59B6', emoji: '🤝', keywords: ['call', 'standup', 'stand-up', '1:1', 'sync', 'interview', 'zoom'] },
+  { name: 'admin', group: 'work', taskType: 'admin', colorHex: '#95A5A6', emoji: '📋', keywords: ['email', 'emails', 'inbox', 'invoice', 'invoices', 'paperwork', 'taxes'] },
+  { name: 'learning', group: 'other', taskType: 'deep-work', colorHex: '#3F51B5', emoji: '📚', keywords: ['study', 'class', 'course', 'lecture', 'homework', 'reading', 'exam'] },
+  { name: 'exercise', group: 'health', taskType: 'other', colorHex: '#2ECC71', emoji: '🏃', keywords: ['gym', 'run', 'running', 'workout', 'yoga', 'swim', 'swimming', 'cycling', 'hike'] },
+  { name: 'health', group: 'health', taskType: 'other', colorHex: '#1ABC9C', emoji: '🩺', keywords: ['doctor', 'dentist', 'therapy', 'checkup', 'meditation', 'physio'] },
+  { name: 'personal', group: 'personal', taskType: 'other', colorHex: '#F39C12', emoji: '🏠', keywords: ['groceries', 'errand', 'errands', 'laundry', 'cleaning', 'haircut', 'shopping'] },
+  { name: 'family', group: 'personal', taskType: 'other', colorHex: '#FF7043', emoji: '👨‍👩‍👧', keywords: ['kids', 'school pickup', 'mom', 'dad', 'parents'] },
+  { name: 'social', group: 'personal', taskType: 'other', colorHex: '#E91E63', emoji: '🎉', keywords: ['dinner', 'drinks', 'party', 'birthday', 'friends', 'brunch'] }
+];
+
+// Free-form categories grouped case-insensitively; uncategorized time counts as "other"
+export function categoryKey(category?: string | null): string {
+  return category?.trim().toLowerCase() || 'other';
+}
+
+/**
+ * The built-in categories plus the user's own, which win on a name clash and
+ * are matched first when guessing
+ */
+export function buildCategoryRegistry(custom: CategoryDefinition[] = []): CategoryRegistry {
+  const registry: CategoryRegistry = new Map();
+  for (const definition of [...custom, ...DEFAULT_CATEGORIES]) {
+    const key = categoryKey(definition.name);
+    if (!registry.has(key)) registry.set(key, definition);
+  }
+  return registry;
+}
+
+/**
+ * Transform a snake_case category row into a registry definition
+ */
+export function toCategoryDefinition(row: any): CategoryDefinition {
+  return {
+    name: row.name,
+    group: row.broad_group,
+    taskType: row.task_type,
+    colorHex: row.color_hex || null,
+    emoji: row.emoji || null
+  };
+}
+
+/**
+ * Transform a snake_case category row into the camelCase API shape
+ */
+export function transformCategory(row: any) {
+  return {
+    id: row.id,
+    ...toCategoryDefinition(row),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Bucket a free-form category into the groups the balance score is based on.
+ * Names in the registry use their group; anything else is guessed from the name.
+ */
+export function broadCategory(category?: string | null, registry?: CategoryRegistry): BroadCategory {
+  const known = registry?.get(categoryKey(category));
+  if (known) return known.group;
+
+  const value = category?.toLowerCase() || 'other';
+  if (value.includes('work') || value.includes('meeting') || value.includes('coding')) {
+    return 'work';
+  } else if (value.includes('health') || value.includes('exercise') || value.includes('fitness')) {
+    return 'health';
+  } else if (value.includes('personal') || value.includes('family') || value.includes('social')) {
+    return 'personal';
+  }
+  return 'other';
+}
+
+/**
+ * Kind of work a category stands for, from the registry or guessed from the name
+ */
+export function categoryTaskType(category?: string | null, registry?: CategoryRegistry): TaskType {
+  return registry?.get(categoryKey(category))?.taskType ?? classifyTaskType(category);
+}
+
+function containsWord(text: string, word: string): boolean {
+  const escaped = word.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(text);
+}
+
+/**
+ * The first registry category whose name or keywords appear as whole words in
+ * the event's title or description, or null
+ */
+export function guessCategory(
+  event: { title: string; description?: string | null },
+  registry: CategoryRegistry
+): CategoryDefinition | null {
+  const text = `${event.title} ${event.description ?? ''}`.toLowerCase();
+  for (const definition of registry.values()) {
+    if ([definition.name, ...(definition.keywords || [])].some(word => containsWord(text, word))) {
+      return definition;
+    }
+  }
+  return null;
+}
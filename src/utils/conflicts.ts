@@ -0,0 +1,97 @@
+import { addDays, diffDays } from './date';
+import { getEventEnd } from './events';
+import { titleSimilarity } from './fuzzy';
+
+/**
+ * Overlap detection between event rows (snake_case, already in one time zone).
+ * All-day events mark a day rather than block time, so they never conflict.
+ */
+
+export interface EventOverlap {
+  first: any;
+  second: any;
+  date: string; // Day the overlap starts on
+  startTime: number; // Decimal hour the overlap starts at
+  overlapHours: number;
+}
+
+const EPOCH = '1970-01-01';
+
+// Start and end of an event in hours since the epoch, so multi-day events compare directly
+function toInterval(row: any): { start: number; end: number } {
+  const { endDate, endTime } = getEventEnd(row);
+  const start = diffDays(EPOCH, row.date) * 24 + row.start_time;
+  const end = diffDays(EPOCH, endDate) * 24 + endTime;
+  return { start, end: Math.max(start, end) };
+}
+
+function blocksTime(row: any): boolean {
+  return !row.is_all_day;
+}
+
+/**
+ * Hours two events share; 0 when they only touch (one ends as the other starts)
+ */
+export function getOverlapHours(a: any, b: any): number {
+  if (!blocksTime(a) || !blocksTime(b)) return 0;
+  const first = toInterval(a);
+  const second = toInterval(b);
+  return Math.max(0, Math.min(first.end, second.end) - Math.max(first.start, second.start));
+}
+
+export function eventsOverlap(a: any, b: any): boolean {
+  return getOverlapHours(a, b) > 0;
+}
+
+/**
+ * Every pair of overlapping rows, ordered by when the overlap starts
+ */
+export function findOverlappingPairs(rows: any[]): EventOverlap[] {
+  const sorted = rows
+    .filter(blocksTime)
+    .map(row => ({ row, ...toInterval(row) }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const overlaps: EventOverlap[] = [];
+  let active: typeof sorted = [];
+
+  for (const current of sorted) {
+    active = active.filter(item => item.end > current.start);
+    for (const item of active) {
+      const overlapHours = Math.min(item.end, current.end) - current.start;
+      if (overlapHours <= 0) continue;
+      const dayOffset = Math.floor(current.start / 24);
+      overlaps.push({
+        first: item.row,
+        second: current.row,
+        date: addDays(EPOCH, dayOffset),
+        startTime: current.start - dayOffset * 24,
+        overlapHours
+      });
+    }
+    active.push(current);
+  }
+
+  return overlaps;
+}
+
+/**
+ * The row in `rows` that most looks like the same event as `candidate`: starts
+ * on the same date, overlaps it (or both are all-day) and has a similar title
+ */
+export function findNearDuplicate(candidate: any, rows: any[], titleThreshold: number): any | null {
+  let best: { row: any; score: number } | null = null;
+
+  for (const row of rows) {
+    if (row.date !== candidate.date) continue;
+    const sameSlot = (candidate.is_all_day && row.is_all_day) || eventsOverlap(candidate, row);
+    if (!sameSlot) continue;
+
+    const score = titleSimilarity(candidate.title, row.title);
+    if (score >= titleThreshold && (!best || score > best.score)) {
+      best = { row, score };
+    }
+  }
+
+  return best?.row ?? null;
+}
@@ -0,0 +1,79 @@
+/**
+ * Calendar-date helpers for the YYYY-MM-DD strings stored in the `date` column.
+ * All arithmetic is done in UTC so results never depend on the server's zone.
+ */
+
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function parseDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDays(date: string, days: number): string {
+  const d = parseDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return formatDate(d);
+}
+
+export function diffDays(from: string, to: string): number {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / 86400000);
+}
+
+/**
+ * Day of week, 0 = Sunday ... 6 = Saturday
+ */
+export function dayOfWeek(date: string): number {
+  return parseDate(date).getUTCDay();
+}
+
+/**
+ * Monday of the week `date` falls in
+ */
+export function startOfWeek(date: string): string {
+  return addDays(date, -((dayOfWeek(date) + 6) % 7));
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export type CalendarPeriod = 'day' | 'week' | 'month';
+
+/**
+ * First and last day (inclusive) of the day, week (Monday to Sunday) or
+ * calendar month containing `date`
+ */
+export function getPeriodBounds(period: CalendarPeriod, date: string): { from: string; to: string } {
+  if (period === 'day') {
+    return { from: date, to: date };
+  }
+  if (period === 'week') {
+    const from = startOfWeek(date);
+    return { from, to: addDays(from, 6) };
+  }
+
+  const [year, month] = date.split('-').map(Number);
+  const prefix = date.slice(0, 8);
+  return { from: `${prefix}01`, to: `${prefix}${String(daysInMonth(year, month)).padStart(2, '0')}` };
+}
+
+export function getPreviousPeriod(period: CalendarPeriod, bounds: { from: string }): { from: string; to: string } {
+  return getPeriodBounds(period, addDays(bounds.from, -1));
+}
+
+export function isValidDate(date: string): boolean {
+  return DATE_PATTERN.test(date) && formatDate(parseDate(date)) === date;
+}
+
+/**
+ * Decimal hours as a 24-hour clock time, e.g. 15.5 -> "15:30"
+ */
+export function formatClock(hours: number): string {
+  const minutes = Math.round(hours * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
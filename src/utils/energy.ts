@@ -0,0 +1,89 @@
+/**
+ * Typical daily energy curve used to judge when work is scheduled.
+ * Hours outside every window are low energy.
+ */
+
+export type EnergyLevel = 'high' | 'medium' | 'low';
+
+export interface EnergyWindow {
+  start: number; // Decimal hour, inclusive
+  end: number; // Decimal hour, exclusive
+  level: EnergyLevel;
+}
+
+export const DEFAULT_ENERGY_WINDOWS: EnergyWindow[] = [
+  { start: 6, end: 9, level: 'medium' },
+  { start: 9, end: 12, level: 'high' },
+  { start: 16, end: 19, level: 'medium' }
+];
+
+const ENERGY_WEIGHTS: Record<EnergyLevel, number> = { high: 1, medium: 0.5, low: 0 };
+
+export function getEnergyLevel(hour: number, windows: EnergyWindow[] = DEFAULT_ENERGY_WINDOWS): EnergyLevel {
+  return windows.find(window => hour >= window.start && hour < window.end)?.level ?? 'low';
+}
+
+/**
+ * Average energy over [startTime, endTime) from 0 (all low) to 1 (all high),
+ * plus the level covering most of the range
+ */
+export function scoreEnergy(
+  startTime: number,
+  endTime: number,
+  windows: EnergyWindow[] = DEFAULT_ENERGY_WINDOWS
+): { score: number; level: EnergyLevel } {
+  const length = endTime - startTime;
+  if (length <= 0) {
+    const level = getEnergyLevel(startTime, windows);
+    return { score: ENERGY_WEIGHTS[level], level };
+  }
+
+  const hoursByLevel: Record<EnergyLevel, number> = { high: 0, medium: 0, low: length };
+  for (const window of windows) {
+    const overlap = Math.max(0, Math.min(endTime, window.end) - Math.max(startTime, window.start));
+    hoursByLevel[window.level] += overlap;
+    hoursByLevel.low -= overlap;
+  }
+
+  const score = (hoursByLevel.high * ENERGY_WEIGHTS.high + hoursByLevel.medium * ENERGY_WEIGHTS.medium) / length;
+  const level = (['high', 'medium', 'low'] as EnergyLevel[])
+    .reduce((best, candidate) => (hoursByLevel[candidate] > hoursByLevel[best] ? candidate : best));
+
+  return { score, level };
+}
+
+export type TaskType = 'deep-work' | 'meetings' | 'admin' | 'creative' | 'other';
+export type EnergyAlignment = 'optimal' | 'good' | 'poor';
+
+/**
+ * Rough kind of work from a free-form category (or title)
+ */
+export function classifyTaskType(text?: string | null): TaskType {
+  const value = text?.toLowerCase() || 'other';
+  if (value.includes('work') || value.includes('coding') || value.includes('deep')) {
+    return 'deep-work';
+  } else if (value.includes('meeting') || value.includes('call')) {
+    return 'meetings';
+  } else if (value.includes('email') || value.includes('admin')) {
+    return 'admin';
+  } else if (value.includes('design') || value.includes('creative')) {
+    return 'creative';
+  }
+  return 'other';
+}
+
+/**
+ * How well a kind of work suits the energy level of its time slot
+ */
+export function getEnergyAlignment(taskType: TaskType, energy: EnergyLevel): EnergyAlignment {
+  if (taskType === 'deep-work' && energy === 'high') {
+    return 'optimal';
+  } else if (taskType === 'meetings' && energy === 'low') {
+    return 'poor';
+  } else if (taskType === 'deep-work' && energy === 'low') {
+    return 'poor';
+  } else if (energy === 'high' && taskType === 'admin') {
+    return 'poor';
+  }
+  return 'good';
+}
@@ -0,0 +1,388 @@
+import { EventInput } from '../schemas/event.schema';
+import { addDays, diffDays } from './date';
+import { expandRecurrence, formatRRule, parseRRule } from './recurrence';
+import { convertWallTime } from './timezone';
+
+export const DEFAULT_NOTIFICATION_SETTINGS = {
+  enabled: false,
+  minutesBefore: [] as number[],
+  notificationIds: [] as string[]
+};
+
+export interface DateWindow {
+  from: string;
+  to: string;
+}
+
+// Longest event we accept; anything longer is almost certainly a bad end date
+export const MAX_EVENT_SPAN_DAYS = 366;
+
+export interface EventSpan {
+  date: string;
+  startTime: number;
+  endTime: number;
+  endDate: string;
+  isAllDay: boolean;
+}
+
+export type TrackingStatus = 'planned' | 'in_progress' | 'stopped' | 'completed' | 'skipped';
+
+/**
+ * Planned-vs-actual time of one event. Actual times are instants (ISO
+ * timestamps) recorded by the start/stop/complete actions.
+ */
+export interface EventTracking {
+  status: TrackingStatus;
+  actualStart: string | null;
+  actualEnd: string | null;
+  completedAt: string | null;
+  plannedMinutes: number;
+  actualMinutes: number | null;
+  varianceMinutes: number | null; // Actual minus planned; positive = took longer
+}
+
+export interface EventSegment {
+  date: string;
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * Resolve when an event starts and ends.
+ * All-day events cover whole days; without an explicit endDate an endTime
+ * before startTime means the event runs past midnight into the next day.
+ */
+export function resolveEventSpan(input: {
+  date: string;
+  startTime: number;
+  endTime: number;
+  endDate?: string | null;
+  isAllDay?: boolean;
+}): { span?: EventSpan; error?: { path: string[]; message: string } } {
+  const { date, startTime, endTime, isAllDay = false } = input;
+  let endDate = input.endDate ?? null;
+
+  if (endDate !== null && endDate < date) {
+    return { error: { path: ['endDate'], message: 'endDate must be on or after date' } };
+  }
+
+  if (isAllDay) {
+    endDate = endDate ?? date;
+  } else if (endDate === null) {
+    endDate = endTime < startTime ? addDays(date, 1) : date;
+  } else if (endDate === date && endTime < startTime) {
+    return { error: { path: ['endTime'], message: 'endTime must be after startTime' } };
+  }
+
+  if (diffDays(date, endDate) > MAX_EVENT_SPAN_DAYS) {
+    return { error: { path: ['endDate'], message: `Events cannot span more than ${MAX_EVENT_SPAN_DAYS} days` } };
+  }
+
+  return {
+    span: {
+      date,
+      startTime: isAllDay ? 0 : startTime,
+      endTime: isAllDay ? 24 : endTime,
+      endDate,
+      isAllDay
+    }
+  };
+}
+
+/**
+ * Convert a validated event payload into a database row for insertion
+ */
+export function toDbEvent(userId: string, eventData: EventInput) {
+  const span = resolveEventSpan(eventData).span;
+
+  return {
+    user_id: userId,
+    title: eventData.title,
+    description: eventData.description || null,
+    start_time: span?.startTime ?? eventData.startTime,
+    end_time: span?.endTime ?? eventData.endTime,
+    date: eventData.date,
+    end_date: span?.endDate ?? eventData.date,
+    is_all_day: span?.isAllDay ?? false,
+    emoji: eventData.emoji || null,
+    color_hex: eventData.colorHex || null,
+    category: eventData.category || null,
+    participants: eventData.participants || [],
+    is_completed: eventData.isCompleted || false,
+    notification_settings: eventData.notificationSettings || DEFAULT_NOTIFICATION_SETTINGS,
+    local_id: eventData.localId || null, // Store iOS app's local UUID
+    recurrence_rule: eventData.recurrenceRule ? formatRRule(parseRRule(eventData.recurrenceRule)) : null,
+    recurrence_exceptions: eventData.recurrenceExceptions || [],
+    time_zone: eventData.timeZone || null,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Convert a partial event payload into a database update (camelCase to snake_case)
+ */
+export function toDbUpdates(updates: Partial<EventInput>) {
+  const dbUpdates: any = {
+    updated_at: new Date().toISOString()
+  };
+
+  if (updates.title !== undefined) dbUpdates.title = updates.title;
+  if (updates.description !== undefined) dbUpdates.description = updates.description;
+  if (updates.startTime !== undefined) dbUpdates.start_time = updates.startTime;
+  if (updates.endTime !== undefined) dbUpdates.end_time = updates.endTime;
+  if (updates.date !== undefined) dbUpdates.date = updates.date;
+  if (updates.emoji !== undefined) dbUpdates.emoji = updates.emoji;
+  if (updates.colorHex !== undefined) dbUpdates.color_hex = updates.colorHex;
+  if (updates.category !== undefined) dbUpdates.category = updates.category;
+  if (updates.participants !== undefined) dbUpdates.participants = updates.participants;
+  if (updates.isCompleted !== undefined) dbUpdates.is_completed = updates.isCompleted;
+  if (updates.localId !== undefined) dbUpdates.local_id = updates.localId;
+  if (updates.notificationSettings !== undefined) {
+    dbUpdates.notification_settings = updates.notificationSettings;
+  }
+  if (updates.recurrenceRule !== undefined) {
+    dbUpdates.recurrence_rule = updates.recurrenceRule ? formatRRule(parseRRule(updates.recurrenceRule)) : null;
+  }
+  if (updates.recurrenceExceptions !== undefined) {
+    dbUpdates.recurrence_exceptions = updates.recurrenceExceptions;
+  }
+  if (updates.timeZone !== undefined) dbUpdates.time_zone = updates.timeZone;
+  if (updates.endDate !== undefined) dbUpdates.end_date = updates.endDate;
+  if (updates.isAllDay !== undefined) dbUpdates.is_all_day = updates.isAllDay;
+
+  return dbUpdates;
+}
+
+// Columns compared when deciding whether a synced event actually changed
+const SYNCED_COLUMNS = [
+  'title', 'description', 'start_time', 'end_time', 'date', 'emoji', 'color_hex', 'category',
+  'participants', 'is_completed', 'notification_settings', 'recurrence_rule', 'recurrence_exceptions',
+  'time_zone', 'end_date', 'is_all_day'
+];
+
+// JSON with sorted keys, since jsonb does not preserve key order
+export function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Whether an incoming database row differs from the stored one in any synced column
+ */
+export function hasEventChanged(stored: any, incoming: Record<string, any>): boolean {
+  return SYNCED_COLUMNS.some(column => {
+    const a = stored[column];
+    const b = incoming[column];
+    if (column === 'start_time' || column === 'end_time') {
+      return Number(a) !== Number(b);
+    }
+    return stableStringify(a ?? null) !== stableStringify(b ?? null);
+  });
+}
+
+/**
+ * Transform a snake_case database row into the camelCase shape the iOS app expects
+ */
+export function transformEvent(event: any) {
+  return {
+    id: event.id,
+    userId: event.user_id,
+    title: event.title,
+    description: event.description,
+    startTime: event.start_time,
+    endTime: event.end_time,
+    date: event.date,
+    endDate: event.end_date || event.date,
+    isAllDay: event.is_all_day || false,
+    emoji: event.emoji,
+    colorHex: event.color_hex,
+    category: event.category,
+    participants: event.participants || [],
+    isCompleted: event.is_completed || false,
+    tracking: getTracking(event),
+    notificationSettings: event.notification_settings || DEFAULT_NOTIFICATION_SETTINGS,
+    localId: event.local_id,
+    recurrenceRule: event.recurrence_rule || null,
+    recurrenceExceptions: event.recurrence_exceptions || [],
+    recurringEventId: event.recurring_event_id || null,
+    originalDate: event.original_date || null,
+    occurrenceDate: event.occurrence_date || null,
+    timeZone: event.time_zone || null,
+    version: event.version ?? 1,
+    createdAt: event.created_at,
+    updatedAt: event.updated_at
+  };
+}
+
+/**
+ * Re-express an event row's wall-clock times in another zone.
+ * Rows without a zone are floating (already in the viewer's zone) and all-day
+ * events are calendar dates, so both are left alone.
+ */
+export function convertEventRowToZone(row: any, timeZone: string): any {
+  if (!row.time_zone || row.time_zone === timeZone || row.is_all_day) {
+    return row;
+  }
+
+  const { endDate, endTime } = getEventEnd(row);
+  const start = convertWallTime(row.date, row.start_time, row.time_zone, timeZone);
+  const end = convertWallTime(endDate, endTime, row.time_zone, timeZone);
+  const round = (hours: number) => Math.round(hours * 10000) / 10000;
+
+  // A converted end at exactly midnight reads better as 24:00 of the previous day
+  const endsAtMidnight = end.hours === 0 && end.date > start.date;
+
+  return {
+    ...row,
+    date: start.date,
+    start_time: round(start.hours),
+    end_date: endsAtMidnight ? addDays(end.date, -1) : end.date,
+    end_time: endsAtMidnight ? 24 : round(end.hours),
+    time_zone: timeZone
+  };
+}
+
+/**
+ * Effective end of a row. Older rows have no end_date, and rows whose end is
+ * before their start on the same day are overnight events.
+ */
+export function getEventEnd(row: any): { endDate: string; endTime: number } {
+  const endDate = row.end_date || row.date;
+  if (endDate === row.date && !row.is_all_day && row.end_time < row.start_time) {
+    return { endDate: addDays(row.date, 1), endTime: row.end_time };
+  }
+  return { endDate, endTime: row.is_all_day ? 24 : row.end_time };
+}
+
+/**
+ * Split an event into one segment per calendar day it touches
+ */
+export function getEventSegments(row: any): EventSegment[] {
+  const { endDate, endTime } = getEventEnd(row);
+  const startTime = row.is_all_day ? 0 : row.start_time;
+  const days = diffDays(row.date, endDate);
+
+  if (days <= 0) {
+    return [{ date: row.date, startTime, endTime: Math.max(endTime, startTime) }];
+  }
+
+  const segments: EventSegment[] = [{ date: row.date, startTime, endTime: 24 }];
+  for (let i = 1; i < days; i++) {
+    segments.push({ date: addDays(row.date, i), startTime: 0, endTime: 24 });
+  }
+  if (endTime > 0) {
+    segments.push({ date: endDate, startTime: 0, endTime });
+  }
+  return segments;
+}
+
+/**
+ * Length of an event in hours, across however many days it spans
+ */
+export function getEventDurationHours(row: any): number {
+  return getEventSegments(row).reduce((sum, segment) => sum + segment.endTime - segment.startTime, 0);
+}
+
+// is_completed wins over the tracked status, since clients can still set it directly
+export function getTrackingStatus(row: any): TrackingStatus {
+  if (row.is_completed) return 'completed';
+  return row.tracking_status && row.tracking_status !== 'completed' ? row.tracking_status : 'planned';
+}
+
+export function getTracking(row: any): EventTracking {
+  const plannedMinutes = row.is_all_day ? 0 : Math.round(getEventDurationHours(row) * 60);
+  const actualMinutes = row.actual_start && row.actual_end
+    ? Math.max(0, Math.round((Date.parse(row.actual_end) - Date.parse(row.actual_start)) / 60000))
+    : null;
+
+  return {
+    status: getTrackingStatus(row),
+    actualStart: row.actual_start ?? null,
+    actualEnd: row.actual_end ?? null,
+    completedAt: row.completed_at ?? null,
+    plannedMinutes,
+    actualMinutes,
+    varianceMinutes: actualMinutes !== null && plannedMinutes > 0 ? actualMinutes - plannedMinutes : null
+  };
+}
+
+/**
+ * Rows restricted to the part of each event that falls on `date`, so per-day
+ * calculations never see negative or multi-day durations
+ */
+export function clipEventRowsToDate(rows: any[], date: string): any[] {
+  return rows.flatMap(row =>
+    getEventSegments(row)
+      .filter(segment => segment.date === date)
+      .map(segment => ({ ...row, date, start_time: segment.startTime, end_time: segment.endTime }))
+  );
+}
+
+function overlapsWindow(row: any, window: DateWindow): boolean {
+  return row.date <= window.to && getEventEnd(row).endDate >= window.from;
+}
+
+/**
+ * Replace recurring series rows with one row per occurrence overlapping the window.
+ * Occurrences keep the series id and carry `occurrence_date` so clients can
+ * address a single instance when updating or deleting.
+ */
+export function expandEventRows(rows: any[], window: DateWindow): any[] {
+  const expanded: any[] = [];
+
+  for (const row of rows) {
+    if (!row.recurrence_rule) {
+      if (overlapsWindow(row, window)) {
+        expanded.push(row);
+      }
+      continue;
+    }
+
+    // Occurrences that start before the window can still run into it
+    const spanDays = diffDays(row.date, getEventEnd(row).endDate);
+    let dates: string[];
+    try {
+      dates = expandRecurrence(
+        row.date,
+        row.recurrence_rule,
+        { from: addDays(window.from, -spanDays), to: window.to },
+        row.recurrence_exceptions || []
+      );
+    } catch (error) {
+      // One unreadable stored rule must not fail every read of the user's events
+      console.error(`Error expanding recurring event ${row.id}:`, error);
+      continue;
+    }
+    for (const date of dates) {
+      expanded.push({ ...row, date, end_date: addDays(date, spanDays), occurrence_date: date });
+    }
+  }
+
+  return expanded.sort((a, b) =>
+    a.date === b.date ? a.start_time - b.start_time : a.date < b.date ? -1 : 1
+  );
+}
+
+/**
+ * ETag for an event row, derived from its version
+ */
+export function eventETag(event: any): string {
+  return `"${event.version ?? 1}"`;
+}
+
+/**
+ * Version number from an If-Match value such as "3" or W/"3".
+ * Returns null for "*" (any version) and NaN for values that are not event ETags.
+ */
+export function parseIfMatch(header: string): number | null {
+  const value = header.trim();
+  if (value === '*') return null;
+  const match = value.match(/^(?:W\/)?"?(\d+)"?$/);
+  return match ? Number(match[1]) : NaN;
+}
@@ -0,0 +1,78 @@
+/**
+ * Loose text matching for resolving how people refer to their events
+ * ("the dentist thing", "gym") against stored titles
+ */
+
+// Words that say nothing about which event is meant
+const FILLER_WORDS = new Set(['a', 'an', 'the', 'my', 'our', 'with', 'for', 'event', 'appointment', 'meeting']);
+
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function tokens(text: string): string[] {
+  const words = normalizeText(text).split(' ').filter(Boolean);
+  const meaningful = words.filter(word => !FILLER_WORDS.has(word));
+  return meaningful.length > 0 ? meaningful : words;
+}
+
+function bigrams(word: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i < word.length - 1; i++) {
+    grams.push(word.slice(i, i + 2));
+  }
+  return grams;
+}
+
+// Dice coefficient over character bigrams; tolerates typos like "dentst"
+function bigramSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const remaining = [...right];
+  let shared = 0;
+  for (const gram of left) {
+    const index = remaining.indexOf(gram);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+function wordSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // "standup" / "standups", "doc" / "doctor"
+  if (Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a))) return 0.8;
+  const score = bigramSimilarity(a, b);
+  return score >= 0.7 ? score : 0;
+}
+
+/**
+ * How well `query` describes `title`, from 0 (unrelated) to 1 (same text).
+ * Every meaningful query word has to find a counterpart in the title.
+ */
+export function titleSimilarity(query: string, title: string): number {
+  const q = normalizeText(query);
+  const t = normalizeText(title);
+  if (!q || !t) return 0;
+  if (q === t) return 1;
+
+  const queryWords = tokens(query);
+  const titleWords = tokens(title);
+  const queryText = queryWords.join(' ');
+  const titleText = titleWords.join(' ');
+  if (queryText === titleText) return 0.95;
+  if (` ${titleText} `.includes(` ${queryText} `) || ` ${queryText} `.includes(` ${titleText} `)) return 0.9;
+
+  const perWord = queryWords.map(word => Math.max(...titleWords.map(candidate => wordSimilarity(word, candidate))));
+  return 0.85 * (perWord.reduce((sum, score) => sum + score, 0) / perWord.length);
+}
@@ -0,0 +1,116 @@
+import { roundHours } from './analytics';
+import { BROAD_CATEGORIES, BroadCategory, broadCategory, categoryKey, CategoryRegistry } from './categories';
+import { addDays, CalendarPeriod, getPeriodBounds } from './date';
+import { clipEventRowsToDate } from './events';
+
+/**
+ * Progress towards per-user goals ("5 hours of exercise per week", "no more
+ * than 40h work"), computed from event rows already in the viewer's zone
+ */
+
+export type GoalStatus = 'achieved' | 'on_track' | 'behind' | 'missed' | 'at_risk' | 'exceeded';
+
+export interface GoalProgress {
+  from: string;
+  to: string;
+  actual: number; // Hours or events so far (through today)
+  scheduled: number; // Actual plus what is still planned for the rest of the period
+  target: number;
+  percent: number; // Actual as a percentage of the target
+  status: GoalStatus;
+}
+
+/**
+ * Transform a snake_case goal row into the camelCase API shape
+ */
+export function transformGoal(goal: any) {
+  return {
+    id: goal.id,
+    title: goal.title || null,
+    category: goal.category,
+    metric: goal.metric,
+    target: Number(goal.target),
+    period: goal.period,
+    direction: goal.direction,
+    completedOnly: goal.completed_only || false,
+    createdAt: goal.created_at,
+    updatedAt: goal.updated_at
+  };
+}
+
+// A broad group name matches every category in the group; anything else matches by name
+export function matchesGoalCategory(goal: any, row: any, registry?: CategoryRegistry): boolean {
+  const category = categoryKey(goal.category);
+  return BROAD_CATEGORIES.includes(category as BroadCategory) && category !== 'other'
+    ? broadCategory(row.category, registry) === category
+    : categoryKey(row.category) === category;
+}
+
+export function describeGoal(goal: any): string {
+  const amount = goal.metric === 'hours' ? `${Number(goal.target)}h` : `${Number(goal.target)} events`;
+  const per = goal.period === 'day' ? 'per day' : `per ${goal.period}`;
+  return goal.title || `${goal.direction === 'min' ? 'At least' : 'At most'} ${amount} of ${goal.category} ${per}`;
+}
+
+/**
+ * Progress for one period of a goal. Future events count as scheduled, not
+ * actual; with `completed_only`, past events only count once completed.
+ */
+export function calculateGoalProgress(
+  goal: any,
+  rows: any[],
+  bounds: { from: string; to: string },
+  today: string,
+  registry?: CategoryRegistry
+): GoalProgress {
+  const matching = rows.filter(row => matchesGoalCategory(goal, row, registry));
+  const counts = (row: any, date: string) => date > today || !goal.completed_only || row.is_completed;
+  let actual = 0;
+  let upcoming = 0;
+
+  if (goal.metric === 'count') {
+    for (const row of matching.filter(row => row.date >= bounds.from && row.date <= bounds.to && counts(row, row.date))) {
+      if (row.date > today) upcoming++;
+      else actual++;
+    }
+  } else {
+    for (let date = bounds.from; date <= bounds.to; date = addDays(date, 1)) {
+      for (const row of clipEventRowsToDate(matching, date)) {
+        if (row.is_all_day || !counts(row, date)) continue;
+        const hours = Math.max(0, row.end_time - row.start_time);
+        if (date > today) upcoming += hours;
+        else actual += hours;
+      }
+    }
+  }
+
+  const target = Number(goal.target);
+  const scheduled = actual + upcoming;
+  const over = bounds.to < today;
+  let status: GoalStatus;
+  if (goal.direction === 'max') {
+    status = actual > target ? 'exceeded' : scheduled > target ? 'at_risk' : over ? 'achieved' : 'on_track';
+  } else {
+    status = actual >= target ? 'achieved' : over ? 'missed' : scheduled >= target ? 'on_track' : 'behind';
+  }
+
+  return {
+    ...bounds,
+    actual: roundHours(actual),
+    scheduled: roundHours(scheduled),
+    target,
+    percent: Math.round(actual / target * 100),
+    status
+  };
+}
+
+/**
+ * Every period of `period` that overlaps the range, in order
+ */
+export function periodsInRange(period: CalendarPeriod, range: { from: string; to: string }): { from: string; to: string }[] {
+  const periods: { from: string; to: string }[] = [];
+  for (let bounds = getPeriodBounds(period, range.from); bounds.from <= range.to; bounds = getPeriodBounds(period, addDays(bounds.to, 1))) {
+    periods.push(bounds);
+  }
+  return periods;
+}
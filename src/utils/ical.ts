@@ -0,0 +1,186 @@
+import { addDays } from './date';
+import { DEFAULT_NOTIFICATION_SETTINGS, getEventEnd } from './events';
+import { zonedTimeToUtc } from './timezone';
+
+/**
+ * iCalendar (RFC 5545) serialization for event rows
+ */
+
+const PRODID = '-//DayRhythm AI//Events//EN';
+const UID_DOMAIN = 'dayrhythm.ai';
+
+export interface CalendarOptions {
+  name?: string;
+  // Zone for events saved without one; omitted means floating local times
+  defaultTimeZone?: string;
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets, never splitting a multi-byte character
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  // Continuation lines start with a space, which counts toward the limit
+  let limit = 75;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Local date-time value (YYYYMMDDTHHMMSS) for a date and decimal hour.
+ * 24.0 rolls over to midnight of the following day.
+ */
+export function formatLocalDateTime(date: string, hours: number): string {
+  const totalMinutes = Math.round(hours * 60);
+  const day = addDays(date, Math.floor(totalMinutes / 1440));
+  const minutesOfDay = totalMinutes % 1440;
+  const hh = String(Math.floor(minutesOfDay / 60)).padStart(2, '0');
+  const mm = String(minutesOfDay % 60).padStart(2, '0');
+  return `${day.replace(/-/g, '')}T${hh}${mm}00`;
+}
+
+/**
+ * Date value (YYYYMMDD) for all-day events
+ */
+export function formatDateValue(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+export function formatUtcDateTime(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function buildAlarms(event: any): string[] {
+  const settings = event.notification_settings || DEFAULT_NOTIFICATION_SETTINGS;
+  if (!settings.enabled) return [];
+
+  return [...new Set<number>(settings.minutesBefore || [])].flatMap(minutes => [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(event.title)}`,
+    `TRIGGER:-PT${Math.max(0, Math.round(minutes))}M`,
+    'END:VALARM'
+  ]);
+}
+
+/**
+ * Build the VEVENT lines for a stored event row.
+ * Series rows carry their RRULE/EXDATE; detached occurrences reuse the series
+ * UID with a RECURRENCE-ID so calendar apps replace the right instance.
+ */
+export function buildVEvent(
+  event: any,
+  seriesStartTimes: Map<string, number | null> = new Map(),
+  defaultTimeZone?: string
+): string[] {
+  const uid = `${event.recurring_event_id || event.id}@${UID_DOMAIN}`;
+  // Calendar apps resolve IANA TZIDs themselves, so no VTIMEZONE block is emitted
+  const timeZone = event.time_zone || defaultTimeZone;
+  const tzParam = timeZone ? `;TZID=${timeZone}` : '';
+  const { endDate, endTime } = getEventEnd(event);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${formatUtcDateTime(event.updated_at || event.created_at || new Date())}`,
+    // All-day events are plain dates with an exclusive end
+    ...(event.is_all_day
+      ? [
+        `DTSTART;VALUE=DATE:${formatDateValue(event.date)}`,
+        `DTEND;VALUE=DATE:${formatDateValue(addDays(endDate, 1))}`
+      ]
+      : [
+        `DTSTART${tzParam}:${formatLocalDateTime(event.date, event.start_time)}`,
+        `DTEND${tzParam}:${formatLocalDateTime(endDate, endDate === event.date ? Math.max(endTime, event.start_time) : endTime)}`
+      ]),
+    `SUMMARY:${escapeText(event.title)}`
+  ];
+
+  if (event.created_at) lines.push(`CREATED:${formatUtcDateTime(event.created_at)}`);
+  if (event.updated_at) lines.push(`LAST-MODIFIED:${formatUtcDateTime(event.updated_at)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.category) lines.push(`CATEGORIES:${escapeText(event.category)}`);
+
+  if (event.recurrence_rule) {
+    if (event.is_all_day) {
+      // Date-valued DTSTART keeps the stored date-only UNTIL and EXDATEs
+      lines.push(`RRULE:${event.recurrence_rule}`);
+      const exceptions: string[] = event.recurrence_exceptions || [];
+      if (exceptions.length > 0) {
+        lines.push(`EXDATE;VALUE=DATE:${exceptions.map(formatDateValue).join(',')}`);
+      }
+    } else {
+      // UNTIL must have the same value type as DTSTART, which is a date-time here,
+      // and in UTC when DTSTART has a TZID: the last second of the UNTIL date in
+      // the event's zone, so the final local occurrence is kept
+      const rule = event.recurrence_rule.replace(/UNTIL=(\d{4})(\d{2})(\d{2})(?!T)/, (_match: string, year: string, month: string, day: string) => {
+        if (!timeZone) return `UNTIL=${year}${month}${day}T235959`;
+        const endOfDay = zonedTimeToUtc(`${year}-${month}-${day}`, 24, timeZone).getTime() - 1000;
+        return `UNTIL=${formatUtcDateTime(new Date(endOfDay))}`;
+      });
+      lines.push(`RRULE:${rule}`);
+      const exceptions: string[] = event.recurrence_exceptions || [];
+      if (exceptions.length > 0) {
+        lines.push(`EXDATE${tzParam}:${exceptions.map(date => formatLocalDateTime(date, event.start_time)).join(',')}`);
+      }
+    }
+  }
+
+  if (event.recurring_event_id && event.original_date) {
+    const seriesStart = seriesStartTimes.get(event.recurring_event_id);
+    lines.push(seriesStart === null
+      ? `RECURRENCE-ID;VALUE=DATE:${formatDateValue(event.original_date)}`
+      : `RECURRENCE-ID${tzParam}:${formatLocalDateTime(event.original_date, seriesStart ?? event.start_time)}`);
+  }
+
+  lines.push(...buildAlarms(event), 'END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize event rows into a complete VCALENDAR document
+ */
+export function buildCalendar(events: any[], options: CalendarOptions = {}): string {
+  // null marks an all-day series, whose instances are identified by date alone
+  const seriesStartTimes = new Map<string, number | null>(
+    events.filter(e => e.recurrence_rule).map(e => [e.id, e.is_all_day ? null : e.start_time])
+  );
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name || 'DayRhythm')}`,
+    ...(options.defaultTimeZone ? [`X-WR-TIMEZONE:${options.defaultTimeZone}`] : []),
+    ...events.flatMap(event => buildVEvent(event, seriesStartTimes, options.defaultTimeZone)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,422 @@
+import { EventInput, EventSchema } from '../schemas/event.schema';
+import { addDays, diffDays, isValidDate } from './date';
+import { MAX_EVENT_SPAN_DAYS, resolveEventSpan } from './events';
+import { formatRRule, parseRRule, RecurrenceRule } from './recurrence';
+import { convertWallTime, isValidTimeZone, toZonedParts } from './timezone';
+
+/**
+ * iCalendar (RFC 5545) parsing and conversion into EventSchema payloads
+ */
+
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ICalComponent {
+  type: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+export interface SkippedEntry {
+  uid?: string;
+  title?: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  events: EventInput[];
+  skipped: SkippedEntry[];
+  warnings: string[];
+}
+
+interface ParsedTime {
+  allDay: boolean;
+  date: string;
+  hours: number;
+  // Wall-clock date as written in the file, before zone conversion
+  sourceDate: string;
+}
+
+// Common Windows zone names emitted by Outlook/Exchange
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Mountain Standard Time': 'America/Denver',
+  'Central Standard Time': 'America/Chicago',
+  'Eastern Standard Time': 'America/New_York',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'India Standard Time': 'Asia/Kolkata',
+  'China Standard Time': 'Asia/Shanghai',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'UTC': 'UTC'
+};
+
+export class ICalParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ICalParseError';
+  }
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+function parseContentLine(line: string): ICalProperty {
+  // Split on the first colon that is not inside a quoted parameter value
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) {
+    throw new ICalParseError(`Malformed content line "${line.slice(0, 40)}"`);
+  }
+
+  const [name, ...rawParams] = line.slice(0, colonIndex).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+}
+
+/**
+ * Parse iCalendar text into its component tree (usually a single VCALENDAR)
+ */
+export function parseICalendar(text: string): ICalComponent[] {
+  const lines = text
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+
+  const roots: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  for (const line of lines) {
+    const property = parseContentLine(line);
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { type: property.value.toUpperCase(), properties: [], components: [] };
+      (stack.length ? stack[stack.length - 1].components : roots).push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      const component = stack.pop();
+      if (!component || component.type !== property.value.toUpperCase()) {
+        throw new ICalParseError(`Unexpected END:${property.value}`);
+      }
+    } else if (stack.length) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  if (stack.length) {
+    throw new ICalParseError(`Missing END:${stack[stack.length - 1].type}`);
+  }
+  if (!roots.some(component => component.type === 'VCALENDAR')) {
+    throw new ICalParseError('No VCALENDAR found');
+  }
+
+  return roots;
+}
+
+function getProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find(p => p.name === name);
+}
+
+function resolveTimeZone(tzid: string): string | null {
+  const cleaned = tzid.replace(/^\//, '');
+  if (WINDOWS_TIME_ZONES[cleaned]) return WINDOWS_TIME_ZONES[cleaned];
+  return isValidTimeZone(cleaned) ? cleaned : null;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value into a wall-clock time in the target zone
+ */
+function parseTimeValue(value: string, params: Record<string, string>, timeZone: string, warnings: string[]): ParsedTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (!isValidDate(date)) return null;
+
+  if (match[4] === undefined || params.VALUE === 'DATE') {
+    return { allDay: true, date, hours: 0, sourceDate: date };
+  }
+
+  const hours = Number(match[4]) + Number(match[5]) / 60 + Number(match[6] || 0) / 3600;
+
+  if (match[7]) {
+    const instant = new Date(Date.UTC(
+      Number(match[1]), Number(match[2]) - 1, Number(match[3]),
+      Number(match[4]), Number(match[5]), Number(match[6] || 0)
+    ));
+    return { allDay: false, ...toZonedParts(instant, timeZone), sourceDate: date };
+  }
+
+  if (params.TZID) {
+    const zone = resolveTimeZone(params.TZID);
+    if (zone) {
+      return { allDay: false, ...convertWallTime(date, hours, zone, timeZone), sourceDate: date };
+    }
+    warnings.push(`Unknown time zone "${params.TZID}" treated as ${timeZone}`);
+  }
+
+  // Floating time: already a wall-clock time in the user's zone
+  return { allDay: false, date, hours, sourceDate: date };
+}
+
+/**
+ * Parse an RFC 5545 duration (e.g. PT1H30M, P1D, -PT15M) into minutes
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = Number(weeks || 0) * 10080
+    + Number(days || 0) * 1440
+    + Number(hours || 0) * 60
+    + Number(minutes || 0)
+    + Number(seconds || 0) / 60;
+  return sign === '-' ? -total : total;
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 10000) / 10000;
+}
+
+function parseAlarms(component: ICalComponent): number[] {
+  const minutesBefore: number[] = [];
+  for (const alarm of component.components.filter(c => c.type === 'VALARM')) {
+    const trigger = getProperty(alarm, 'TRIGGER');
+    if (!trigger || trigger.params.VALUE === 'DATE-TIME' || trigger.params.RELATED === 'END') continue;
+    const minutes = parseDuration(trigger.value);
+    if (minutes !== null && minutes <= 0) {
+      minutesBefore.push(Math.round(-minutes));
+    }
+  }
+  return [...new Set(minutesBefore)].sort((a, b) => a - b);
+}
+
+function parseAttendees(component: ICalComponent): string[] {
+  return component.properties
+    .filter(p => p.name === 'ATTENDEE')
+    .map(p => p.params.CN || p.value.replace(/^mailto:/i, ''))
+    .filter(Boolean);
+}
+
+function parseDateList(component: ICalComponent, name: string, timeZone: string, warnings: string[]): string[] {
+  return component.properties
+    .filter(p => p.name === name)
+    .flatMap(p => p.value.split(',').map(value => parseTimeValue(value, p.params, timeZone, warnings)))
+    .filter((parsed): parsed is ParsedTime => parsed !== null)
+    .map(parsed => parsed.date);
+}
+
+/**
+ * Convert the VEVENTs of a parsed calendar into event payloads for `timeZone`.
+ * Anything that cannot be represented is reported in `skipped` instead of failing the import.
+ */
+export function convertICalendar(roots: ICalComponent[], timeZone: string): ImportResult {
+  const warnings: string[] = [];
+  const skipped: SkippedEntry[] = [];
+  const candidates: EventInput[] = [];
+  const seriesByUid = new Map<string, EventInput>();
+  const overrides: { uid: string; title: string; vevent: ICalComponent; recurrenceDate: string }[] = [];
+
+  const vevents = roots
+    .filter(root => root.type === 'VCALENDAR')
+    .flatMap(calendar => calendar.components.filter(c => c.type === 'VEVENT'));
+
+  const convert = (vevent: ICalComponent, uid: string, title: string, localId: string): EventInput[] | SkippedEntry => {
+    const startProp = getProperty(vevent, 'DTSTART');
+    const start = startProp && parseTimeValue(startProp.value, startProp.params, timeZone, warnings);
+    if (!start) {
+      return { uid, title, reason: 'Missing or invalid DTSTART' };
+    }
+
+    const endProp = getProperty(vevent, 'DTEND');
+    const durationProp = getProperty(vevent, 'DURATION');
+    let end = endProp ? parseTimeValue(endProp.value, endProp.params, timeZone, warnings) : null;
+    if (!end) {
+      const minutes = durationProp ? parseDuration(durationProp.value) : null;
+      const fallback = minutes ?? (start.allDay ? 1440 : 30);
+      const totalHours = start.hours + fallback / 60;
+      const dayOffset = Math.floor(totalHours / 24);
+      end = { allDay: start.allDay, date: addDays(start.date, dayOffset), hours: totalHours - dayOffset * 24, sourceDate: start.sourceDate };
+    }
+
+    const base: EventInput = {
+      title,
+      description: getProperty(vevent, 'DESCRIPTION') ? unescapeText(getProperty(vevent, 'DESCRIPTION')!.value) : undefined,
+      startTime: 0,
+      endTime: 24,
+      date: start.date,
+      category: getProperty(vevent, 'CATEGORIES')
+        ? unescapeText(getProperty(vevent, 'CATEGORIES')!.value.split(/(?<!\\),/)[0]).toLowerCase()
+        : undefined,
+      participants: parseAttendees(vevent),
+      localId,
+      timeZone
+    };
+
+    const alarms = parseAlarms(vevent);
+    if (alarms.length > 0) {
+      base.notificationSettings = { enabled: true, minutesBefore: alarms, notificationIds: [] };
+    }
+
+    const rruleProp = getProperty(vevent, 'RRULE');
+    let rule: RecurrenceRule | undefined;
+    if (rruleProp) {
+      try {
+        rule = parseRRule(rruleProp.value);
+      } catch (error) {
+        return { uid, title, reason: `Unsupported recurrence rule: ${(error as Error).message}` };
+      }
+      if ((rule.byDay || rule.byMonthDay) && start.date !== start.sourceDate) {
+        return { uid, title, reason: `Recurring event falls on a different day in ${timeZone}` };
+      }
+      base.recurrenceRule = formatRRule(rule);
+      base.recurrenceExceptions = parseDateList(vevent, 'EXDATE', timeZone, warnings);
+      if (getProperty(vevent, 'RDATE')) {
+        warnings.push(`RDATE ignored for "${title}"`);
+      }
+    }
+
+    if (start.allDay) {
+      // DTEND of an all-day event is exclusive
+      const days = Math.max(1, diffDays(start.date, end.date));
+      if (days > MAX_EVENT_SPAN_DAYS) {
+        return { uid, title, reason: `All-day event spans more than ${MAX_EVENT_SPAN_DAYS} days` };
+      }
+      return [{
+        ...base,
+        isAllDay: true,
+        ...(days > 1 ? { endDate: addDays(start.date, days - 1) } : {})
+      }];
+    }
+
+    const spanDays = diffDays(start.date, end.date);
+    if (spanDays > MAX_EVENT_SPAN_DAYS) {
+      return { uid, title, reason: `Event spans more than ${MAX_EVENT_SPAN_DAYS} days` };
+    }
+
+    const startTime = roundHours(start.hours);
+    if (spanDays <= 0) {
+      return [{ ...base, startTime, endTime: roundHours(Math.max(end.hours, start.hours)) }];
+    }
+
+    // Ending exactly at midnight means ending at 24:00 of the previous day
+    const endsAtMidnight = end.hours === 0;
+    const endDate = endsAtMidnight ? addDays(end.date, -1) : end.date;
+    return [{
+      ...base,
+      startTime,
+      endTime: endsAtMidnight ? 24 : roundHours(end.hours),
+      ...(endDate !== start.date ? { endDate } : {})
+    }];
+  };
+
+  vevents.forEach((vevent, index) => {
+    const uid = getProperty(vevent, 'UID')?.value || `import-${index}`;
+    const title = getProperty(vevent, 'SUMMARY') ? unescapeText(getProperty(vevent, 'SUMMARY')!.value).trim() : '';
+    const displayTitle = title || 'Untitled event';
+    const recurrenceId = getProperty(vevent, 'RECURRENCE-ID');
+
+    if (recurrenceId) {
+      const parsed = parseTimeValue(recurrenceId.value, recurrenceId.params, timeZone, warnings);
+      if (!parsed) {
+        skipped.push({ uid, title: displayTitle, reason: 'Invalid RECURRENCE-ID' });
+        return;
+      }
+      overrides.push({ uid, title: displayTitle, vevent, recurrenceDate: parsed.date });
+      return;
+    }
+
+    if (getProperty(vevent, 'STATUS')?.value.toUpperCase() === 'CANCELLED') {
+      skipped.push({ uid, title: displayTitle, reason: 'Cancelled event' });
+      return;
+    }
+
+    const result = convert(vevent, uid, displayTitle, `ics:${uid}`);
+    if (!Array.isArray(result)) {
+      skipped.push(result);
+      return;
+    }
+    if (result[0].recurrenceRule) {
+      seriesByUid.set(uid, result[0]);
+    }
+    candidates.push(...result);
+  });
+
+  // Modified or cancelled instances become exceptions of their series
+  for (const override of overrides) {
+    const series = seriesByUid.get(override.uid);
+    if (series) {
+      series.recurrenceExceptions = [...new Set([...(series.recurrenceExceptions || []), override.recurrenceDate])];
+    }
+
+    if (getProperty(override.vevent, 'STATUS')?.value.toUpperCase() === 'CANCELLED') {
+      continue;
+    }
+
+    const result = convert(override.vevent, override.uid, override.title, `ics:${override.uid}:${override.recurrenceDate}`);
+    if (!Array.isArray(result)) {
+      skipped.push(result);
+      continue;
+    }
+    candidates.push(...result.map(event => ({ ...event, recurrenceRule: undefined, recurrenceExceptions: undefined })));
+  }
+
+  // A UID repeated in the file keeps its last definition; each becomes one row keyed by localId
+  const latest = new Map<string | undefined, EventInput>();
+  for (const candidate of candidates) {
+    const replaced = latest.get(candidate.localId);
+    if (replaced) {
+      skipped.push({ uid: replaced.localId, title: replaced.title, reason: 'Replaced by a later event with the same UID' });
+    }
+    latest.set(candidate.localId, candidate);
+  }
+
+  const events: EventInput[] = [];
+  for (const candidate of latest.values()) {
+    const validation = EventSchema.safeParse(candidate);
+    if (!validation.success) {
+      skipped.push({
+        uid: candidate.localId,
+        title: candidate.title,
+        reason: validation.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+      });
+      continue;
+    }
+
+    const { error: spanError } = resolveEventSpan(validation.data);
+    if (spanError) {
+      skipped.push({
+        uid: candidate.localId,
+        title: candidate.title,
+        reason: `${spanError.path.join('.')}: ${spanError.message}`
+      });
+      continue;
+    }
+
+    events.push(validation.data);
+  }
+
+  return { events, skipped, warnings: [...new Set(warnings)] };
+}
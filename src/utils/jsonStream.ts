@@ -0,0 +1,99 @@
+/**
+ * Incremental reader for a JSON array arriving in chunks. Each complete
+ * top-level element is returned as soon as its closing character arrives.
+ * Text before the array (fences, prose) is skipped, as is a wrapping object
+ * when the array is its `key` property. Elements that are not valid JSON
+ * come back as undefined.
+ */
+export interface JsonArrayReader {
+  push(chunk: string): unknown[];
+  // Elements returned so far
+  readonly count: number;
+}
+
+export function createJsonArrayReader(key?: string): JsonArrayReader {
+  const wrapped = key ? new RegExp(`"${key}"\\s*:\\s*$`) : null;
+  let text = '';
+  let objectDepth = 0; // Braces opened before the array starts
+  let position = 0;
+  let started = false;
+  let finished = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+  let count = 0;
+
+  function parseItem(end: number, items: unknown[]) {
+    try {
+      items.push(JSON.parse(text.slice(itemStart, end)));
+    } catch {
+      items.push(undefined);
+    }
+    itemStart = -1;
+    count++;
+  }
+
+  return {
+    get count() {
+      return count;
+    },
+
+    push(chunk: string) {
+      const items: unknown[] = [];
+      text += chunk;
+
+      for (; position < text.length && !finished; position++) {
+        const char = text[position];
+
+        if (!started) {
+          if (char === '{') objectDepth++;
+          if (char === '}') objectDepth--;
+          if (char === '[' && (objectDepth === 0 || (objectDepth === 1 && wrapped?.test(text.slice(0, position))))) {
+            started = true;
+            depth = 1;
+          }
+          continue;
+        }
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === '\\') {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+            // A bare string element ends with its closing quote
+            if (depth === 1 && itemStart >= 0 && text[itemStart] === '"') parseItem(position + 1, items);
+          }
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+          if (depth === 1 && itemStart < 0) itemStart = position;
+        } else if (char === '{' || char === '[') {
+          if (depth === 1 && itemStart < 0) itemStart = position;
+          depth++;
+        } else if (char === '}' || char === ']') {
+          depth--;
+          if (depth === 0) {
+            // End of the array; flush a trailing number/literal element
+            if (itemStart >= 0) parseItem(position, items);
+            finished = true;
+          } else if (depth === 1 && itemStart >= 0) {
+            parseItem(position + 1, items);
+          }
+        } else if (depth === 1) {
+          if (char === ',') {
+            if (itemStart >= 0) parseItem(position, items);
+          } else if (itemStart < 0 && !/\s/.test(char)) {
+            itemStart = position;
+          }
+        }
+      }
+
+      return items;
+    }
+  };
+}
@@ -0,0 +1,85 @@
+import { formatClock } from './date';
+import { DEFAULT_ENERGY_WINDOWS, EnergyWindow } from './energy';
+
+/**
+ * Per-user working preferences stored on the profile row. Every field has a
+ * default, so users who never set them get the behaviour from before profiles.
+ */
+
+export type Chronotype = 'early' | 'intermediate' | 'late';
+
+// Target share of timed hours per broad category, in percent; the rest is "other"
+export interface BalanceMix {
+  work: number;
+  personal: number;
+  health: number;
+}
+
+export interface UserPreferences {
+  workStart: number; // Decimal hour
+  workEnd: number;
+  chronotype: Chronotype;
+  energyWindows: EnergyWindow[];
+  idealBalance: BalanceMix;
+  breakMinutes: number;
+  defaultEventMinutes: number;
+}
+
+export const DEFAULT_IDEAL_BALANCE: BalanceMix = { work: 60, personal: 25, health: 15 };
+
+// Energy curve for each chronotype, used unless the user sets their own windows
+export const CHRONOTYPE_ENERGY_WINDOWS: Record<Chronotype, EnergyWindow[]> = {
+  early: [
+    { start: 5, end: 7, level: 'medium' },
+    { start: 7, end: 11, level: 'high' },
+    { start: 14, end: 17, level: 'medium' }
+  ],
+  intermediate: DEFAULT_ENERGY_WINDOWS,
+  late: [
+    { start: 11, end: 14, level: 'medium' },
+    { start: 15, end: 19, level: 'high' },
+    { start: 20, end: 23, level: 'medium' }
+  ]
+};
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  workStart: 9,
+  workEnd: 17,
+  chronotype: 'intermediate',
+  energyWindows: DEFAULT_ENERGY_WINDOWS,
+  idealBalance: DEFAULT_IDEAL_BALANCE,
+  breakMinutes: 15,
+  defaultEventMinutes: 30
+};
+
+/**
+ * Preferences from a snake_case profile row (or null), with defaults for
+ * anything not set
+ */
+export function resolvePreferences(profile: any): UserPreferences {
+  const chronotype: Chronotype = profile?.chronotype ?? DEFAULT_PREFERENCES.chronotype;
+  return {
+    workStart: profile?.work_start != null ? Number(profile.work_start) : DEFAULT_PREFERENCES.workStart,
+    workEnd: profile?.work_end != null ? Number(profile.work_end) : DEFAULT_PREFERENCES.workEnd,
+    chronotype,
+    energyWindows: profile?.energy_windows ?? CHRONOTYPE_ENERGY_WINDOWS[chronotype],
+    idealBalance: profile?.ideal_balance ?? DEFAULT_PREFERENCES.idealBalance,
+    breakMinutes: profile?.break_minutes ?? DEFAULT_PREFERENCES.breakMinutes,
+    defaultEventMinutes: profile?.default_event_minutes ?? DEFAULT_PREFERENCES.defaultEventMinutes
+  };
+}
+
+/**
+ * One line about the user's working pattern for model prompts
+ */
+export function describePreferences(preferences: UserPreferences): string {
+  const peaks = preferences.energyWindows
+    .filter(window => window.level === 'high')
+    .map(window => `${formatClock(window.start)}-${formatClock(window.end)}`);
+
+  return [
+    `Works ${formatClock(preferences.workStart)}-${formatClock(preferences.workEnd)}`,
+    peaks.length > 0 ? `most energetic ${peaks.join(' and ')}` : null,
+    `prefers ${preferences.breakMinutes}-minute breaks between tasks`
+  ].filter(Boolean).join('; ');
+}
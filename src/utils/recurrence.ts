@@ -0,0 +1,312 @@
+import { addDays, dayOfWeek, daysInMonth, formatDate, parseDate, isValidDate } from './date';
+
+/**
+ * Minimal RFC 5545 RRULE support for day-granular events.
+ * Supported: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (with ordinals for MONTHLY),
+ * BYMONTHDAY, COUNT and UNTIL. Weeks start on Monday (WKST=MO).
+ */
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface WeekdayRule {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  ordinal?: number; // e.g. 2 for 2MO, -1 for -1FR (MONTHLY only)
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Hard stop so a malformed rule can never spin forever
+const MAX_ITERATIONS = 10000;
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceError';
+  }
+}
+
+export function parseRRule(input: string): RecurrenceRule {
+  const raw = input.trim().replace(/^RRULE:/i, '');
+  if (!raw) {
+    throw new RecurrenceError('Recurrence rule is empty');
+  }
+
+  const parts: Record<string, string> = {};
+  for (const segment of raw.split(';')) {
+    if (!segment) continue;
+    const [key, value] = segment.split('=');
+    if (!key || value === undefined) {
+      throw new RecurrenceError(`Invalid recurrence rule segment "${segment}"`);
+    }
+    parts[key.toUpperCase()] = value.toUpperCase();
+  }
+
+  const freq = parts.FREQ as Frequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(freq)) {
+    throw new RecurrenceError(`Unsupported FREQ "${parts.FREQ ?? ''}" (use DAILY, WEEKLY or MONTHLY)`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of Object.entries(parts)) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1) {
+          throw new RecurrenceError('INTERVAL must be a positive integer');
+        }
+        rule.interval = interval;
+        break;
+      }
+      case 'COUNT': {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1) {
+          throw new RecurrenceError('COUNT must be a positive integer');
+        }
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+        const until = match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+        if (!isValidDate(until)) {
+          throw new RecurrenceError('UNTIL must be a date in YYYYMMDD format');
+        }
+        rule.until = until;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(parseWeekday);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = value.split(',').map(day => {
+          const n = Number(day);
+          if (!Number.isInteger(n) || n === 0 || n < -31 || n > 31) {
+            throw new RecurrenceError(`Invalid BYMONTHDAY value "${day}"`);
+          }
+          return n;
+        });
+        break;
+      case 'WKST':
+        if (value !== 'MO') {
+          throw new RecurrenceError('Only WKST=MO is supported');
+        }
+        break;
+      default:
+        throw new RecurrenceError(`Unsupported recurrence rule part "${key}"`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new RecurrenceError('COUNT and UNTIL cannot both be set');
+  }
+  if (rule.freq !== 'MONTHLY' && rule.byDay?.some(d => d.ordinal !== undefined)) {
+    throw new RecurrenceError('BYDAY ordinals are only supported with FREQ=MONTHLY');
+  }
+  if (rule.freq !== 'MONTHLY' && rule.byMonthDay) {
+    throw new RecurrenceError('BYMONTHDAY is only supported with FREQ=MONTHLY');
+  }
+
+  return rule;
+}
+
+function parseWeekday(token: string): WeekdayRule {
+  const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (!match) {
+    throw new RecurrenceError(`Invalid BYDAY value "${token}"`);
+  }
+  const weekday = WEEKDAY_CODES.indexOf(match[2]);
+  if (match[1] === undefined) {
+    return { weekday };
+  }
+  const ordinal = Number(match[1]);
+  if (ordinal === 0 || ordinal < -5 || ordinal > 5) {
+    throw new RecurrenceError(`Invalid BYDAY ordinal in "${token}"`);
+  }
+  return { weekday, ordinal };
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+export function isValidRRule(rule: string): boolean {
+  try {
+    parseRRule(rule);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Generate the candidate dates of one period (a day, a week or a month),
+ * in ascending order.
+ */
+function datesInPeriod(rule: RecurrenceRule, startDate: string, periodIndex: number): string[] {
+  const start = parseDate(startDate);
+
+  if (rule.freq === 'DAILY') {
+    const date = addDays(startDate, periodIndex * rule.interval);
+    if (rule.byDay && !rule.byDay.some(d => d.weekday === dayOfWeek(date))) {
+      return [];
+    }
+    return [date];
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const mondayOffset = (dayOfWeek(startDate) + 6) % 7;
+    const weekStart = addDays(startDate, periodIndex * rule.interval * 7 - mondayOffset);
+    const weekdays = rule.byDay?.map(d => d.weekday) ?? [dayOfWeek(startDate)];
+    return [...new Set(weekdays)]
+      .map(weekday => (weekday + 6) % 7)
+      .sort((a, b) => a - b)
+      .map(offset => addDays(weekStart, offset));
+  }
+
+  const monthIndex = start.getUTCMonth() + periodIndex * rule.interval;
+  const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = (monthIndex % 12) + 1;
+  const lastDay = daysInMonth(year, month);
+  const days = new Set<number>();
+
+  if (rule.byMonthDay) {
+    for (const day of rule.byMonthDay) {
+      const resolved = day > 0 ? day : lastDay + day + 1;
+      if (resolved >= 1 && resolved <= lastDay) days.add(resolved);
+    }
+  } else if (rule.byDay) {
+    for (const { weekday, ordinal } of rule.byDay) {
+      const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+      const first = 1 + ((weekday - firstWeekday + 7) % 7);
+      const matches: number[] = [];
+      for (let day = first; day <= lastDay; day += 7) matches.push(day);
+      if (ordinal === undefined) {
+        matches.forEach(day => days.add(day));
+      } else {
+        const day = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (day !== undefined) days.add(day);
+      }
+    }
+  } else if (start.getUTCDate() <= lastDay) {
+    days.add(start.getUTCDate());
+  }
+
+  return [...days]
+    .sort((a, b) => a - b)
+    .map(day => formatDate(new Date(Date.UTC(year, month - 1, day))));
+}
+
+/**
+ * Expand a rule into occurrence dates within [from, to] (inclusive).
+ * COUNT is applied before exceptions are removed, as in RFC 5545.
+ */
+export function expandRecurrence(
+  startDate: string,
+  rule: RecurrenceRule | string,
+  range: { from: string; to: string },
+  exceptions: string[] = []
+): string[] {
+  const parsed = typeof rule === 'string' ? parseRRule(rule) : rule;
+  const excluded = new Set(exceptions);
+  const end = parsed.until && parsed.until < range.to ? parsed.until : range.to;
+  const occurrences: string[] = [];
+  let generated = 0;
+
+  for (let period = 0; period < MAX_ITERATIONS; period++) {
+    const candidates = datesInPeriod(parsed, startDate, period);
+    if (parsed.freq !== 'DAILY' && candidates.length === 0 && period > 0) {
+      // Months without a matching day still advance the cursor
+      const probe = datesInPeriod({ ...parsed, byDay: undefined, byMonthDay: [1] }, startDate, period)[0];
+      if (probe > end) break;
+      continue;
+    }
+
+    let pastEnd = false;
+    for (const date of candidates) {
+      if (date < startDate) continue;
+      if (date > end) {
+        pastEnd = true;
+        break;
+      }
+      generated++;
+      if (date >= range.from && !excluded.has(date)) {
+        occurrences.push(date);
+      }
+      if (parsed.count !== undefined && generated >= parsed.count) {
+        return occurrences;
+      }
+    }
+    if (pastEnd) break;
+
+    if (parsed.freq === 'DAILY' && candidates.length === 0 && addDays(startDate, period * parsed.interval) > end) {
+      break;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Whether the series produces an occurrence on the given date (ignoring exceptions)
+ */
+export function occursOn(startDate: string, rule: RecurrenceRule | string, date: string): boolean {
+  return expandRecurrence(startDate, rule, { from: date, to: date }).includes(date);
+}
+
+/**
+ * Number of occurrences the series produced strictly before `date`
+ */
+export function countOccurrencesBefore(startDate: string, rule: RecurrenceRule | string, date: string): number {
+  if (date <= startDate) return 0;
+  return expandRecurrence(startDate, rule, { from: startDate, to: addDays(date, -1) }).length;
+}
+
+/**
+ * Split a series at `at` for "this and following" edits: `head` keeps the
+ * occurrences before `at` (null when there are none, e.g. a series whose start
+ * date is not itself an occurrence), `tail` describes the series starting on `at`.
+ */
+export function splitRecurrence(
+  startDate: string,
+  rule: RecurrenceRule | string,
+  at: string
+): { head: RecurrenceRule | null; tail: RecurrenceRule } {
+  const parsed = typeof rule === 'string' ? parseRRule(rule) : rule;
+  const before = countOccurrencesBefore(startDate, parsed, at);
+
+  if (before === 0) {
+    return { head: null, tail: { ...parsed } };
+  }
+
+  if (parsed.count !== undefined) {
+    return {
+      head: { ...parsed, count: before },
+      tail: { ...parsed, count: Math.max(parsed.count - before, 1) }
+    };
+  }
+
+  return {
+    head: { ...parsed, until: addDays(at, -1) },
+    tail: { ...parsed }
+  };
+}
@@ -0,0 +1,137 @@
+import { formatClock } from './date';
+import { getTrackingStatus } from './events';
+import { toZonedParts, zonedTimeToUtc } from './timezone';
+
+/**
+ * Event reminders computed from the stored `notification_settings`, so every
+ * device (and the server) agrees on when they are due
+ */
+
+// Longest lead time the server schedules; larger minutesBefore values are left to the device
+export const MAX_REMINDER_LEAD_MINUTES = 7 * 24 * 60;
+
+export interface Reminder {
+  userId: string;
+  eventId: string;
+  occurrenceDate: string | null; // Set for occurrences of a recurring series
+  title: string;
+  emoji: string | null;
+  date: string; // Wall-clock start in `timeZone`
+  startTime: number;
+  timeZone: string;
+  startsAt: Date;
+  remindAt: Date;
+  minutesBefore: number;
+}
+
+// Statuses of a stored delivery; reminders without one are still scheduled or due
+export type DeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+/**
+ * Key a reminder's delivery is stored under. A moved event gets a new
+ * remind_at, and so a fresh reminder.
+ */
+export function reminderKey(eventId: string, remindAt: Date | string): string {
+  return `${eventId}|${new Date(remindAt).toISOString()}`;
+}
+
+// Lead times a row asks for, deduplicated and within what the server schedules
+function leadTimes(row: any): number[] {
+  const settings = row.notification_settings;
+  if (!settings?.enabled || !Array.isArray(settings.minutesBefore)) return [];
+
+  return [...new Set<number>(settings.minutesBefore)]
+    .filter(minutes => Number.isFinite(minutes) && minutes >= 0 && minutes <= MAX_REMINDER_LEAD_MINUTES)
+    .map(minutes => Math.round(minutes));
+}
+
+/**
+ * Reminders of expanded event rows (in their stored zones) that fall due in
+ * [from, to). Rows without a zone are floating and read in `zoneFor(row)`.
+ * Events already done, skipped or under way need no reminder.
+ */
+export function computeReminders(
+  rows: any[],
+  window: { from: Date; to: Date },
+  zoneFor: (row: any) => string
+): Reminder[] {
+  const reminders: Reminder[] = [];
+
+  for (const row of rows) {
+    // A series row's tracking columns describe the series, not this occurrence
+    if (!row.occurrence_date && ['completed', 'skipped', 'in_progress'].includes(getTrackingStatus(row))) continue;
+
+    const timeZone = row.time_zone || zoneFor(row);
+    const startTime = row.is_all_day ? 0 : Number(row.start_time);
+    const startsAt = zonedTimeToUtc(row.date, startTime, timeZone);
+
+    for (const minutesBefore of leadTimes(row)) {
+      const remindAt = new Date(startsAt.getTime() - minutesBefore * 60000);
+      if (remindAt < window.from || remindAt >= window.to) continue;
+
+      reminders.push({
+        userId: row.user_id,
+        eventId: row.id,
+        occurrenceDate: row.occurrence_date || null,
+        title: row.title,
+        emoji: row.emoji || null,
+        date: row.date,
+        startTime,
+        timeZone,
+        startsAt,
+        remindAt,
+        minutesBefore
+      });
+    }
+  }
+
+  return reminders.sort((a, b) => a.remindAt.getTime() - b.remindAt.getTime());
+}
+
+function describeLead(minutes: number): string {
+  if (minutes === 0) return 'Starting now';
+  if (minutes % 1440 === 0) return `In ${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+  if (minutes % 60 === 0) return `In ${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+  return `In ${minutes} minutes`;
+}
+
+/**
+ * Notification text shared by every channel, e.g. "💼 Team sync" /
+ * "In 15 minutes, at 10:00"
+ */
+export function reminderMessage(reminder: Reminder): { title: string; body: string } {
+  const title = reminder.emoji ? `${reminder.emoji} ${reminder.title}` : reminder.title;
+  const lead = describeLead(reminder.minutesBefore);
+  return {
+    title,
+    body: reminder.minutesBefore >= 1440
+      ? `${lead}, on ${reminder.date} at ${formatClock(reminder.startTime)}`
+      : `${lead}, at ${formatClock(reminder.startTime)}`
+  };
+}
+
+/**
+ * A reminder in the camelCase API shape, with its wall-clock start shown in
+ * `timeZone` and the state of its delivery, if one was attempted
+ */
+export function transformReminder(reminder: Reminder, delivery: any | null, timeZone: string, now: Date = new Date()) {
+  const start = toZonedParts(reminder.startsAt, timeZone);
+  return {
+    eventId: reminder.eventId,
+    occurrenceDate: reminder.occurrenceDate,
+    title: reminder.title,
+    emoji: reminder.emoji,
+    date: start.date,
+    startTime: Math.round(start.hours * 10000) / 10000,
+    startsAt: reminder.startsAt.toISOString(),
+    remindAt: reminder.remindAt.toISOString(),
+    minutesBefore: reminder.minutesBefore,
+    status: (delivery?.status as DeliveryStatus | undefined) ?? (reminder.remindAt <= now ? 'due' : 'scheduled'),
+    delivery: delivery ? {
+      channel: delivery.channel,
+      attempts: delivery.attempts,
+      sentAt: delivery.sent_at ?? null,
+      error: delivery.error ?? null
+    } : null
+  };
+}
@@ -0,0 +1,190 @@
+import { ScheduleTask } from '../schemas/schedule.schema';
+import { findFreeGaps } from './availability';
+import { addDays, diffDays } from './date';
+import {
+  classifyTaskType,
+  DEFAULT_ENERGY_WINDOWS,
+  EnergyAlignment,
+  EnergyLevel,
+  EnergyWindow,
+  getEnergyAlignment,
+  scoreEnergy,
+  TaskType
+} from './energy';
+
+/**
+ * Deterministic placement of unscheduled tasks into free time around
+ * existing event rows (snake_case, already in the user's time zone)
+ */
+
+export interface SchedulerOptions {
+  from: string;
+  to: string;
+  workStart: number;
+  workEnd: number;
+  bufferHours?: number;
+  notBefore?: { date: string; hours: number };
+  energyWindows?: EnergyWindow[];
+}
+
+export interface TaskPlacement {
+  taskIndex: number;
+  task: ScheduleTask;
+  date: string;
+  startTime: number;
+  endTime: number;
+  energy: EnergyLevel;
+  preferredEnergy: EnergyLevel;
+  taskType: TaskType;
+  alignment: EnergyAlignment;
+}
+
+export interface UnscheduledTask {
+  taskIndex: number;
+  task: ScheduleTask;
+  reason: string;
+}
+
+const SLOT_STEP_HOURS = 0.25;
+
+const PRIORITY_ORDER: Record<ScheduleTask['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+// Score lost per day a task is pushed back; urgent work is pulled toward today
+const DELAY_PENALTY: Record<ScheduleTask['priority'], number> = { high: 1, medium: 0.5, low: 0.25 };
+
+const ALIGNMENT_SCORE: Record<EnergyAlignment, number> = { optimal: 2, good: 1, poor: 0 };
+
+const PREFERRED_ENERGY: Record<TaskType, EnergyLevel> = {
+  'deep-work': 'high',
+  creative: 'high',
+  meetings: 'medium',
+  admin: 'low',
+  other: 'medium'
+};
+
+export function getTaskType(task: ScheduleTask): TaskType {
+  const fromCategory = classifyTaskType(task.category);
+  return fromCategory !== 'other' ? fromCategory : classifyTaskType(task.title);
+}
+
+/**
+ * Place tasks by priority, then deadline, then longest first. Each task takes the
+ * best-scoring free slot (energy match, alignment, then how soon), and placed
+ * tasks block time for the ones after them, so the result never overlaps.
+ */
+export function scheduleTasks(
+  rows: any[],
+  tasks: ScheduleTask[],
+  options: SchedulerOptions
+): { placements: TaskPlacement[]; unscheduled: UnscheduledTask[] } {
+  const { from, to, workStart, workEnd, bufferHours = 0, notBefore } = options;
+  const energyWindows = options.energyWindows ?? DEFAULT_ENERGY_WINDOWS;
+  const busy = [...rows];
+  const placements: TaskPlacement[] = [];
+  const unscheduled: UnscheduledTask[] = [];
+
+  const order = tasks
+    .map((task, taskIndex) => ({ task, taskIndex }))
+    .sort((a, b) =>
+      PRIORITY_ORDER[a.task.priority] - PRIORITY_ORDER[b.task.priority] ||
+      (a.task.deadline ?? '9999-12-31').localeCompare(b.task.deadline ?? '9999-12-31') ||
+      b.task.durationMinutes - a.task.durationMinutes
+    );
+
+  for (const { task, taskIndex } of order) {
+    const durationHours = task.durationMinutes / 60;
+    const lastDate = task.deadline && task.deadline < to ? task.deadline : to;
+
+    if (durationHours > workEnd - workStart) {
+      unscheduled.push({ taskIndex, task, reason: 'Longer than the working-hours window' });
+      continue;
+    }
+    if (lastDate < from) {
+      unscheduled.push({ taskIndex, task, reason: 'Deadline is before the scheduling window' });
+      continue;
+    }
+
+    const taskType = getTaskType(task);
+    const preferredEnergy = task.energy ?? PREFERRED_ENERGY[taskType];
+    let best: { placement: TaskPlacement; score: number } | null = null;
+
+    for (let date = from; date <= lastDate; date = addDays(date, 1)) {
+      if (notBefore && date < notBefore.date) continue;
+      const earliest = notBefore && date === notBefore.date ? notBefore.hours : 0;
+      const delayPenalty = diffDays(from, date) * DELAY_PENALTY[task.priority];
+
+      for (const gap of findFreeGaps(busy, date, { workStart, workEnd, bufferHours, earliest })) {
+        const firstStart = Math.ceil(gap.start / SLOT_STEP_HOURS - 1e-9) * SLOT_STEP_HOURS;
+        for (let start = firstStart; start + durationHours <= gap.end + 1e-9; start += SLOT_STEP_HOURS) {
+          const { level } = scoreEnergy(start, start + durationHours, energyWindows);
+          const alignment = getEnergyAlignment(taskType, level);
+          const score = (level === preferredEnergy ? 3 : 0) + ALIGNMENT_SCORE[alignment] - delayPenalty;
+
+          if (!best || score > best.score) {
+            best = {
+              score,
+              placement: {
+                taskIndex,
+                task,
+                date,
+                startTime: start,
+                endTime: start + durationHours,
+                energy: level,
+                preferredEnergy,
+                taskType,
+                alignment
+              }
+            };
+          }
+        }
+      }
+    }
+
+    if (!best) {
+      unscheduled.push({
+        taskIndex,
+        task,
+        reason: task.deadline ? 'No free slot long enough before the deadline' : 'No free slot long enough in the range'
+      });
+      continue;
+    }
+
+    placements.push(best.placement);
+    busy.push({ date: best.placement.date, start_time: best.placement.startTime, end_time: best.placement.endTime });
+  }
+
+  placements.sort((a, b) => a.date.localeCompare(b.date) || a.startTime - b.startTime);
+  unscheduled.sort((a, b) => a.taskIndex - b.taskIndex);
+  return { placements, unscheduled };
+}
+
+const TASK_TYPE_LABELS: Record<TaskType, string> = {
+  'deep-work': 'deep work',
+  creative: 'creative work',
+  meetings: 'meetings',
+  admin: 'admin tasks',
+  other: 'this task'
+};
+
+/**
+ * Plain-language reason for a placement, used when no model explanation is available
+ */
+export function describePlacement(placement: TaskPlacement): string {
+  const { task, energy, preferredEnergy, taskType, alignment, date } = placement;
+  const label = TASK_TYPE_LABELS[taskType];
+
+  let reason = energy === preferredEnergy
+    ? `${energy[0].toUpperCase()}${energy.slice(1)}-energy slot suits ${label}`
+    : `Best free ${energy}-energy slot available (${preferredEnergy} energy preferred)`;
+
+  if (alignment === 'poor') {
+    reason += `; not ideal for ${label}, but nothing better was free`;
+  }
+
+  if (task.deadline) {
+    const daysEarly = diffDays(date, task.deadline);
+    reason += daysEarly === 0 ? '; lands on its deadline day' : `; ${daysEarly} day${daysEarly === 1 ? '' : 's'} before its deadline`;
+  }
+
+  return `${reason}.`;
+}
@@ -0,0 +1,40 @@
+import { Response } from 'express';
+
+/**
+ * A server-sent events response. `signal` aborts when the client disconnects
+ * before the stream is ended, so upstream work can be cancelled.
+ */
+export interface EventStream {
+  readonly signal: AbortSignal;
+  send(event: string, data: unknown): void;
+  end(): void;
+}
+
+export function openEventStream(res: Response): EventStream {
+  const controller = new AbortController();
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no' // Stop reverse proxies from buffering the stream
+  });
+  res.flushHeaders();
+
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  return {
+    signal: controller.signal,
+
+    send(event: string, data: unknown) {
+      if (controller.signal.aborted || res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+
+    end() {
+      if (!res.writableEnded) res.end();
+    }
+  };
+}
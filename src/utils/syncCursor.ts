@@ -0,0 +1,66 @@
+/**
+ * Opaque delta sync cursors. Clients must treat them as strings; internally
+ * they hold the change sequence of the last event and tombstone delivered,
+ * plus when the cursor was handed out.
+ *
+ * Sequence numbers are assigned by the database as rows are written, so unlike
+ * the app-set `updated_at` they cannot make a slow write land behind a cursor
+ * that has already moved past it.
+ */
+
+export interface SyncCursor {
+  events: number | null; // Null: from the first event
+  tombstones: number | null; // Null: from the first tombstone
+  issuedAt: string; // Decides whether tombstones the client still needs may have been purged
+  fullSync: boolean; // The client is still paging through a full snapshot
+}
+
+// issuedAt is only ever one of our own ISO timestamps
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && TIMESTAMP_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// Positions end up inside PostgREST filters, so only plain sequence numbers pass
+function decodePosition(value: unknown): number | null | undefined {
+  if (value === null) return null;
+  return Number.isSafeInteger(value) && (value as number) >= 0 ? value as number : undefined;
+}
+
+function parseCursor(cursor: string): any {
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export function encodeSyncCursor(cursor: SyncCursor): string {
+  return Buffer.from(JSON.stringify({
+    e: cursor.events,
+    d: cursor.tombstones,
+    i: cursor.issuedAt,
+    f: cursor.fullSync || undefined
+  })).toString('base64url');
+}
+
+export function decodeSyncCursor(cursor: string): SyncCursor | null {
+  const value = parseCursor(cursor);
+  const events = decodePosition(value?.e);
+  const tombstones = decodePosition(value?.d);
+  if (events === undefined || tombstones === undefined || !isTimestamp(value.i)) {
+    return null;
+  }
+  return { events, tombstones, issuedAt: value.i, fullSync: value.f === true };
+}
+
+/**
+ * Cursors handed out before change sequences held timestamps (a bare `t`, or
+ * `{ t, id }` positions). They cannot be mapped onto sequences, so their
+ * clients need a full sync.
+ */
+export function isTimestampCursor(cursor: string): boolean {
+  const value = parseCursor(cursor);
+  return typeof value?.t === 'string' || typeof value?.e?.t === 'string' || typeof value?.d?.t === 'string';
+}
@@ -0,0 +1,111 @@
+/**
+ * IANA time zone helpers built on Intl, so no tz database dependency is needed
+ */
+
+export interface ZonedParts {
+  date: string; // YYYY-MM-DD
+  hours: number; // decimal hours, e.g. 9.5 = 09:30
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and decimal hours of an instant in the given zone
+ */
+export function toZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hours: Number(parts.hour) + Number(parts.minute) / 60 + Number(parts.second) / 3600
+  };
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in minutes (e.g. -420 for PDT)
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const { date, hours } = toZonedParts(instant, timeZone);
+  const [year, month, day] = date.split('-').map(Number);
+  const wallAsUtc = Date.UTC(year, month - 1, day) + Math.round(hours * 3600) * 1000;
+  return Math.round((wallAsUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Instant for a wall-clock date and decimal hour in the given zone.
+ * Times skipped by a DST jump resolve forward; repeated times resolve to the first.
+ */
+export function zonedTimeToUtc(date: string, hours: number, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallAsUtc = Date.UTC(year, month - 1, day) + Math.round(hours * 60) * 60000;
+
+  // Offsets a day either side cover both sides of any DST change near this time
+  const offsets = [-86400000, 86400000].map(shift => getTimeZoneOffset(new Date(wallAsUtc + shift), timeZone));
+  const matches = offsets
+    .map(offset => wallAsUtc - offset * 60000)
+    .filter((instant, i) => getTimeZoneOffset(new Date(instant), timeZone) === offsets[i]);
+
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches));
+  }
+  // Skipped time: the offset from before the jump lands the same distance after it
+  return new Date(wallAsUtc - Math.min(...offsets) * 60000);
+}
+
+/**
+ * Re-express a wall-clock time from one zone in another
+ */
+export function convertWallTime(date: string, hours: number, fromZone: string, toZone: string): ZonedParts {
+  if (fromZone === toZone) {
+    return { date, hours };
+  }
+  return toZonedParts(zonedTimeToUtc(date, hours, fromZone), toZone);
+}
+
+/**
+ * Today's calendar date in the given zone
+ */
+export function todayInZone(timeZone: string, now: Date = new Date()): string {
+  return toZonedParts(now, timeZone).date;
+}
+
+/**
+ * "Today" context for AI prompts, so relative dates ("tomorrow", "in 2 hours")
+ * resolve against the user's clock rather than the server's UTC one
+ */
+export function describeNow(timeZone: string, now: Date = new Date()): string {
+  const { date, hours } = toZonedParts(now, timeZone);
+  const weekday = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'long' }).format(now);
+  const hh = String(Math.floor(hours)).padStart(2, '0');
+  const mm = String(Math.floor((hours % 1) * 60)).padStart(2, '0');
+  return `Today's date is ${date} (${weekday}). The current local time is ${hh}:${mm} in the ${timeZone} time zone`;
+}
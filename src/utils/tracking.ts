@@ -0,0 +1,90 @@
+import { categoryKey } from './categories';
+import { getTracking } from './events';
+
+/**
+ * Estimation accuracy: how planned event lengths compare with the actual time
+ * recorded through start/stop/complete (see getTracking for a single event)
+ */
+
+// A category needs this many tracked events before its estimates are judged
+export const MIN_ESTIMATE_SAMPLES = 3;
+
+// Typical actual/planned ratio beyond which estimates count as off
+const ESTIMATE_TOLERANCE = 0.2;
+
+export interface CategoryEstimate {
+  category: string;
+  samples: number;
+  plannedMinutes: number;
+  actualMinutes: number;
+  averageVarianceMinutes: number;
+  typicalRatio: number; // Median of actual / planned
+  accuracy: number; // Percentage of events within 20% of their planned length
+  bias: 'underestimates' | 'overestimates' | 'accurate' | 'not_enough_data';
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * How far actual time runs from planned time, per category and overall. Only
+ * timed events with both actual timestamps count. Categories are sorted with
+ * the largest average overrun first.
+ */
+export function calculateEstimateAccuracy(rows: any[]): { overall: CategoryEstimate | null; categories: CategoryEstimate[] } {
+  const groups = new Map<string, { planned: number; actual: number }[]>();
+
+  for (const row of rows) {
+    const { plannedMinutes, actualMinutes } = getTracking(row);
+    if (actualMinutes === null || plannedMinutes === 0) continue;
+    const category = categoryKey(row.category);
+    groups.set(category, [...(groups.get(category) || []), { planned: plannedMinutes, actual: actualMinutes }]);
+  }
+
+  const summarize = (category: string, samples: { planned: number; actual: number }[]): CategoryEstimate => {
+    const ratios = samples.map(sample => sample.actual / sample.planned);
+    const typicalRatio = median(ratios);
+    const plannedMinutes = samples.reduce((sum, sample) => sum + sample.planned, 0);
+    const actualMinutes = samples.reduce((sum, sample) => sum + sample.actual, 0);
+
+    let bias: CategoryEstimate['bias'] = 'accurate';
+    if (samples.length < MIN_ESTIMATE_SAMPLES) bias = 'not_enough_data';
+    else if (typicalRatio > 1 + ESTIMATE_TOLERANCE) bias = 'underestimates';
+    else if (typicalRatio < 1 - ESTIMATE_TOLERANCE) bias = 'overestimates';
+
+    return {
+      category,
+      samples: samples.length,
+      plannedMinutes,
+      actualMinutes,
+      averageVarianceMinutes: Math.round((actualMinutes - plannedMinutes) / samples.length),
+      typicalRatio: Math.round(typicalRatio * 100) / 100,
+      accuracy: Math.round(ratios.filter(ratio => Math.abs(ratio - 1) <= ESTIMATE_TOLERANCE).length / ratios.length * 100),
+      bias
+    };
+  };
+
+  const categories = [...groups.entries()]
+    .map(([category, samples]) => summarize(category, samples))
+    .sort((a, b) => b.averageVarianceMinutes - a.averageVarianceMinutes);
+  const all = [...groups.values()].flat();
+
+  return { overall: all.length > 0 ? summarize('all', all) : null, categories };
+}
+
+/**
+ * One-line warning for a category whose events reliably run long or short
+ */
+export function describeEstimateBias(estimate: CategoryEstimate): string | null {
+  const percent = Math.round(Math.abs(estimate.typicalRatio - 1) * 100);
+  if (estimate.bias === 'underestimates') {
+    return `"${estimate.category}" events usually take ${percent}% longer than planned (${estimate.samples} tracked)`;
+  }
+  if (estimate.bias === 'overestimates') {
+    return `"${estimate.category}" events usually finish ${percent}% sooner than planned (${estimate.samples} tracked)`;
+  }
+  return null;
+}
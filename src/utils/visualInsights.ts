@@ -0,0 +1,128 @@
+import { broadCategory, CategoryRegistry, categoryTaskType } from './categories';
+import { getEnergyAlignment, getEnergyLevel } from './energy';
+import { BalanceMix, DEFAULT_IDEAL_BALANCE, DEFAULT_PREFERENCES, UserPreferences } from './preferences';
+
+/**
+ * Calculate visual insights metrics from events, judged against the user's
+ * energy windows, break length and ideal balance. Categories are grouped
+ * through `registry` when given.
+ */
+export function calculateVisualInsights(
+  events: any[],
+  preferences: UserPreferences = DEFAULT_PREFERENCES,
+  registry?: CategoryRegistry
+) {
+  
+  const energyHeatmap = events.map(event => {
+    const startHour = event.start_time;
+    const endHour = event.end_time;
+
+    const optimalEnergy = getEnergyLevel(startHour, preferences.energyWindows);
+    const actualTaskType = categoryTaskType(event.category, registry);
+    const alignment = getEnergyAlignment(actualTaskType, optimalEnergy);
+
+    return {
+      title: event.title,
+      startTime: startHour,
+      endTime: endHour,
+      optimalEnergy,
+      actualTaskType,
+      alignment,
+      category: event.category
+    };
+  });
+
+  
+  const focusBlocks = [];
+  const sortedEvents = [...events].sort((a, b) => a.start_time - b.start_time);
+
+  for (let i = 0; i < sortedEvents.length; i++) {
+    const event = sortedEvents[i];
+    const duration = Math.max(0, event.end_time - event.start_time);
+    const nextEvent = sortedEvents[i + 1];
+
+    
+    const hasGap = nextEvent ? (nextEvent.start_time - event.end_time) >= preferences.breakMinutes / 60 : true;
+
+    
+    let quality: 'excellent' | 'good' | 'fragmented';
+    if (duration >= 1.5) {
+      quality = 'excellent'; 
+    } else if (duration >= 0.5) {
+      quality = 'good'; 
+    } else {
+      quality = 'fragmented'; 
+    }
+
+    focusBlocks.push({
+      title: event.title,
+      startTime: event.start_time,
+      duration: duration,
+      quality: quality,
+      hasBreakAfter: hasGap,
+      category: event.category
+    });
+  }
+
+  
+  const categoryTotals: { [key: string]: number } = {};
+
+  events.forEach(event => {
+    const duration = Math.max(0, event.end_time - event.start_time);
+    const broad = broadCategory(event.category, registry);
+    categoryTotals[broad] = (categoryTotals[broad] || 0) + duration;
+  });
+
+  const totalHours = Object.values(categoryTotals).reduce((sum, val) => sum + val, 0);
+
+  const workLifeBalance = {
+    work: categoryTotals['work'] || 0,
+    personal: categoryTotals['personal'] || 0,
+    health: categoryTotals['health'] || 0,
+    other: categoryTotals['other'] || 0,
+    workPercentage: totalHours > 0 ? Math.round((categoryTotals['work'] || 0) / totalHours * 100) : 0,
+    personalPercentage: totalHours > 0 ? Math.round((categoryTotals['personal'] || 0) / totalHours * 100) : 0,
+    healthPercentage: totalHours > 0 ? Math.round((categoryTotals['health'] || 0) / totalHours * 100) : 0,
+    otherPercentage: totalHours > 0 ? Math.round((categoryTotals['other'] || 0) / totalHours * 100) : 0,
+    balanceScore: calculateBalanceScore(categoryTotals, totalHours, preferences.idealBalance)
+  };
+
+  return {
+    energyHeatmap,
+    focusBlocks,
+    workLifeBalance
+  };
+}
+
+/**
+ * Calculate balance score (0-100)
+ * Ideal: the user's mix, by default 60% work, 25% personal, 15% health
+ */
+export function calculateBalanceScore(
+  categoryTotals: { [key: string]: number },
+  totalHours: number,
+  ideal: BalanceMix = DEFAULT_IDEAL_BALANCE
+): number {
+  if (totalHours === 0) return 0;
+
+  const workPct = ((categoryTotals['work'] || 0) / totalHours) * 100;
+  const personalPct = ((categoryTotals['personal'] || 0) / totalHours) * 100;
+  const healthPct = ((categoryTotals['health'] || 0) / totalHours) * 100;
+
+  
+  const idealWork = ideal.work;
+  const idealPersonal = ideal.personal;
+  const idealHealth = ideal.health;
+
+  
+  const workDev = Math.abs(workPct - idealWork);
+  const personalDev = Math.abs(personalPct - idealPersonal);
+  const healthDev = Math.abs(healthPct - idealHealth);
+
+  const totalDeviation = workDev + personalDev + healthDev;
+
+  
+  const score = Math.max(0, 100 - totalDeviation);
+
+  return Math.round(score);
+}
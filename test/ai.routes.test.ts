@@ -0,0 +1,328 @@
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import { TEST_USER } from './support/fakeSupabase';
+import { startTestServer, TestServer } from './support/testServer';
+
+// Every /api/ai route against the offline provider and an in-memory database
+
+const DAY = '2025-10-06'; // A Monday
+
+let server: TestServer;
+
+function seedEvent(overrides: Record<string, unknown> = {}) {
+  const row = {
+    id: randomUUID(),
+    user_id: TEST_USER.id,
+    title: 'Team sync',
+    description: null,
+    date: DAY,
+    end_date: null,
+    start_time: 9,
+    end_time: 10,
+    is_all_day: false,
+    is_completed: false,
+    category: 'work',
+    recurrence_rule: null,
+    recurrence_exceptions: [],
+    recurring_event_id: null,
+    original_date: null,
+    time_zone: null,
+    local_id: null,
+    version: 1,
+    created_at: '2025-10-01T00:00:00.000Z',
+    updated_at: '2025-10-01T00:00:00.000Z',
+    ...overrides
+  };
+  server.supabase.rows('events').push(row);
+  return row;
+}
+
+before(async () => {
+  // The controllers' progress logs would interleave with the test runner's output
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'error', () => {});
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.supabase.reset();
+});
+
+describe('auth', () => {
+  it('rejects requests without a valid token', async () => {
+    const { status } = await server.request('POST', '/api/ai/insights', { date: DAY }, { Authorization: 'Bearer nope' });
+    assert.equal(status, 401);
+  });
+});
+
+describe('POST /api/ai/insights', () => {
+  it('answers an empty day without calling the model', async () => {
+    const { status, body } = await server.request('POST', '/api/ai/insights', { date: DAY });
+    assert.equal(status, 200);
+    assert.equal(body.data.insights.length, 5);
+  });
+
+  it('generates insights and serves the next request from the cache', async () => {
+    seedEvent();
+    seedEvent({ title: 'Gym', start_time: 18, end_time: 19, category: 'health' });
+
+    const first = await server.request('POST', '/api/ai/insights', { date: DAY });
+    assert.equal(first.status, 200);
+    assert.equal(first.body.data.insights.length, 5);
+    assert.equal(first.body.data.cache.hit, false);
+
+    const second = await server.request('POST', '/api/ai/insights', { date: DAY });
+    assert.equal(second.body.data.cache.hit, true);
+    assert.deepEqual(second.body.data.insights, first.body.data.insights);
+  });
+
+  it('rejects malformed dates', async () => {
+    const { status } = await server.request('POST', '/api/ai/insights', { date: '2025-13-40' });
+    assert.equal(status, 400);
+  });
+});
+
+describe('POST /api/ai/insights/stream', () => {
+  it('streams each insight, then the full list', async () => {
+    seedEvent();
+    const { status, events } = await server.stream('/api/ai/insights/stream', { date: DAY });
+    assert.equal(status, 200);
+    assert.equal(events[0].event, 'visualInsights');
+    assert.equal(events.filter(event => event.event === 'insight').length, 5);
+    const done = events[events.length - 1];
+    assert.equal(done.event, 'done');
+    assert.equal(done.data.insights.length, 5);
+    assert.equal(server.supabase.rows('ai_insight_cache').length, 1);
+  });
+
+  it('does not cache a short list', async t => {
+    seedEvent();
+    t.mock.method(server.llm, 'stream', async function* () {
+      yield '{"insights": ["Protect the morning for focused work."]}';
+    });
+
+    const { events } = await server.stream('/api/ai/insights/stream', { date: DAY });
+    assert.equal(events[events.length - 1].data.insights.length, 1);
+    assert.equal(server.supabase.rows('ai_insight_cache').length, 0);
+  });
+});
+
+describe('POST /api/ai/parse-schedule', () => {
+  it('parses a prompt into events', async () => {
+    const { status, body } = await server.request('POST', '/api/ai/parse-schedule', { prompt: `Meeting at 3pm and gym at 6pm on ${DAY}` });
+    assert.equal(status, 200);
+    assert.deepEqual(body.data.events.map((event: any) => [event.title, event.date, event.startTime]), [
+      ['Meeting', DAY, 15],
+      ['Gym', DAY, 18]
+    ]);
+  });
+
+  it('saves the events with commit, skipping ones already stored', async () => {
+    seedEvent({ title: 'Meeting', start_time: 15, end_time: 15.5 });
+    const { status, body } = await server.request('POST', '/api/ai/parse-schedule', {
+      prompt: `Meeting at 3pm and gym at 6pm on ${DAY}`,
+      commit: true
+    });
+    assert.equal(status, 200);
+    assert.equal(body.data.saved.created.length, 1);
+    assert.equal(server.supabase.rows('events').length, 2);
+  });
+
+  it('works without auth on the test route', async () => {
+    const { status } = await server.request('POST', '/api/ai/test-parse', { prompt: 'Lunch at 12:30' }, { Authorization: '' });
+    assert.equal(status, 200);
+  });
+});
+
+describe('POST /api/ai/parse-schedule/stream', () => {
+  it('streams parsed events', async () => {
+    const { events } = await server.stream('/api/ai/parse-schedule/stream', { prompt: `Standup at 9am on ${DAY}` });
+    const done = events[events.length - 1];
+    assert.equal(done.event, 'done');
+    assert.equal(done.data.events[0].title, 'Standup');
+  });
+});
+
+describe('POST /api/ai/parse-schedule-pro', () => {
+  it('parses with the pro feature', async () => {
+    const { status, body } = await server.request('POST', '/api/ai/parse-schedule-pro', { prompt: `Dentist at 4pm on ${DAY}` });
+    assert.equal(status, 200);
+    assert.equal(body.data.events[0].startTime, 16);
+  });
+});
+
+describe('image parsing', () => {
+  const image = Buffer.from('not really a png').toString('base64');
+
+  it('parses a single image', async () => {
+    const { status, body } = await server.request('POST', '/api/ai/parse-schedule-image', { image });
+    assert.equal(status, 200);
+    assert.equal(body.data.events[0].title, 'Schedule item');
+  });
+
+  it('parses several images', async () => {
+    const { status, body } = await server.request('POST', '/api/ai/parse-schedule-images', { images: [image, image] });
+    assert.equal(status, 200);
+    assert.ok(body.data.events.length >= 1);
+  });
+
+  it('streams several images', async () => {
+    const { events } = await server.stream('/api/ai/parse-schedule-images/stream', { images: [image] });
+    assert.equal(events[events.length - 1].event, 'done');
+  });
+});
+
+describe('POST /api/ai/analytics', () => {
+  it('summarizes a date range', async () => {
+    seedEvent();
+    seedEvent({ date: '2025-10-07', is_completed: true });
+    const { status, body } = await server.request('POST', '/api/ai/analytics', { startDate: DAY, endDate: '2025-10-12' });
+    assert.equal(status, 200);
+    assert.equal(body.success, true);
+  });
+
+  it('rejects inverted ranges', async () => {
+    const { status } = await server.request('POST', '/api/ai/analytics', { startDate: '2025-10-12', endDate: DAY });
+    assert.equal(status, 400);
+  });
+});
+
+describe('POST /api/ai/analytics/estimates', () => {
+  it('compares planned and tracked time', async () => {
+    seedEvent({ actual_start: `${DAY}T09:00:00.000Z`, actual_end: `${DAY}T10:30:00.000Z`, tracking_status: 'completed', is_completed: true });
+    const { status, body } = await server.request('POST', '/api/ai/analytics/estimates', { startDate: DAY, endDate: DAY });
+    assert.equal(status, 200);
+    assert.equal(body.success, true);
+  });
+});
+
+describe('POST /api/ai/review', () => {
+  it('writes a weekly review', async () => {
+    seedEvent();
+    const { status, body } = await server.request('POST', '/api/ai/review', { period: 'week', date: DAY });
+    assert.equal(status, 200);
+    assert.equal(typeof body.data.review.summary, 'string');
+  });
+});
+
+describe('POST /api/ai/task-insight', () => {
+  it('gives bullet points for one task', async () => {
+    const { status, body } = await server.request('POST', '/api/ai/task-insight', {
+      title: 'Write report',
+      startTime: 9,
+      endTime: 11,
+      date: DAY
+    });
+    assert.equal(status, 200);
+    assert.match(body.data.insight, /^• /);
+  });
+});
+
+describe('POST /api/ai/auto-schedule', () => {
+  it('places tasks around existing events and explains them', async () => {
+    // Past days are never scheduled, so this one has to lie ahead
+    const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    seedEvent({ date: nextWeek });
+    const { status, body } = await server.request('POST', '/api/ai/auto-schedule', {
+      tasks: [{ title: 'Write report', durationMinutes: 90, priority: 'high' }],
+      startDate: nextWeek,
+      endDate: nextWeek
+    });
+    assert.equal(status, 200);
+    const [placement] = body.data.placements;
+    assert.ok(placement.startTime >= 10);
+    assert.equal(typeof placement.explanation, 'string');
+  });
+});
+
+describe('POST /api/ai/edit-events', () => {
+  it('plans and applies a delete', async () => {
+    const gym = seedEvent({ title: 'Gym', start_time: 18, end_time: 19 });
+    const plan = await server.request('POST', '/api/ai/edit-events', {
+      instruction: `cancel gym on ${DAY}`,
+      startDate: DAY,
+      endDate: '2025-10-12'
+    });
+    assert.equal(plan.status, 200);
+    const { updates, deletes, creates } = plan.body.data;
+    assert.deepEqual(deletes.map((change: any) => change.eventId), [gym.id]);
+
+    const applied = await server.request('POST', '/api/ai/edit-events/apply', { updates, deletes, creates });
+    assert.equal(applied.status, 200);
+    assert.equal(server.supabase.rows('events').length, 0);
+  });
+
+  it('restores a split series and its detached occurrences when a later change fails', async () => {
+    const series = seedEvent({ title: 'Standup', recurrence_rule: 'FREQ=WEEKLY;BYDAY=MO;COUNT=4' });
+    const moved = seedEvent({ title: 'Standup', recurring_event_id: series.id, original_date: '2025-10-20', date: '2025-10-20', start_time: 11, end_time: 12 });
+    const gym = seedEvent({ title: 'Gym', start_time: 18, end_time: 19 });
+    seedEvent({ title: 'Run', start_time: 7, end_time: 8, local_id: 'taken' });
+
+    const applied = await server.request('POST', '/api/ai/edit-events/apply', {
+      updates: [
+        { eventId: series.id, scope: 'following', occurrenceDate: '2025-10-13', changes: { title: 'Daily standup' } },
+        // Fails on the unique local id after the split was written
+        { eventId: gym.id, changes: { localId: 'taken' } }
+      ]
+    });
+    assert.equal(applied.body.success, false);
+    assert.deepEqual(applied.body.data.updates.map((result: any) => result.status), ['rolled_back', 'failed']);
+
+    const rows = server.supabase.rows('events');
+    assert.equal(rows.length, 4);
+    assert.equal(rows.find(row => row.id === series.id)?.recurrence_rule, 'FREQ=WEEKLY;BYDAY=MO;COUNT=4');
+    assert.equal(rows.find(row => row.id === moved.id)?.recurring_event_id, series.id);
+  });
+});
+
+describe('/api/ai/chat', () => {
+  it('proposes events and writes them once confirmed', async () => {
+    const reply = await server.request('POST', '/api/ai/chat', { message: `Add a run at 7am on ${DAY}` });
+    assert.equal(reply.status, 200);
+    const { sessionId, proposal } = reply.body.data;
+    assert.ok(proposal);
+    assert.equal(server.supabase.rows('events').length, 0);
+
+    const confirmed = await server.request('POST', `/api/ai/chat/sessions/${sessionId}/proposals/${proposal.id}/confirm`);
+    assert.equal(confirmed.status, 200);
+    assert.equal(server.supabase.rows('events').length, 1);
+    assert.equal(server.supabase.rows('chat_proposals')[0].status, 'applied');
+  });
+
+  it('applies nothing when one change of a proposal fails', async () => {
+    const reply = await server.request('POST', '/api/ai/chat', { message: `Add a run at 7am on ${DAY}` });
+    const { sessionId, proposal } = reply.body.data;
+    const [stored] = server.supabase.rows('chat_proposals');
+    stored.changes = [...stored.changes, { action: 'update', eventId: randomUUID(), changes: { title: 'Gone' } }];
+
+    const confirmed = await server.request('POST', `/api/ai/chat/sessions/${sessionId}/proposals/${proposal.id}/confirm`);
+    assert.equal(confirmed.status, 409);
+    assert.equal(server.supabase.rows('events').length, 0);
+    assert.equal(stored.status, 'failed');
+  });
+
+  it('lists, shows, rejects and deletes sessions', async () => {
+    const reply = await server.request('POST', '/api/ai/chat', { message: `Lunch at 12pm on ${DAY}` });
+    const { sessionId, proposal } = reply.body.data;
+
+    const list = await server.request('GET', '/api/ai/chat/sessions');
+    assert.equal(list.status, 200);
+    assert.equal(list.body.data.sessions.length, 1);
+
+    const rejected = await server.request('POST', `/api/ai/chat/sessions/${sessionId}/proposals/${proposal.id}/reject`);
+    assert.equal(rejected.status, 200);
+
+    const detail = await server.request('GET', `/api/ai/chat/sessions/${sessionId}`);
+    assert.equal(detail.status, 200);
+    assert.ok(detail.body.data.messages.length >= 2);
+
+    const removed = await server.request('DELETE', `/api/ai/chat/sessions/${sessionId}`);
+    assert.equal(removed.status, 200);
+    assert.equal((await server.request('GET', `/api/ai/chat/sessions/${sessionId}`)).status, 404);
+  });
+});
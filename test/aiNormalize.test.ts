@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  normalizeBullets,
+  normalizeInsights,
+  normalizeParsedEvent,
+  toArray,
+  toDecimalHours,
+  toHexColor
+} from '../src/utils/aiNormalize';
+
+describe('toDecimalHours', () => {
+  it('reads the time shapes models produce', () => {
+    assert.equal(toDecimalHours(15.5), 15.5);
+    assert.equal(toDecimalHours('15.5'), 15.5);
+    assert.equal(toDecimalHours('15:30'), 15.5);
+    assert.equal(toDecimalHours('3:30pm'), 15.5);
+    assert.equal(toDecimalHours('12am'), 0);
+    assert.equal(toDecimalHours(1530), 15.5);
+  });
+
+  it('rejects values that are not times', () => {
+    assert.equal(toDecimalHours('25:00'), null);
+    assert.equal(toDecimalHours(1575), null);
+    assert.equal(toDecimalHours('noon'), null);
+    assert.equal(toDecimalHours(null), null);
+  });
+});
+
+describe('toHexColor', () => {
+  it('expands and upper-cases hex colors', () => {
+    assert.equal(toHexColor('#abc'), '#AABBCC');
+    assert.equal(toHexColor('ff69b4'), '#FF69B4');
+    assert.equal(toHexColor('pink'), null);
+  });
+});
+
+describe('toArray', () => {
+  it('unwraps keyed and single-array objects and wraps bare items', () => {
+    assert.deepEqual(toArray({ events: [1] }, 'events'), { value: [1], changes: ['Unwrapped "events" array from object'] });
+    assert.deepEqual(toArray({ items: [1] }, 'events').value, [1]);
+    assert.deepEqual(toArray({ title: 'x' }, 'events').value, [{ title: 'x' }]);
+    assert.deepEqual(toArray('nope', 'events'), { value: [], changes: [] });
+  });
+});
+
+describe('normalizeParsedEvent', () => {
+  it('coerces fields and reports each change', () => {
+    const { value, changes } = normalizeParsedEvent(
+      { title: ' Lunch ', startTime: '12:30', date: '2025/10/6', colorHex: 'abc', emoji: null },
+      { date: '2025-10-05' }
+    );
+    assert.deepEqual(value, { title: 'Lunch', startTime: 12.5, endTime: 13, date: '2025-10-06', colorHex: '#AABBCC' });
+    assert.equal(changes.length, 6);
+  });
+
+  it('defaults a missing date and ends a defaulted event by midnight', () => {
+    const { value } = normalizeParsedEvent({ title: 'Run', startTime: 23.75 }, { date: '2025-10-05' });
+    assert.deepEqual(value, { title: 'Run', startTime: 23.75, endTime: 24, date: '2025-10-05' });
+  });
+
+  it('uses the preferred event length for a missing end time', () => {
+    const { value, changes } = normalizeParsedEvent({ title: 'Run', startTime: 7, date: '2025-10-05' }, { date: '2025-10-05', eventHours: 1 });
+    assert.deepEqual(value, { title: 'Run', startTime: 7, endTime: 8, date: '2025-10-05' });
+    assert.deepEqual(changes, ['Defaulted missing endTime to 60 minutes after startTime']);
+  });
+
+  it('leaves values that are not objects alone', () => {
+    assert.deepEqual(normalizeParsedEvent('text', { date: '2025-10-05' }), { value: 'text', changes: [] });
+  });
+});
+
+describe('normalizeInsights and normalizeBullets', () => {
+  it('trims, drops empties and caps the list', () => {
+    assert.deepEqual(normalizeInsights({ insights: [' a ', '', 'b', 'c'] }, 2).value, ['a', 'b']);
+  });
+
+  it('normalizes bullet markers and drops preamble', () => {
+    const { value, changes } = normalizeBullets('Here you go:\n- one\n2) two\n• three', 2);
+    assert.equal(value, '• one\n• two');
+    assert.deepEqual(changes, [
+      'Dropped lines that were not bullet points',
+      'Normalized bullet markers',
+      'Kept the first 2 bullet points'
+    ]);
+  });
+});
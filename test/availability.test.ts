@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findFreeGaps, findFreeSlots } from '../src/utils/availability';
+
+const DAY = '2025-10-06';
+
+describe('findFreeGaps', () => {
+  it('leaves a buffer around events inside working hours', () => {
+    const rows = [
+      { date: DAY, start_time: 13, end_time: 14.5 },
+      { date: DAY, start_time: 10, end_time: 11 },
+      { date: DAY, start_time: 8, end_time: 12, is_all_day: true }
+    ];
+    assert.deepEqual(findFreeGaps(rows, DAY, { workStart: 9, workEnd: 17, bufferHours: 0.25 }), [
+      { start: 9, end: 9.75 },
+      { start: 11.25, end: 12.75 },
+      { start: 14.75, end: 17 }
+    ]);
+  });
+
+  it('counts the part of an overnight event that spills into the day', () => {
+    const rows = [{ date: '2025-10-05', start_time: 22, end_time: 9.5 }];
+    assert.deepEqual(findFreeGaps(rows, DAY, { workStart: 9, workEnd: 17 }), [{ start: 9.5, end: 17 }]);
+  });
+});
+
+describe('findFreeSlots', () => {
+  it('picks the best-energy quarter-hour slot per gap, never in the past', () => {
+    const slots = findFreeSlots([{ date: '2025-10-07', start_time: 9, end_time: 12 }], {
+      from: DAY,
+      to: '2025-10-07',
+      durationHours: 1,
+      workStart: 9,
+      workEnd: 17,
+      notBefore: { date: DAY, hours: 9.1 }
+    });
+    assert.deepEqual(slots[0], {
+      date: DAY,
+      startTime: 9.25,
+      endTime: 10.25,
+      gapStart: 9.1,
+      gapEnd: 17,
+      energy: 'high',
+      score: 1
+    });
+    assert.equal(slots[1].date, '2025-10-07');
+    assert.equal(slots[1].energy, 'medium');
+  });
+
+  it('offers nothing when no gap is long enough', () => {
+    const rows = [{ date: DAY, start_time: 9.5, end_time: 16.5 }];
+    assert.deepEqual(findFreeSlots(rows, { from: DAY, to: DAY, durationHours: 1, workStart: 9, workEnd: 17 }), []);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import { startTestServer, TestServer } from './support/testServer';
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'BEGIN:VEVENT', 'UID:standup', 'SUMMARY:Standup', 'DTSTART:20251006T090000Z', 'DTEND:20251006T093000Z', 'END:VEVENT',
+  'BEGIN:VEVENT', 'UID:review', 'SUMMARY:Review', 'DTSTART:20251007T140000Z', 'DTEND:20251007T150000Z', 'END:VEVENT',
+  'END:VCALENDAR'
+].join('\r\n');
+
+let server: TestServer;
+
+before(async () => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'error', () => {});
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.supabase.reset();
+});
+
+describe('POST /api/calendar/import', () => {
+  it('skips events an earlier import already stored', async () => {
+    const first = await server.request('POST', '/api/calendar/import', { ics: ICS, timeZone: 'UTC' });
+    assert.equal(first.status, 201);
+    assert.equal(first.body.summary.imported, 2);
+
+    const again = await server.request('POST', '/api/calendar/import', { ics: ICS, timeZone: 'UTC' });
+    assert.equal(again.status, 200);
+    assert.equal(again.body.summary.imported, 0);
+    assert.deepEqual(again.body.skipped.map((entry: any) => entry.reason), ['Already imported', 'Already imported']);
+    assert.equal(server.supabase.rows('events').length, 2);
+  });
+
+  it('imports only the new events of an updated file', async () => {
+    await server.request('POST', '/api/calendar/import', { ics: ICS, timeZone: 'UTC' });
+    const updated = ICS.replace(
+      'END:VCALENDAR',
+      ['BEGIN:VEVENT', 'UID:retro', 'SUMMARY:Retro', 'DTSTART:20251008T160000Z', 'DTEND:20251008T170000Z', 'END:VEVENT', 'END:VCALENDAR'].join('\r\n')
+    );
+
+    const { status, body } = await server.request('POST', '/api/calendar/import', { ics: updated, timeZone: 'UTC' });
+    assert.equal(status, 201);
+    assert.deepEqual(body.events.map((event: any) => event.localId), ['ics:retro']);
+    assert.equal(server.supabase.rows('events').length, 3);
+  });
+});
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import { startTestServer, TestServer } from './support/testServer';
+
+let server: TestServer;
+
+function createEvent(title: string, startTime: number) {
+  return server.request('POST', '/api/events', { title, date: '2025-10-06', startTime, endTime: startTime + 1 });
+}
+
+before(async () => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'error', () => {});
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.supabase.reset();
+});
+
+describe('GET /api/events/changes', () => {
+  it('delivers a write whose timestamp is older than the cursor', async () => {
+    await createEvent('Standup', 9);
+    const snapshot = await server.request('GET', '/api/events/changes');
+    assert.equal(snapshot.body.created.length, 1);
+
+    // A slow request stamps updated_at before an earlier-finishing write, then commits last
+    const late = await createEvent('Review', 14);
+    const row = server.supabase.rows('events').find(event => event.id === late.body.event.id)!;
+    row.updated_at = '2000-01-01T00:00:00.000Z';
+
+    const changes = await server.request('GET', `/api/events/changes?since=${snapshot.body.cursor}`);
+    assert.deepEqual(changes.body.created.map((event: any) => event.title), ['Review']);
+  });
+
+  it('reports edits of known events as updates', async () => {
+    const created = await createEvent('Standup', 9);
+    const snapshot = await server.request('GET', '/api/events/changes');
+
+    await server.request('PUT', `/api/events/${created.body.event.id}`, { title: 'Daily standup' });
+    const changes = await server.request('GET', `/api/events/changes?since=${snapshot.body.cursor}`);
+    assert.deepEqual(changes.body.created, []);
+    assert.deepEqual(changes.body.updated.map((event: any) => event.title), ['Daily standup']);
+  });
+
+  it('asks holders of timestamp cursors for a full sync', async () => {
+    const legacy = Buffer.from(JSON.stringify({ t: new Date().toISOString() })).toString('base64url');
+    const { status, body } = await server.request('GET', `/api/events/changes?since=${legacy}`);
+    assert.equal(status, 410);
+    assert.equal(body.fullSyncRequired, true);
+  });
+});
@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { expandEventRows } from '../src/utils/events';
+
+describe('expandEventRows', () => {
+  it('expands series into occurrences sorted with single events', () => {
+    const rows = [
+      { id: 'single', date: '2025-10-07', start_time: 8, end_time: 9 },
+      { id: 'series', date: '2025-10-06', start_time: 9, end_time: 10, recurrence_rule: 'FREQ=DAILY;COUNT=3', recurrence_exceptions: ['2025-10-07'] }
+    ];
+    assert.deepEqual(
+      expandEventRows(rows, { from: '2025-10-06', to: '2025-10-10' }).map(row => [row.id, row.date, row.occurrence_date]),
+      [['series', '2025-10-06', '2025-10-06'], ['single', '2025-10-07', undefined], ['series', '2025-10-08', '2025-10-08']]
+    );
+  });
+
+  it('skips a series whose stored rule no longer parses', (t) => {
+    t.mock.method(console, 'error', () => {});
+    const rows = [
+      { id: 'broken', date: '2025-10-06', start_time: 9, end_time: 10, recurrence_rule: 'FREQ=WEEKLY;BYDAY=MO;COUNT=0' },
+      { id: 'single', date: '2025-10-06', start_time: 8, end_time: 9 }
+    ];
+    assert.deepEqual(expandEventRows(rows, { from: '2025-10-06', to: '2025-10-12' }).map(row => row.id), ['single']);
+  });
+});
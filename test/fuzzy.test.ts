@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { normalizeText, titleSimilarity } from '../src/utils/fuzzy';
+
+describe('normalizeText', () => {
+  it('strips accents, case and punctuation', () => {
+    assert.equal(normalizeText('  Café — Réunion!! '), 'cafe reunion');
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('ranks exact, filler-only and contained matches highest', () => {
+    assert.equal(titleSimilarity('Dentist', 'dentist'), 1);
+    assert.equal(titleSimilarity('the dentist appointment', 'Dentist'), 0.95);
+    assert.equal(titleSimilarity('gym', 'Gym with Sam'), 0.9);
+  });
+
+  it('tolerates typos and prefixes', () => {
+    assert.ok(titleSimilarity('dentst', 'Dentist') > 0.5);
+    assert.ok(titleSimilarity('doc', 'Doctor visit') > 0.3);
+  });
+
+  it('requires every meaningful word to match', () => {
+    assert.equal(titleSimilarity('yoga', 'Team standup'), 0);
+    assert.ok(titleSimilarity('team lunch', 'Team standup') < titleSimilarity('team standup', 'Team standup sync'));
+    assert.equal(titleSimilarity('', 'Team standup'), 0);
+  });
+});
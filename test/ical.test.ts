@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildCalendar, escapeText, foldLine, formatLocalDateTime } from '../src/utils/ical';
+
+function series(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'series-1',
+    title: 'Standup',
+    date: '2025-10-01',
+    start_time: 18,
+    end_time: 18.5,
+    recurrence_rule: 'FREQ=DAILY;UNTIL=20251005',
+    recurrence_exceptions: ['2025-10-03'],
+    updated_at: '2025-09-30T12:00:00Z',
+    ...overrides
+  };
+}
+
+function unfold(calendar: string): string[] {
+  return calendar.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('buildCalendar', () => {
+  it('exports series with a date-time UNTIL and their exceptions', () => {
+    const lines = unfold(buildCalendar([series()]));
+    assert.ok(lines.includes('RRULE:FREQ=DAILY;UNTIL=20251005T235959'));
+    assert.ok(lines.includes('DTSTART:20251001T180000'));
+    assert.ok(lines.includes('EXDATE:20251003T180000'));
+  });
+
+  it('writes times in the event zone, or the calendar default for floating events', () => {
+    const lines = unfold(buildCalendar([series({ time_zone: 'America/Los_Angeles' })]));
+    assert.ok(lines.includes('DTSTART;TZID=America/Los_Angeles:20251001T180000'));
+    assert.ok(lines.includes('EXDATE;TZID=America/Los_Angeles:20251003T180000'));
+
+    const floating = unfold(buildCalendar([series()], { defaultTimeZone: 'Europe/Berlin' }));
+    assert.ok(floating.includes('X-WR-TIMEZONE:Europe/Berlin'));
+    assert.ok(floating.includes('DTSTART;TZID=Europe/Berlin:20251001T180000'));
+  });
+
+  it('exports UNTIL as the end of the last day in the event zone', () => {
+    // 23:59:59 on Oct 5 in Los Angeles is already Oct 6 in UTC
+    const lines = unfold(buildCalendar([series({ time_zone: 'America/Los_Angeles' })]));
+    assert.ok(lines.includes('RRULE:FREQ=DAILY;UNTIL=20251006T065959Z'));
+    const tokyo = unfold(buildCalendar([series({ time_zone: 'Asia/Tokyo' })]));
+    assert.ok(tokyo.includes('RRULE:FREQ=DAILY;UNTIL=20251005T145959Z'));
+  });
+
+  it('exports all-day events as dates with an exclusive end', () => {
+    const lines = unfold(buildCalendar([series({ is_all_day: true, end_date: '2025-10-02' })]));
+    assert.ok(lines.includes('RRULE:FREQ=DAILY;UNTIL=20251005'));
+    assert.ok(lines.includes('DTSTART;VALUE=DATE:20251001'));
+    assert.ok(lines.includes('DTEND;VALUE=DATE:20251003'));
+    assert.ok(lines.includes('EXDATE;VALUE=DATE:20251003'));
+  });
+
+  it('ends overnight events on the next day', () => {
+    const lines = unfold(buildCalendar([{ id: 'e', title: 'Night shift', date: '2025-10-06', start_time: 22, end_time: 6 }]));
+    assert.ok(lines.includes('DTSTART:20251006T220000'));
+    assert.ok(lines.includes('DTEND:20251007T060000'));
+  });
+
+  it('links detached occurrences to their series instance', () => {
+    const detached = {
+      id: 'detached-1',
+      recurring_event_id: 'series-1',
+      original_date: '2025-10-02',
+      title: 'Standup (moved)',
+      date: '2025-10-02',
+      start_time: 19,
+      end_time: 19.5
+    };
+    const lines = unfold(buildCalendar([series(), detached]));
+    assert.ok(lines.includes('UID:series-1@dayrhythm.ai'));
+    assert.ok(lines.includes('RECURRENCE-ID:20251002T180000'));
+  });
+
+  it('adds one alarm per distinct lead time', () => {
+    const lines = unfold(buildCalendar([series({
+      notification_settings: { enabled: true, minutesBefore: [10, 10, 60], notificationIds: [] }
+    })]));
+    assert.deepEqual(lines.filter(line => line.startsWith('TRIGGER:')), ['TRIGGER:-PT10M', 'TRIGGER:-PT60M']);
+  });
+});
+
+describe('ical text helpers', () => {
+  it('escapes special characters', () => {
+    assert.equal(escapeText('a;b,c\\d\ne'), 'a\\;b\\,c\\\\d\\ne');
+  });
+
+  it('folds long lines without splitting characters', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}`;
+    const folded = foldLine(line);
+    for (const part of folded.split('\r\n')) {
+      assert.ok(Buffer.byteLength(part) <= 75);
+    }
+    assert.equal(folded.replace(/\r\n /g, ''), line);
+  });
+
+  it('rolls 24:00 over to the next day', () => {
+    assert.equal(formatLocalDateTime('2025-10-05', 24), '20251006T000000');
+    assert.equal(formatLocalDateTime('2025-10-05', 9.5), '20251005T093000');
+  });
+});
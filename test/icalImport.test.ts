@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildCalendar } from '../src/utils/ical';
+import { convertICalendar, ICalParseError, parseDuration, parseICalendar } from '../src/utils/icalImport';
+
+function calendar(...vevent: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', 'BEGIN:VEVENT', ...vevent, 'END:VEVENT', 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('parseICalendar', () => {
+  it('unfolds lines and keeps quoted parameter values whole', () => {
+    const [root] = parseICalendar(calendar('UID:1', 'SUMMARY:Long', ' er title', 'ATTENDEE;CN="Doe; Jane":mailto:jane@example.com'));
+    const [vevent] = root.components;
+    assert.equal(vevent.properties.find(p => p.name === 'SUMMARY')?.value, 'Longer title');
+    assert.equal(vevent.properties.find(p => p.name === 'ATTENDEE')?.params.CN, 'Doe; Jane');
+  });
+
+  it('rejects unbalanced components', () => {
+    assert.throws(() => parseICalendar('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nEND:VCALENDAR'), ICalParseError);
+    assert.throws(() => parseICalendar('BEGIN:VEVENT\r\nEND:VEVENT'), /No VCALENDAR/);
+  });
+});
+
+describe('parseDuration', () => {
+  it('reads RFC 5545 durations in minutes', () => {
+    assert.equal(parseDuration('PT1H30M'), 90);
+    assert.equal(parseDuration('P1D'), 1440);
+    assert.equal(parseDuration('-PT15M'), -15);
+    assert.equal(parseDuration('1 hour'), null);
+  });
+});
+
+describe('convertICalendar', () => {
+  it('converts UTC and TZID times into the target zone', () => {
+    const { events } = convertICalendar(parseICalendar(calendar(
+      'UID:1',
+      'SUMMARY:Call',
+      'DTSTART:20251006T010000Z',
+      'DURATION:PT45M'
+    )), 'America/Los_Angeles');
+    assert.equal(events[0].date, '2025-10-05');
+    assert.equal(events[0].startTime, 18);
+    assert.equal(events[0].endTime, 18.75);
+
+    const { events: windows } = convertICalendar(parseICalendar(calendar(
+      'UID:2',
+      'SUMMARY:Review',
+      'DTSTART;TZID=Eastern Standard Time:20251006T090000',
+      'DTEND;TZID=Eastern Standard Time:20251006T100000'
+    )), 'America/Los_Angeles');
+    assert.equal(windows[0].startTime, 6);
+    assert.equal(windows[0].endTime, 7);
+  });
+
+  it('treats an all-day DTEND as exclusive', () => {
+    const { events } = convertICalendar(parseICalendar(calendar(
+      'UID:1',
+      'SUMMARY:Trip',
+      'DTSTART;VALUE=DATE:20251010',
+      'DTEND;VALUE=DATE:20251013'
+    )), 'UTC');
+    assert.equal(events.length, 1);
+    assert.equal(events[0].isAllDay, true);
+    assert.equal(events[0].endDate, '2025-10-12');
+  });
+
+  it('keeps overnight events whole', () => {
+    const { events } = convertICalendar(parseICalendar(calendar(
+      'UID:1',
+      'SUMMARY:Night shift',
+      'DTSTART:20251006T220000',
+      'DTEND:20251007T060000'
+    )), 'UTC');
+    assert.deepEqual([events[0].date, events[0].startTime, events[0].endTime, events[0].endDate], ['2025-10-06', 22, 6, '2025-10-07']);
+  });
+
+  it('turns modified and cancelled instances into series exceptions', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT', 'UID:s', 'SUMMARY:Gym', 'DTSTART:20251006T170000', 'DTEND:20251006T180000', 'RRULE:FREQ=DAILY;COUNT=5', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:s', 'RECURRENCE-ID:20251007T170000', 'SUMMARY:Gym', 'DTSTART:20251007T190000', 'DTEND:20251007T200000', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:s', 'RECURRENCE-ID:20251008T170000', 'STATUS:CANCELLED', 'DTSTART:20251008T170000', 'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+    const { events } = convertICalendar(parseICalendar(text), 'UTC');
+    assert.equal(events.length, 2);
+    assert.deepEqual(events[0].recurrenceExceptions, ['2025-10-07', '2025-10-08']);
+    assert.equal(events[1].startTime, 19);
+    assert.equal(events[1].recurrenceRule, undefined);
+  });
+
+  it('keeps the last definition of a repeated UID', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT', 'UID:d', 'SUMMARY:Draft', 'DTSTART:20251006T090000', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:d', 'SUMMARY:Final', 'DTSTART:20251006T100000', 'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+    const { events, skipped } = convertICalendar(parseICalendar(text), 'UTC');
+    assert.deepEqual(events.map(event => [event.title, event.localId]), [['Final', 'ics:d']]);
+    assert.deepEqual(skipped, [{ uid: 'ics:d', title: 'Draft', reason: 'Replaced by a later event with the same UID' }]);
+  });
+
+  it('skips what it cannot represent instead of failing', () => {
+    const { events, skipped } = convertICalendar(parseICalendar(calendar(
+      'UID:1',
+      'SUMMARY:Yearly',
+      'DTSTART:20251006T090000',
+      'RRULE:FREQ=YEARLY'
+    )), 'UTC');
+    assert.equal(events.length, 0);
+    assert.match(skipped[0].reason, /Unsupported recurrence rule/);
+  });
+
+  it('reads back what the exporter writes', () => {
+    const exported = buildCalendar([{
+      id: 'series-1',
+      title: 'Standup',
+      date: '2025-10-01',
+      start_time: 18,
+      end_time: 18.5,
+      recurrence_rule: 'FREQ=DAILY;UNTIL=20251005',
+      recurrence_exceptions: ['2025-10-03']
+    }]);
+    const { events, skipped } = convertICalendar(parseICalendar(exported), 'UTC');
+    assert.deepEqual(skipped, []);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].date, '2025-10-01');
+    assert.equal(events[0].startTime, 18);
+    assert.deepEqual(events[0].recurrenceExceptions, ['2025-10-03']);
+  });
+});
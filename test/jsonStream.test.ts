@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createJsonArrayReader } from '../src/utils/jsonStream';
+
+function readAll(chunks: string[], key?: string): unknown[][] {
+  const reader = createJsonArrayReader(key);
+  return chunks.map(chunk => reader.push(chunk));
+}
+
+describe('createJsonArrayReader', () => {
+  it('returns each element once its closing character arrives', () => {
+    assert.deepEqual(readAll(['[{"a":', '1},{"b":"}', ']"}', ']']), [[], [{ a: 1 }], [{ b: '}]' }], []]);
+  });
+
+  it('skips fences and prose before the array', () => {
+    assert.deepEqual(readAll(['Sure! ```json\n["x", "y\\"z"]\n```']), [['x', 'y"z']]);
+  });
+
+  it('reads the array under the given key of a wrapping object', () => {
+    assert.deepEqual(readAll(['{"meta": {"n": [9]}, "events": [1, ', 'true, null]}'], 'events'), [[1], [true, null]]);
+  });
+
+  it('returns undefined for elements that are not valid JSON and counts them', () => {
+    const reader = createJsonArrayReader();
+    assert.deepEqual(reader.push('[{"a": 1,}, 2]'), [undefined, 2]);
+    assert.equal(reader.count, 2);
+  });
+
+  it('ignores anything after the array ends', () => {
+    assert.deepEqual(readAll(['[1]', '[2]']), [[1], []]);
+  });
+});
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  countOccurrencesBefore,
+  expandRecurrence,
+  formatRRule,
+  isValidRRule,
+  occursOn,
+  parseRRule,
+  splitRecurrence
+} from '../src/utils/recurrence';
+
+describe('parseRRule', () => {
+  it('parses every supported part and formats back to the same rule', () => {
+    const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2MO,-1FR;COUNT=5');
+    assert.deepEqual(rule, {
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [{ weekday: 1, ordinal: 2 }, { weekday: 5, ordinal: -1 }],
+      count: 5
+    });
+    assert.equal(formatRRule(rule), 'FREQ=MONTHLY;INTERVAL=2;BYDAY=2MO,-1FR;COUNT=5');
+  });
+
+  it('reads UNTIL as an inclusive date', () => {
+    assert.equal(parseRRule('FREQ=DAILY;UNTIL=20251031').until, '2025-10-31');
+  });
+
+  it('rejects unsupported or malformed rules', () => {
+    assert.equal(isValidRRule('FREQ=YEARLY'), false);
+    assert.equal(isValidRRule(''), false);
+    assert.equal(isValidRRule('FREQ=DAILY;INTERVAL'), false);
+    assert.equal(isValidRRule('FREQ=WEEKLY;BYDAY=MO'), true);
+  });
+});
+
+describe('expandRecurrence', () => {
+  it('expands weekly rules on the listed weekdays within the range', () => {
+    // 2025-10-06 is a Monday
+    assert.deepEqual(
+      expandRecurrence('2025-10-06', 'FREQ=WEEKLY;BYDAY=MO,WE', { from: '2025-10-06', to: '2025-10-19' }),
+      ['2025-10-06', '2025-10-08', '2025-10-13', '2025-10-15']
+    );
+  });
+
+  it('applies COUNT before removing exceptions', () => {
+    assert.deepEqual(
+      expandRecurrence('2025-10-01', 'FREQ=DAILY;COUNT=3', { from: '2025-10-01', to: '2025-10-31' }, ['2025-10-02']),
+      ['2025-10-01', '2025-10-03']
+    );
+  });
+
+  it('stops at UNTIL', () => {
+    assert.deepEqual(
+      expandRecurrence('2025-10-01', 'FREQ=DAILY;INTERVAL=2;UNTIL=20251005', { from: '2025-09-01', to: '2025-12-31' }),
+      ['2025-10-01', '2025-10-03', '2025-10-05']
+    );
+  });
+
+  it('skips months without the requested day', () => {
+    assert.deepEqual(
+      expandRecurrence('2025-01-31', 'FREQ=MONTHLY;BYMONTHDAY=31', { from: '2025-01-01', to: '2025-05-31' }),
+      ['2025-01-31', '2025-03-31', '2025-05-31']
+    );
+  });
+
+  it('finds the last weekday of a month', () => {
+    assert.deepEqual(
+      expandRecurrence('2025-10-31', 'FREQ=MONTHLY;BYDAY=-1FR', { from: '2025-10-01', to: '2025-12-31' }),
+      ['2025-10-31', '2025-11-28', '2025-12-26']
+    );
+  });
+});
+
+describe('occursOn and countOccurrencesBefore', () => {
+  it('checks single dates against the rule', () => {
+    assert.equal(occursOn('2025-10-06', 'FREQ=WEEKLY', '2025-10-20'), true);
+    assert.equal(occursOn('2025-10-06', 'FREQ=WEEKLY', '2025-10-21'), false);
+  });
+
+  it('counts occurrences strictly before a date', () => {
+    assert.equal(countOccurrencesBefore('2025-10-01', 'FREQ=DAILY', '2025-10-05'), 4);
+    assert.equal(countOccurrencesBefore('2025-10-01', 'FREQ=DAILY', '2025-10-01'), 0);
+  });
+});
+
+describe('splitRecurrence', () => {
+  it('ends an open-ended head the day before the split', () => {
+    const { head, tail } = splitRecurrence('2025-10-01', 'FREQ=DAILY', '2025-10-10');
+    assert.equal(head?.until, '2025-10-09');
+    assert.equal(tail.until, undefined);
+  });
+
+  it('divides COUNT between head and tail', () => {
+    const { head, tail } = splitRecurrence('2025-10-01', 'FREQ=DAILY;COUNT=10', '2025-10-04');
+    assert.equal(head?.count, 3);
+    assert.equal(tail.count, 7);
+  });
+
+  it('leaves no head when nothing occurs before the split', () => {
+    // 2025-10-01 is a Wednesday, so the first occurrence is Monday 2025-10-06
+    const counted = splitRecurrence('2025-10-01', 'FREQ=WEEKLY;BYDAY=MO;COUNT=3', '2025-10-06');
+    assert.equal(counted.head, null);
+    assert.equal(formatRRule(counted.tail), 'FREQ=WEEKLY;BYDAY=MO;COUNT=3');
+    assert.equal(splitRecurrence('2025-10-01', 'FREQ=WEEKLY;BYDAY=MO', '2025-10-06').head, null);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeReminders, reminderKey, reminderMessage, transformReminder } from '../src/utils/reminders';
+
+function row(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'event-1',
+    user_id: 'user-1',
+    title: 'Team sync',
+    emoji: '💼',
+    date: '2025-10-06',
+    start_time: 9,
+    end_time: 10,
+    time_zone: 'America/Los_Angeles',
+    notification_settings: { enabled: true, minutesBefore: [15, 60, 15, 20000], notificationIds: [] },
+    ...overrides
+  };
+}
+
+const window = { from: new Date('2025-10-06T15:00:00Z'), to: new Date('2025-10-06T16:00:00Z') };
+const noZone = () => 'UTC';
+
+describe('computeReminders', () => {
+  it('finds each lead time due in the window, in the event zone', () => {
+    const reminders = computeReminders([row()], window, noZone);
+    assert.deepEqual(
+      reminders.map(r => [r.minutesBefore, r.remindAt.toISOString()]),
+      [[60, '2025-10-06T15:00:00.000Z'], [15, '2025-10-06T15:45:00.000Z']]
+    );
+    assert.equal(reminders[0].startsAt.toISOString(), '2025-10-06T16:00:00.000Z');
+  });
+
+  it('reads floating events in the zone the resolver gives', () => {
+    const reminders = computeReminders([row({ time_zone: null })], window, () => 'America/Los_Angeles');
+    assert.equal(reminders.length, 2);
+    assert.equal(reminders[0].timeZone, 'America/Los_Angeles');
+    assert.equal(computeReminders([row({ time_zone: null })], window, noZone).length, 0);
+  });
+
+  it('skips disabled settings and events already done, but not completed series', () => {
+    assert.equal(computeReminders([row({ notification_settings: { enabled: false, minutesBefore: [15] } })], window, noZone).length, 0);
+    assert.equal(computeReminders([row({ is_completed: true })], window, noZone).length, 0);
+    assert.equal(computeReminders([row({ is_completed: true, occurrence_date: '2025-10-06' })], window, noZone).length, 2);
+  });
+});
+
+describe('reminderMessage', () => {
+  it('describes the lead time and start', () => {
+    const [reminder] = computeReminders([row()], window, noZone);
+    assert.deepEqual(reminderMessage(reminder), { title: '💼 Team sync', body: 'In 1 hour, at 09:00' });
+    assert.equal(reminderMessage({ ...reminder, minutesBefore: 1440 }).body, 'In 1 day, on 2025-10-06 at 09:00');
+    assert.equal(reminderMessage({ ...reminder, minutesBefore: 0, emoji: null }).title, 'Team sync');
+  });
+});
+
+describe('transformReminder', () => {
+  it('shows the start in the requested zone with the delivery state', () => {
+    const [reminder] = computeReminders([row()], window, noZone);
+    const scheduled = transformReminder(reminder, null, 'Asia/Tokyo', new Date('2025-10-06T14:00:00Z'));
+    assert.equal(scheduled.date, '2025-10-07');
+    assert.equal(scheduled.startTime, 1);
+    assert.equal(scheduled.status, 'scheduled');
+    assert.equal(transformReminder(reminder, null, 'UTC', window.to).status, 'due');
+
+    const sent = transformReminder(reminder, { status: 'sent', channel: 'webhook', attempts: 1 }, 'UTC', window.to);
+    assert.equal(sent.status, 'sent');
+    assert.deepEqual(sent.delivery, { channel: 'webhook', attempts: 1, sentAt: null, error: null });
+  });
+
+  it('keys deliveries by event and instant', () => {
+    assert.equal(reminderKey('e', '2025-10-06T15:00:00+00:00'), reminderKey('e', new Date('2025-10-06T15:00:00Z')));
+  });
+});
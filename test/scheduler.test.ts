@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ScheduleTask } from '../src/schemas/schedule.schema';
+import { getTaskType, scheduleTasks } from '../src/utils/scheduler';
+
+const DAY = '2025-10-06';
+
+function task(overrides: Partial<ScheduleTask>): ScheduleTask {
+  return { title: 'Task', durationMinutes: 60, priority: 'medium', ...overrides };
+}
+
+describe('scheduleTasks', () => {
+  it('places urgent deep work in high energy and keeps placements apart', () => {
+    const { placements, unscheduled } = scheduleTasks(
+      [{ date: DAY, start_time: 9, end_time: 10 }],
+      [task({ title: 'Answer email', durationMinutes: 30, priority: 'low' }), task({ title: 'Coding', durationMinutes: 120, priority: 'high' })],
+      { from: DAY, to: DAY, workStart: 9, workEnd: 17 }
+    );
+    assert.deepEqual(unscheduled, []);
+    assert.deepEqual(
+      placements.map(p => [p.taskIndex, p.startTime, p.endTime, p.energy, p.alignment]),
+      [[1, 10, 12, 'high', 'optimal'], [0, 12, 12.5, 'low', 'good']]
+    );
+  });
+
+  it('reports tasks that cannot be placed', () => {
+    const { placements, unscheduled } = scheduleTasks(
+      [{ date: DAY, start_time: 9, end_time: 16.5 }],
+      [
+        task({ title: 'Offsite', durationMinutes: 600 }),
+        task({ title: 'Late', deadline: '2025-10-01' }),
+        task({ title: 'Review' })
+      ],
+      { from: DAY, to: DAY, workStart: 9, workEnd: 17 }
+    );
+    assert.deepEqual(placements, []);
+    assert.deepEqual(unscheduled.map(u => u.reason), [
+      'Longer than the working-hours window',
+      'Deadline is before the scheduling window',
+      'No free slot long enough in the range'
+    ]);
+  });
+
+  it('classifies by category before title', () => {
+    assert.equal(getTaskType(task({ title: 'Coding', category: 'Client call' })), 'meetings');
+    assert.equal(getTaskType(task({ title: 'Coding' })), 'deep-work');
+  });
+});
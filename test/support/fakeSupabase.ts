@@ -0,0 +1,309 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+/**
+ * In-memory stand-in for the parts of Supabase the API talks to (auth's
+ * /user lookup and PostgREST table reads and writes), served on localhost so
+ * route tests run the real supabase-js client without network access.
+ * Covers the filters and headers the services use, not all of PostgREST.
+ */
+
+export const TEST_USER = { id: '3f2b1c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d', email: 'test@example.com' };
+export const TEST_TOKEN = 'test-token';
+
+// Column defaults from the README schema that the code relies on
+const TABLE_DEFAULTS: Record<string, Record<string, unknown>> = {
+  events: { version: 1, recurrence_exceptions: [], is_all_day: false, is_completed: false },
+  chat_proposals: { status: 'pending' },
+  reminder_deliveries: { attempts: 1 }
+};
+
+// Unique keys other than id, so conflicting writes fail like they would in Postgres
+const UNIQUE_KEYS: Record<string, string[][]> = {
+  events: [['user_id', 'local_id']]
+};
+
+type Row = Record<string, any>;
+
+// What the README's change sequence trigger and defaults fill in on every write
+function stampChange(table: string, row: Row, sequence: { next: number }, previous?: Row) {
+  if (table === 'events') {
+    row.change_seq = sequence.next++;
+    row.created_seq = previous ? previous.created_seq : row.change_seq;
+  } else if (table === 'event_tombstones' && !previous) {
+    row.change_seq = sequence.next++;
+  }
+}
+type Predicate = (row: Row) => boolean;
+
+export interface FakeSupabase {
+  url: string;
+  tables: Map<string, Row[]>;
+  rows(table: string): Row[];
+  reset(): void;
+  close(): Promise<void>;
+}
+
+// Split on commas that are not inside parentheses or quotes
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+function compare(actual: unknown, expected: string): number {
+  if (typeof actual === 'number') return actual - Number(expected);
+  const text = String(actual);
+  return text < expected ? -1 : text > expected ? 1 : 0;
+}
+
+function operator(op: string, raw: string): Predicate | null {
+  const value = unquote(raw);
+  switch (op) {
+    case 'eq': return row => row.__value !== null && row.__value !== undefined && compare(row.__value, value) === 0;
+    case 'neq': return row => row.__value !== null && row.__value !== undefined && compare(row.__value, value) !== 0;
+    case 'gt': return row => row.__value != null && compare(row.__value, value) > 0;
+    case 'gte': return row => row.__value != null && compare(row.__value, value) >= 0;
+    case 'lt': return row => row.__value != null && compare(row.__value, value) < 0;
+    case 'lte': return row => row.__value != null && compare(row.__value, value) <= 0;
+    case 'is':
+      return value === 'null'
+        ? row => row.__value === null || row.__value === undefined
+        : row => row.__value === (value === 'true');
+    case 'in': {
+      const list = splitTopLevel(value.replace(/^\(|\)$/g, '')).map(unquote);
+      return row => row.__value != null && list.some(item => compare(row.__value, item) === 0);
+    }
+    case 'ilike': {
+      const pattern = new RegExp(`^${value.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/[*%]/g, '.*')}$`, 'i');
+      return row => row.__value != null && pattern.test(String(row.__value));
+    }
+    case 'cs': {
+      const list = value.replace(/^\{|\}$/g, '').split(',').filter(Boolean).map(unquote);
+      return row => Array.isArray(row.__value) && list.every(item => row.__value.includes(item));
+    }
+    default:
+      return null;
+  }
+}
+
+// "column=op.value", possibly negated with "not."
+function columnFilter(column: string, expression: string): Predicate {
+  const negated = expression.startsWith('not.');
+  const rest = negated ? expression.slice(4) : expression;
+  const dot = rest.indexOf('.');
+  const test = operator(rest.slice(0, dot), rest.slice(dot + 1));
+  if (!test) throw new Error(`Unsupported filter ${column}=${expression}`);
+  return row => {
+    const matches = test({ __value: row[column] });
+    return negated ? !matches : matches;
+  };
+}
+
+// "(a.eq.1,and(b.is.null,c.gte.2))" inside or=/and=
+function logicalFilter(kind: 'or' | 'and', group: string): Predicate {
+  const predicates = splitTopLevel(group.replace(/^\(|\)$/g, '')).map(part => {
+    const nested = part.match(/^(or|and)\((.*)\)$/);
+    if (nested) return logicalFilter(nested[1] as 'or' | 'and', `(${nested[2]})`);
+    const dot = part.indexOf('.');
+    return columnFilter(part.slice(0, dot), part.slice(dot + 1));
+  });
+  return kind === 'or'
+    ? row => predicates.some(predicate => predicate(row))
+    : row => predicates.every(predicate => predicate(row));
+}
+
+const RESERVED_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'on_conflict', 'columns']);
+
+function buildPredicate(params: URLSearchParams): Predicate {
+  const predicates: Predicate[] = [];
+  for (const [key, value] of params) {
+    if (RESERVED_PARAMS.has(key)) continue;
+    predicates.push(key === 'or' || key === 'and' ? logicalFilter(key, value) : columnFilter(key, value));
+  }
+  return row => predicates.every(predicate => predicate(row));
+}
+
+function sortRows(rows: Row[], order: string | null): Row[] {
+  if (!order) return rows;
+  const keys = order.split(',').map(part => {
+    const [column, ...modifiers] = part.split('.');
+    return { column, descending: modifiers.includes('desc') };
+  });
+  return [...rows].sort((a, b) => {
+    for (const { column, descending } of keys) {
+      const left = a[column];
+      const right = b[column];
+      if (left === right) continue;
+      if (left == null) return 1;
+      if (right == null) return -1;
+      const result = left < right ? -1 : 1;
+      return descending ? -result : result;
+    }
+    return 0;
+  });
+}
+
+function readBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let text = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { text += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function sameKey(a: Row, b: Row, columns: string[]): boolean {
+  return columns.every(column => a[column] != null && a[column] === b[column]);
+}
+
+export async function startFakeSupabase(): Promise<FakeSupabase> {
+  const tables = new Map<string, Row[]>();
+  const sequence = { next: 1 };
+  const rows = (table: string) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  };
+
+  function violatesUnique(table: string, row: Row, others: Row[]): boolean {
+    return (UNIQUE_KEYS[table] || []).some(columns => others.some(other => other !== row && sameKey(other, row, columns)));
+  }
+
+  async function handleRest(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const table = url.pathname.replace('/rest/v1/', '');
+    const params = url.searchParams;
+    const prefer = String(req.headers.prefer || '');
+    const single = String(req.headers.accept || '').includes('application/vnd.pgrst.object+json');
+    const returnRows = req.method === 'GET' || prefer.includes('return=representation');
+    const now = new Date().toISOString();
+    let result: Row[] = [];
+
+    if (req.method === 'GET') {
+      result = rows(table).filter(buildPredicate(params));
+    } else if (req.method === 'POST') {
+      const body = await readBody(req);
+      const conflictColumns = (params.get('on_conflict') || 'id').split(',');
+      const existing = rows(table);
+      for (const input of Array.isArray(body) ? body : [body]) {
+        const match = prefer.includes('resolution=') ? existing.find(row => sameKey(row, input, conflictColumns)) : undefined;
+        if (match) {
+          if (prefer.includes('resolution=ignore-duplicates')) continue;
+          const previous = { ...match };
+          Object.assign(match, input);
+          stampChange(table, match, sequence, previous);
+          result.push(match);
+          continue;
+        }
+        if (input.id && existing.some(row => row.id === input.id)) {
+          return send(res, 409, { code: '23505', message: `duplicate key value violates unique constraint "${table}_pkey"` });
+        }
+        const row = { ...TABLE_DEFAULTS[table], id: randomUUID(), created_at: now, updated_at: now, ...input };
+        if (violatesUnique(table, row, existing)) {
+          return send(res, 409, { code: '23505', message: `duplicate key value violates unique constraint on ${table}` });
+        }
+        stampChange(table, row, sequence);
+        existing.push(row);
+        result.push(row);
+      }
+    } else if (req.method === 'PATCH') {
+      const body = await readBody(req);
+      const matched = rows(table).filter(buildPredicate(params));
+      for (const row of matched) {
+        if (violatesUnique(table, { ...row, ...body }, rows(table).filter(other => other !== row))) {
+          return send(res, 409, { code: '23505', message: `duplicate key value violates unique constraint on ${table}` });
+        }
+      }
+      matched.forEach(row => {
+        const previous = { ...row };
+        Object.assign(row, body);
+        stampChange(table, row, sequence, previous);
+      });
+      result = matched;
+    } else if (req.method === 'DELETE') {
+      const predicate = buildPredicate(params);
+      result = rows(table).filter(predicate);
+      tables.set(table, rows(table).filter(row => !predicate(row)));
+    } else {
+      return send(res, 405, { message: `Unsupported method ${req.method}` });
+    }
+
+    result = sortRows(result, params.get('order'));
+    const offset = Number(params.get('offset') || 0);
+    const limit = params.has('limit') ? Number(params.get('limit')) : undefined;
+    result = result.slice(offset, limit === undefined ? undefined : offset + limit);
+    // Copies, so callers never share objects with the store
+    const payload = JSON.parse(JSON.stringify(result));
+
+    if (!returnRows) return send(res, req.method === 'POST' ? 201 : 204);
+    if (single) {
+      if (payload.length !== 1) {
+        return send(res, 406, {
+          code: 'PGRST116',
+          details: `The result contains ${payload.length} rows`,
+          message: 'JSON object requested, multiple (or no) rows returned'
+        });
+      }
+      return send(res, 200, payload[0]);
+    }
+    return send(res, req.method === 'POST' ? 201 : 200, payload);
+  }
+
+  const server: Server = createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname === '/auth/v1/user') {
+      return req.headers.authorization === `Bearer ${TEST_TOKEN}`
+        ? send(res, 200, { ...TEST_USER, aud: 'authenticated', role: 'authenticated' })
+        : send(res, 401, { message: 'invalid JWT' });
+    }
+    if (url.pathname.startsWith('/rest/v1/')) {
+      handleRest(req, res, url).catch(error => send(res, 500, { message: String(error) }));
+      return;
+    }
+    send(res, 404, { message: `No fake for ${url.pathname}` });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    tables,
+    rows,
+    reset: () => tables.clear(),
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
@@ -0,0 +1,77 @@
+import express from 'express';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import type { LLMProvider } from '../../src/services/llm/types';
+import { FakeSupabase, startFakeSupabase, TEST_TOKEN } from './fakeSupabase';
+
+/**
+ * The real app wired to the fake Supabase and the offline LLM provider,
+ * listening on a free localhost port
+ */
+
+export interface TestServer {
+  supabase: FakeSupabase;
+  // The offline provider the app answers with, to mock answers it never gives
+  llm: LLMProvider;
+  request(method: string, path: string, body?: unknown, headers?: Record<string, string>): Promise<{ status: number; body: any }>;
+  // Server-sent events of a streaming route, in order
+  stream(path: string, body: unknown): Promise<{ status: number; events: { event: string; data: any }[] }>;
+  close(): Promise<void>;
+}
+
+export async function startTestServer(): Promise<TestServer> {
+  const supabase = await startFakeSupabase();
+
+  process.env.SUPABASE_URL = supabase.url;
+  process.env.SUPABASE_ANON_KEY = 'test-anon-key';
+  process.env.SUPABASE_SERVICE_KEY = 'test-service-key';
+  process.env.LLM_PROVIDER = 'local';
+  // Serverless mode: server.ts neither listens nor starts the reminder scheduler
+  process.env.VERCEL = '1';
+
+  const { default: app } = await import('../../src/server');
+  // The app's own modules are CommonJS; import() would load a second copy of this one
+  const { localProvider }: typeof import('../../src/services/llm/local.provider') = require('../../src/services/llm/local.provider');
+  const host = express().use('/api', app);
+  const server: Server = await new Promise(resolve => {
+    const listening = host.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const send = (method: string, path: string, body?: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${TEST_TOKEN}`, 'Content-Type': 'application/json', ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  return {
+    supabase,
+    llm: localProvider,
+
+    async request(method, path, body, headers) {
+      const res = await send(method, path, body, headers);
+      const text = await res.text();
+      return { status: res.status, body: text ? JSON.parse(text) : null };
+    },
+
+    async stream(path, body) {
+      const res = await send('POST', path, body);
+      const text = await res.text();
+      const events = text.split('\n\n').filter(Boolean).map(block => {
+        const event = block.match(/^event: (.*)$/m)?.[1] ?? 'message';
+        const data = block.match(/^data: (.*)$/m)?.[1];
+        return { event, data: data ? JSON.parse(data) : null };
+      });
+      return { status: res.status, events };
+    },
+
+    async close() {
+      await new Promise<void>(resolve => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      });
+      await supabase.close();
+    }
+  };
+}
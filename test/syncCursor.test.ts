@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeSyncCursor, encodeSyncCursor, isTimestampCursor, SyncCursor } from '../src/utils/syncCursor';
+
+const ID = '3f2b1c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d';
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+describe('sync cursors', () => {
+  it('round-trip change sequence positions', () => {
+    const cursor: SyncCursor = {
+      events: 1042,
+      tombstones: null,
+      issuedAt: '2025-10-06T15:00:01.000Z',
+      fullSync: true
+    };
+    assert.deepEqual(decodeSyncCursor(encodeSyncCursor(cursor)), cursor);
+  });
+
+  it('recognizes cursors from before change sequences', () => {
+    const timestamp = '2025-10-06T15:00:00Z';
+    assert.equal(decodeSyncCursor(encode({ t: timestamp })), null);
+    assert.equal(isTimestampCursor(encode({ t: timestamp })), true);
+    assert.equal(isTimestampCursor(encode({ e: { t: timestamp, id: ID }, d: null, i: timestamp })), true);
+    assert.equal(isTimestampCursor(encodeSyncCursor({ events: 1, tombstones: 2, issuedAt: timestamp, fullSync: false })), false);
+  });
+
+  it('rejects anything that could leak into a filter', () => {
+    const issuedAt = '2025-10-06T15:00:00.000Z';
+    assert.equal(decodeSyncCursor(encode({ e: '1,id.neq.0', d: null, i: issuedAt })), null);
+    assert.equal(decodeSyncCursor(encode({ e: 1.5, d: null, i: issuedAt })), null);
+    assert.equal(decodeSyncCursor(encode({ e: -1, d: null, i: issuedAt })), null);
+    assert.equal(decodeSyncCursor(encode({ e: null, d: null, i: 'yesterday' })), null);
+    assert.equal(decodeSyncCursor('not a cursor'), null);
+  });
+});
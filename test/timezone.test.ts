@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  convertWallTime,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  todayInZone,
+  toZonedParts,
+  zonedTimeToUtc
+} from '../src/utils/timezone';
+
+describe('timezone', () => {
+  it('validates IANA zone names', () => {
+    assert.equal(isValidTimeZone('Europe/Berlin'), true);
+    assert.equal(isValidTimeZone('Mars/Olympus_Mons'), false);
+  });
+
+  it('reads the wall clock of an instant in a zone', () => {
+    assert.deepEqual(toZonedParts(new Date('2025-10-06T01:30:00Z'), 'America/Los_Angeles'), {
+      date: '2025-10-05',
+      hours: 18.5
+    });
+  });
+
+  it('reports offsets on both sides of a DST change', () => {
+    assert.equal(getTimeZoneOffset(new Date('2025-07-01T12:00:00Z'), 'America/New_York'), -240);
+    assert.equal(getTimeZoneOffset(new Date('2025-12-01T12:00:00Z'), 'America/New_York'), -300);
+    assert.equal(getTimeZoneOffset(new Date('2025-07-01T12:00:00Z'), 'Asia/Kolkata'), 330);
+  });
+
+  it('turns wall-clock times into instants', () => {
+    assert.equal(zonedTimeToUtc('2025-10-05', 18, 'America/Los_Angeles').toISOString(), '2025-10-06T01:00:00.000Z');
+    assert.equal(zonedTimeToUtc('2025-10-05', 9.25, 'Asia/Tokyo').toISOString(), '2025-10-05T00:15:00.000Z');
+  });
+
+  it('treats 24:00 as midnight of the next day', () => {
+    assert.equal(zonedTimeToUtc('2025-10-05', 24, 'America/Los_Angeles').toISOString(), '2025-10-06T07:00:00.000Z');
+  });
+
+  it('resolves times skipped by a DST jump forward', () => {
+    // 02:30 does not exist in New York on 2025-03-09
+    assert.equal(zonedTimeToUtc('2025-03-09', 2.5, 'America/New_York').toISOString(), '2025-03-09T07:30:00.000Z');
+    assert.equal(zonedTimeToUtc('2025-03-30', 2.5, 'Europe/Berlin').toISOString(), '2025-03-30T01:30:00.000Z');
+  });
+
+  it('resolves times repeated by a DST change to the first one', () => {
+    assert.equal(zonedTimeToUtc('2025-11-02', 1.5, 'America/New_York').toISOString(), '2025-11-02T05:30:00.000Z');
+    assert.equal(zonedTimeToUtc('2025-10-26', 2.5, 'Europe/Berlin').toISOString(), '2025-10-26T00:30:00.000Z');
+  });
+
+  it('converts wall times between zones, across the date line', () => {
+    assert.deepEqual(convertWallTime('2025-10-06', 8, 'Asia/Tokyo', 'America/Los_Angeles'), {
+      date: '2025-10-05',
+      hours: 16
+    });
+    assert.deepEqual(convertWallTime('2025-10-06', 8, 'UTC', 'UTC'), { date: '2025-10-06', hours: 8 });
+  });
+
+  it("gives today's date in the zone rather than on the server", () => {
+    const now = new Date('2025-10-06T03:00:00Z');
+    assert.equal(todayInZone('UTC', now), '2025-10-06');
+    assert.equal(todayInZone('America/Los_Angeles', now), '2025-10-05');
+  });
+});